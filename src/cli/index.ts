@@ -6,27 +6,70 @@
  * - /// directive shorthand
  * - ::: container plugin
  * - ==highlight== mark plugin
- * - Mermaid/PlantUML diagram rendering
+ * - Mermaid/PlantUML/Graphviz diagram rendering
  * - Image/iframe embedding
  */
 
-import { program } from 'commander';
-import { readFile } from 'fs/promises';
-import { dirname, basename, extname, resolve, join } from 'path';
+import { program, type Command } from 'commander';
+import { mkdtemp, readFile, rm, stat, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, basename, extname, resolve, join, relative, sep } from 'path';
 import mimes from 'mime';
 import {
   loadConfig,
+  findConfigFile,
+  getExportExtension,
+  EXPORT_FORMATS,
   type MarpExtendedConfig,
   type ExportFormat,
 } from '../core/config';
+import {
+  exportBatch,
+  findMarpDecks,
+  findOutputCollisions,
+  formatBatchSummary,
+  getBatchOutputPath,
+  isGlobPattern,
+  DEFAULT_BATCH_CONCURRENCY,
+  type BatchJobResult,
+  type FoundDeck,
+} from '../core/batchExport';
+import {
+  DiagramRegistry,
+  MERMAID_DIAGRAM,
+  PLANTUML_DIAGRAM,
+  GRAPHVIZ_DIAGRAM,
+} from '../core/diagrams/registry';
 import { MermaidCliRenderer } from '../core/diagrams/mermaid-cli';
 import { PlantUMLRenderer } from '../core/diagrams/plantuml';
+import { GraphvizRenderer } from '../core/diagrams/graphviz';
+import {
+  createDiagramCommandEntry,
+  validateDiagramCommand,
+} from '../core/diagrams/command';
+import {
+  DiagramDiskCache,
+  getDefaultDiagramCacheDir,
+} from '../core/diagrams/diskCache';
 import { NodePathResolver } from '../core/nodePathResolver';
 import {
   exportPresentation,
   createExportConfigFromMarpConfig,
+  getExportProgressRatio,
   type ExportContext,
+  type ExportProgress,
+  type ExportResult,
 } from '../core/export';
+import { MarpCliError, resolveMarpCli } from '../core/marpCli';
+import {
+  getDeckSourcePaths,
+  getExportSourcePaths,
+  SourceWatcher,
+} from '../core/watch';
+import { PreviewServer, type RenderedDeck } from '../core/previewServer';
+import { parseSlideRanges } from '../core/slideEditing';
+import { createExportError, type ExportErrorKind } from '../core/exportErrors';
+import { createExportReport, formatExportReport } from '../core/exportReport';
 
 // Package version (will be set during build)
 const VERSION = '1.0.0';
@@ -54,6 +97,17 @@ function applySafeModeRestrictions(config: MarpExtendedConfig): string[] {
     config.diagrams.plantuml.enabled = false;
     skipped.push('PlantUML diagrams');
   }
+  if (config.diagrams.graphviz.enabled) {
+    config.diagrams.graphviz.enabled = false;
+    skipped.push('Graphviz diagrams');
+  }
+  if (config.diagrams.commands?.length) {
+    const languages = config.diagrams.commands.map(
+      (command) => command.language,
+    );
+    config.diagrams.commands = [];
+    skipped.push(`Diagram commands (${languages.join(', ')})`);
+  }
   if (config.embedding.images) {
     config.embedding.images = false;
     skipped.push('Image base64 embedding');
@@ -66,167 +120,894 @@ function applySafeModeRestrictions(config: MarpExtendedConfig): string[] {
   return skipped;
 }
 
-program
-  .name('marp-extended')
-  .description('Marp CLI with extended syntax support')
-  .version(VERSION)
-  .argument('<input>', 'Input markdown file')
-  .option('-o, --output <file>', 'Output file (default: input with new extension)')
-  .option('-c, --config <file>', 'Config file (default: marp-extended.config.json)')
-  .option(
-    '--format <type>',
-    'Output format: html, pdf, pptx (default: html)',
-    'html',
-  )
-  .option(
-    '--unsafe',
-    'Enable unsafe mode (--html, --allow-local-files) for full extended features',
-  )
-  .option('--theme-dir <dir>', 'Theme directory')
-  .option('--no-mermaid', 'Disable Mermaid preprocessing')
-  .option('--no-plantuml', 'Disable PlantUML preprocessing')
-  .option('--no-directives', 'Disable /// directive shorthand')
-  .option('--no-containers', 'Disable ::: container plugin')
-  .option('--no-mark', 'Disable ==highlight== mark plugin')
-  .option('--no-embed-images', 'Disable image embedding as base64')
-  .option('--no-embed-iframes', 'Disable iframe embedding as data URLs')
-  .option('--mermaid-cli <path>', 'Path to mmdc (mermaid-cli)')
-  .option('--mermaid-theme <theme>', 'Mermaid theme (default, dark, forest, neutral, base)')
-  .option('--plantuml-jar <path>', 'Path to plantuml.jar')
-  .option('--java <path>', 'Path to java executable')
-  .option('--verbose', 'Verbose output')
+/**
+ * Exit code for each kind of export failure
+ */
+const EXIT_CODES: Record<ExportErrorKind, number> = {
+  unknown: 1,
+  'marp-cli-not-found': 3,
+  'node-not-found': 4,
+  'browser-not-found': 5,
+  'theme-not-found': 6,
+  'diagram-failed': 7,
+  'output-not-writable': 8,
+  timeout: 9,
+  'slide-not-found': 10,
+  cancelled: 130,
+};
+
+/**
+ * Describe the cause of an export error for --verbose
+ *
+ * marp-cli failures give its exit code and output instead of the error
+ * object, whose stack holds marp-cli's minified source.
+ */
+function formatErrorCause(cause: unknown): unknown {
+  if (!(cause instanceof MarpCliError)) return cause;
+  const exit =
+    cause.exitCode === null
+      ? "marp-cli didn't exit normally"
+      : `marp-cli exited with code ${cause.exitCode}`;
+  const stderr = cause.stderr.trim();
+  return stderr ? `${exit}:\n${stderr}` : exit;
+}
+
+/**
+ * Single-line progress bar on stderr (only drawn on a terminal)
+ */
+function createProgressBar() {
+  const width = 24;
+  const enabled = Boolean(process.stderr.isTTY);
+
+  return {
+    update(progress: ExportProgress) {
+      if (!enabled) return;
+      const ratio = getExportProgressRatio(progress);
+      const filled = Math.round(ratio * width);
+      const bar = '#'.repeat(filled) + '-'.repeat(width - filled);
+      const percent = String(Math.round(ratio * 100)).padStart(3);
+      const line = `[${bar}] ${percent}% ${progress.message}`;
+      process.stderr.write(`\r${line.slice(0, (process.stderr.columns || 80) - 1)}\x1b[K`);
+    },
+    clear() {
+      if (enabled) process.stderr.write('\r\x1b[K');
+    },
+  };
+}
+
+/**
+ * Export result for --json output
+ *
+ * The error's cause is left out, it may not be serializable.
+ */
+function toJsonResult(result: ExportResult) {
+  const error = result.error && {
+    kind: result.error.kind,
+    message: result.error.message,
+    hint: result.error.hint,
+  };
+  return { ...result, error };
+}
+
+interface BatchRunOptions {
+  /** Output folder (default: next to each deck) */
+  outputDir?: string;
+  concurrency: number;
+  signal: AbortSignal;
+  json: boolean;
+  verbose: boolean;
+  exportDeck: (
+    markdown: string,
+    inputPath: string,
+    format: ExportFormat,
+    outputPath: string,
+    hooks: Pick<ExportContext, 'onProgress' | 'onError'>,
+  ) => Promise<ExportResult>;
+}
+
+/**
+ * Export every deck found in the inputs, in each format
+ *
+ * Prints a line per finished export and a summary of the failures.
+ */
+async function runBatch(
+  inputs: string[],
+  formats: ExportFormat[],
+  options: BatchRunOptions,
+): Promise<BatchJobResult[]> {
+  const { json, verbose } = options;
+  const cwd = process.cwd();
+
+  let decks: FoundDeck[];
+  try {
+    decks = await findMarpDecks(inputs, (path) => readFile(path, 'utf-8'));
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+  if (decks.length === 0) {
+    console.error(`No Marp decks (marp: true) found in ${inputs.join(', ')}`);
+    process.exit(1);
+  }
+
+  const jobs = decks.flatMap((deck) =>
+    formats.map((format) => ({
+      deck,
+      format,
+      outputPath: getBatchOutputPath(deck, format, options.outputDir),
+    })),
+  );
+
+  // Decks with the same path below different folders would overwrite
+  // each other in the output folder
+  const collisions = findOutputCollisions(jobs);
+  if (collisions.length > 0) {
+    console.error('Several decks would be exported to the same file:');
+    for (const group of collisions) {
+      console.error(
+        `  ${relative(cwd, group[0].outputPath)}: ${group.map((job) => relative(cwd, job.deck.path)).join(', ')}`,
+      );
+    }
+    console.error('Export them separately or into different output folders.');
+    process.exit(1);
+  }
+  if (!json) {
+    console.log(
+      `Exporting ${decks.length} deck(s) as ${formats.join(', ')} (${options.concurrency} at a time)`,
+    );
+  }
+
+  const results = await exportBatch(
+    jobs,
+    async (job) => {
+      const name = relative(cwd, job.deck.path);
+      let markdown: string;
+      try {
+        markdown = await readFile(job.deck.path, 'utf-8');
+      } catch (err) {
+        return {
+          success: false,
+          outputPath: job.outputPath,
+          error: createExportError({
+            kind: 'unknown',
+            message: `Error reading input file: ${err instanceof Error ? err.message : err}`,
+            cause: err,
+          }),
+          report: createExportReport(),
+        };
+      }
+      return options.exportDeck(markdown, job.deck.path, job.format, job.outputPath, {
+        onProgress: verbose
+          ? (progress) => console.debug(`${name}: ${progress.message}`)
+          : undefined,
+        onError: verbose
+          ? (err) => err.cause && console.error(name, formatErrorCause(err.cause))
+          : undefined,
+      });
+    },
+    {
+      concurrency: options.concurrency,
+      signal: options.signal,
+      onJobDone: ({ job, result }, finished, total) => {
+        if (json || !result) return;
+        const status = result.success
+          ? `-> ${relative(cwd, result.outputPath)}`
+          : `failed: ${result.error?.message ?? 'Unknown error'}`;
+        console.log(
+          `[${finished}/${total}] ${relative(cwd, job.deck.path)} (${job.format}) ${status}`,
+        );
+      },
+    },
+  );
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        results.map(({ job, result }) => ({
+          input: job.deck.path,
+          format: job.format,
+          ...(result
+            ? toJsonResult(result)
+            : { success: false, outputPath: job.outputPath, skipped: true }),
+        })),
+        null,
+        2,
+      ),
+    );
+  } else {
+    formatBatchSummary(results, cwd).forEach((line) => console.log(line));
+  }
+
+  return results;
+}
+
+/**
+ * Exit code of a batch: that of the first failed export, 130 if cancelled
+ */
+function getBatchExitCode(results: BatchJobResult[]): number {
+  if (results.some(({ result }) => !result)) return EXIT_CODES.cancelled;
+  const failed = results.find(({ result }) => result && !result.success);
+  return failed ? EXIT_CODES[failed.result?.error?.kind ?? 'unknown'] : 0;
+}
+
+/**
+ * Folder of the diagram disk cache
+ */
+function getDiagramCacheDir(config: MarpExtendedConfig): string {
+  const { dir } = config.diagrams.cache;
+  return dir ? resolve(dir) : getDefaultDiagramCacheDir();
+}
+
+/**
+ * Diagram renderers for a config, each behind an in-memory cache and,
+ * unless disabled, the disk cache
+ */
+function createDiagramRegistry(config: MarpExtendedConfig): DiagramRegistry {
+  const { mermaid, plantuml, graphviz, cache } = config.diagrams;
+  const diagrams = new DiagramRegistry([], {
+    cache: true,
+    diskCache: cache.enabled
+      ? new DiagramDiskCache(getDiagramCacheDir(config))
+      : undefined,
+  });
+
+  if (mermaid.enabled) {
+    diagrams.register({
+      ...MERMAID_DIAGRAM,
+      languages: mermaid.languages ?? MERMAID_DIAGRAM.languages,
+      renderer: new MermaidCliRenderer({ cliPath: mermaid.cliPath, theme: mermaid.theme }),
+    });
+  }
+  if (plantuml.enabled && plantuml.jarPath) {
+    diagrams.register({
+      ...PLANTUML_DIAGRAM,
+      languages: plantuml.languages ?? PLANTUML_DIAGRAM.languages,
+      renderer: new PlantUMLRenderer({
+        jarPath: plantuml.jarPath,
+        javaPath: plantuml.javaPath,
+      }),
+    });
+  }
+  if (graphviz.enabled) {
+    diagrams.register({
+      ...GRAPHVIZ_DIAGRAM,
+      languages: graphviz.languages ?? GRAPHVIZ_DIAGRAM.languages,
+      renderer: new GraphvizRenderer({
+        dotPath: graphviz.dotPath,
+        engine: graphviz.engine,
+      }),
+    });
+  }
+  // Commands from the config file only run in unsafe mode
+  if (config.mode === 'unsafe') {
+    for (const command of config.diagrams.commands ?? []) {
+      diagrams.register(createDiagramCommandEntry(command));
+    }
+  }
+
+  return diagrams;
+}
+
+/**
+ * Export context for a deck on the local file system
+ */
+function createExportContext(
+  config: MarpExtendedConfig,
+  inputPath: string,
+  diagrams: DiagramRegistry,
+  signal: AbortSignal,
+): ExportContext {
+  const inputDir = dirname(inputPath);
+
+  return {
+    // Use input directory as root for resolving relative paths
+    pathResolver: new NodePathResolver({ rootPath: inputDir }),
+    fileDir: '', // Relative to inputDir (which is already the file's directory)
+    getMimeType: (path) => mimes.getType(path),
+    diagrams,
+    // Prefer a marp-cli installed next to the input or the working directory
+    marpCli: resolveMarpCli(config.marpCliPath, [inputDir, process.cwd()]),
+    signal,
+  };
+}
+
+/**
+ * Load the config file and apply the command line options
+ *
+ * Exits on invalid option values.
+ */
+function loadCliConfig(
+  options: Record<string, unknown>,
+  format: ExportFormat,
+): MarpExtendedConfig {
+  // Config file -> defaults -> CLI overrides
+  const config = loadConfig(options.config as string | undefined);
+
+  // Apply CLI overrides
+  if (options.unsafe) config.mode = 'unsafe';
+  if (options.mermaid === false) config.diagrams.mermaid.enabled = false;
+  if (options.plantuml === false) config.diagrams.plantuml.enabled = false;
+  if (options.graphviz === false) config.diagrams.graphviz.enabled = false;
+  if (options.directives === false)
+    config.preprocessor.enableDirectiveShorthand = false;
+  if (options.containers === false)
+    config.preprocessor.enableContainerPlugin = false;
+  if (options.mark === false) config.preprocessor.enableMarkPlugin = false;
+  if (options.embedImages === false) config.embedding.images = false;
+  if (options.embedIframes === false) config.embedding.iframes = false;
+  if (options.mermaidCli)
+    config.diagrams.mermaid.cliPath = options.mermaidCli as string;
+  if (options.mermaidTheme)
+    config.diagrams.mermaid.theme = options.mermaidTheme as typeof config.diagrams.mermaid.theme;
+  if (options.plantumlJar)
+    config.diagrams.plantuml.jarPath = options.plantumlJar as string;
+  if (options.java)
+    config.diagrams.plantuml.javaPath = options.java as string;
+  if (options.dot) config.diagrams.graphviz.dotPath = options.dot as string;
+  if (options.cache === false) config.diagrams.cache.enabled = false;
+  if (options.cacheDir) config.diagrams.cache.dir = options.cacheDir as string;
+  if (options.themeDir) config.themeDir = options.themeDir as string;
+  if (options.marpCli) config.marpCliPath = options.marpCli as string;
+  if (options.timeout !== undefined) {
+    const seconds = Number(options.timeout);
+    if (isNaN(seconds) || seconds < 0) {
+      console.error(`Invalid timeout: ${String(options.timeout)}`);
+      process.exit(1);
+    }
+    config.export.timeout = seconds;
+  }
+  if (options.imageScale !== undefined) {
+    const scale = Number(options.imageScale);
+    if (isNaN(scale) || scale <= 0) {
+      console.error(`Invalid image scale: ${String(options.imageScale)}`);
+      process.exit(1);
+    }
+    config.export.imageScale = scale;
+  }
+  const commands: unknown = config.diagrams.commands ?? [];
+  if (!Array.isArray(commands)) {
+    console.error('Invalid config: diagrams.commands must be a list');
+    process.exit(1);
+  }
+  commands.forEach((command, index) => {
+    const problem = validateDiagramCommand(command);
+    if (problem) {
+      console.error(`Invalid config: diagrams.commands[${index}] ${problem}`);
+      process.exit(1);
+    }
+  });
+  config.export.format = format;
+
+  // In safe mode, disable all dangerous preprocessors
+  if (config.mode === 'safe') {
+    const skipped = applySafeModeRestrictions(config);
+
+    if (skipped.length > 0) {
+      console.warn('Safe mode: The following features are disabled:');
+      skipped.forEach((f) => console.warn(`  - ${f}`));
+      console.warn(
+        'Use --unsafe flag or set mode: "unsafe" in config for full functionality.',
+      );
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Add the options shared by exporting and serving (config and renderers)
+ */
+function addConfigOptions(command: Command): Command {
+  return command
+    .option('-c, --config <file>', 'Config file (default: marp-extended.config.json)')
+    .option(
+      '--unsafe',
+      'Enable unsafe mode (--html, --allow-local-files) for full extended features',
+    )
+    .option('--theme-dir <dir>', 'Theme directory')
+    .option('--no-mermaid', 'Disable Mermaid preprocessing')
+    .option('--no-plantuml', 'Disable PlantUML preprocessing')
+    .option('--no-graphviz', 'Disable Graphviz preprocessing')
+    .option('--no-directives', 'Disable /// directive shorthand')
+    .option('--no-containers', 'Disable ::: container plugin')
+    .option('--no-mark', 'Disable ==highlight== mark plugin')
+    .option('--mermaid-cli <path>', 'Path to mmdc (mermaid-cli)')
+    .option('--mermaid-theme <theme>', 'Mermaid theme (default, dark, forest, neutral, base)')
+    .option('--plantuml-jar <path>', 'Path to plantuml.jar')
+    .option('--java <path>', 'Path to java executable')
+    .option('--dot <path>', 'Path to Graphviz dot executable')
+    .option('--no-cache', 'Render every diagram again instead of using the disk cache')
+    .option('--cache-dir <dir>', 'Diagram cache folder (default: user cache folder)')
+    .option('--marp-cli <path>', 'Path to marp-cli (binary or marp-cli.js)')
+    .option('--timeout <seconds>', 'Stop the export after this many seconds (0 = no limit, default: 300)')
+    .option('--verbose', 'Verbose output');
+}
+
+addConfigOptions(
+  program
+    .name('marp-extended')
+    .description('Marp CLI with extended syntax support')
+    .version(VERSION)
+    // Options after `serve` belong to it, not to the export command
+    .enablePositionalOptions()
+    .argument(
+      '<input...>',
+      'Input markdown file, or folders and glob patterns to export every Marp deck in them',
+    )
+    .option(
+      '-o, --output <path>',
+      'Output file (default: input with new extension), or output folder when exporting several decks or formats',
+    )
+    .option(
+      '--format <types>',
+      `Output format, or several separated by commas: ${EXPORT_FORMATS.join(', ')} (default: html)`,
+      'html',
+    )
+    .option(
+      '--concurrency <n>',
+      `Exports running at once when exporting several decks (default: ${DEFAULT_BATCH_CONCURRENCY})`,
+    )
+    .option(
+      '--slides <ranges>',
+      'Export only these slides, e.g. 1-3,7 (a single slide gives one png/jpeg image)',
+    )
+    .option('--image-scale <factor>', 'Scale factor for png/jpeg images (default: 1)')
+    .option('--no-embed-images', 'Disable image embedding as base64')
+    .option('--no-embed-iframes', 'Disable iframe embedding as data URLs')
+    .option('--json', 'Print the export result and report as JSON')
+    .option(
+      '-w, --watch',
+      'Export again when the input, its images, the theme directory or the config file change',
+    ),
+)
   .allowUnknownOption(true) // Allow pass-through to marp-cli
-  .action(async (input: string, options: Record<string, unknown>) => {
+  .action(async (args: string[], options: Record<string, unknown>) => {
     const verbose = options.verbose as boolean;
+    const json = options.json as boolean;
+
+    const formats = String(options.format)
+      .split(',')
+      .map((format) => format.trim()) as ExportFormat[];
+    for (const format of formats) {
+      if (!EXPORT_FORMATS.includes(format)) {
+        console.error(
+          `Invalid format: ${format} (use ${EXPORT_FORMATS.join(', ')})`,
+        );
+        process.exit(1);
+      }
+    }
+
+    let concurrency = DEFAULT_BATCH_CONCURRENCY;
+    if (options.concurrency !== undefined) {
+      concurrency = Number(options.concurrency);
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        console.error(`Invalid concurrency: ${String(options.concurrency)}`);
+        process.exit(1);
+      }
+    }
 
     // Load config (file -> defaults -> CLI overrides)
-    const config = loadConfig(options.config as string | undefined);
+    let config = loadCliConfig(options, formats[0]);
 
-    // Apply CLI overrides
-    if (options.unsafe) config.mode = 'unsafe';
-    if (options.mermaid === false) config.diagrams.mermaid.enabled = false;
-    if (options.plantuml === false) config.diagrams.plantuml.enabled = false;
-    if (options.directives === false)
-      config.preprocessor.enableDirectiveShorthand = false;
-    if (options.containers === false)
-      config.preprocessor.enableContainerPlugin = false;
-    if (options.mark === false) config.preprocessor.enableMarkPlugin = false;
-    if (options.embedImages === false) config.embedding.images = false;
-    if (options.embedIframes === false) config.embedding.iframes = false;
-    if (options.mermaidCli)
-      config.diagrams.mermaid.cliPath = options.mermaidCli as string;
-    if (options.mermaidTheme)
-      config.diagrams.mermaid.theme = options.mermaidTheme as typeof config.diagrams.mermaid.theme;
-    if (options.plantumlJar)
-      config.diagrams.plantuml.jarPath = options.plantumlJar as string;
-    if (options.java)
-      config.diagrams.plantuml.javaPath = options.java as string;
-    if (options.themeDir) config.themeDir = options.themeDir as string;
-    if (options.format) config.export.format = options.format as ExportFormat;
-
-    // In safe mode, disable all dangerous preprocessors
-    if (config.mode === 'safe') {
-      const skipped = applySafeModeRestrictions(config);
-
-      if (skipped.length > 0) {
-        console.warn('Safe mode: The following features are disabled:');
-        skipped.forEach((f) => console.warn(`  - ${f}`));
-        console.warn(
-          'Use --unsafe flag or set mode: "unsafe" in config for full functionality.',
+    // Slide selection (1-indexed on the command line), checked against
+    // each deck when it's exported
+    let slides: string | undefined;
+    if (options.slides !== undefined) {
+      slides = String(options.slides);
+      if (!parseSlideRanges(slides)) {
+        console.error(
+          `Invalid slides: ${String(options.slides)} (use e.g. 1-3,7)`,
         );
+        process.exit(1);
       }
     }
 
-    // Get pass-through args (unknown options go to marp-cli)
-    const passThrough = program.args.slice(1); // Everything after input file
+    // Inputs come first; from the first option on, arguments are unknown
+    // options that go to marp-cli
+    const firstOption = args.findIndex((arg) => arg.startsWith('-'));
+    const inputs = firstOption === -1 ? args : args.slice(0, firstOption);
+    const passThrough = firstOption === -1 ? [] : args.slice(firstOption);
+    if (inputs.length === 0) {
+      console.error('Missing input file');
+      process.exit(1);
+    }
 
     if (verbose) {
       console.debug('Config:', JSON.stringify(config, null, 2));
       console.debug('Pass-through args:', passThrough);
     }
 
-    // Resolve input path
-    const inputPath = resolve(input);
-    const inputDir = dirname(inputPath);
+    // Resolve theme directory
+    const getThemeDir = () =>
+      config.themeDir ? resolve(config.themeDir) : undefined;
 
-    // Read markdown file
-    let markdown: string;
-    try {
-      markdown = await readFile(inputPath, 'utf-8');
-    } catch (err) {
-      console.error(`Error reading input file: ${input}`);
-      console.error(err instanceof Error ? err.message : err);
+    // Create diagram renderers (cached, so repeated diagrams and rebuilds
+    // in watch mode only render changed code)
+    let diagrams = createDiagramRegistry(config);
+
+    // Ctrl+C cancels the export, so marp-cli is stopped and temp files removed
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+
+    /**
+     * Export one deck in one format
+     */
+    const exportDeck = (
+      markdown: string,
+      inputPath: string,
+      format: ExportFormat,
+      outputPath: string,
+      hooks: Pick<ExportContext, 'onProgress' | 'onError'>,
+    ): Promise<ExportResult> => {
+      // Create export config from marp config
+      const exportConfig = createExportConfigFromMarpConfig(
+        { ...config, themeDir: getThemeDir(), export: { ...config.export, format } },
+        outputPath,
+      );
+      exportConfig.slides = slides;
+
+      // Add pass-through args
+      if (passThrough.length > 0) {
+        exportConfig.additionalMarpArgs = [
+          ...(exportConfig.additionalMarpArgs || []),
+          ...passThrough,
+        ];
+      }
+
+      return exportPresentation(markdown, exportConfig, {
+        ...createExportContext(config, inputPath, diagrams, controller.signal),
+        ...hooks,
+      });
+    };
+
+    // Several decks or formats: export them all and summarize
+    const inputStats =
+      inputs.length === 1 && !isGlobPattern(inputs[0])
+        ? await stat(resolve(inputs[0])).catch(() => null)
+        : null;
+    const batch = formats.length > 1 || inputs.length > 1 || !inputStats?.isFile();
+    if (batch && options.watch) {
+      console.error('--watch needs a single input file and format');
       process.exit(1);
     }
-
-    if (verbose) {
-      console.debug(`Processing: ${inputPath}`);
+    if (batch) {
+      const results = await runBatch(inputs, formats, {
+        outputDir: options.output ? resolve(options.output as string) : undefined,
+        concurrency,
+        signal: controller.signal,
+        json,
+        verbose,
+        exportDeck,
+      });
+      diagrams.destroy();
+      process.exit(getBatchExitCode(results));
     }
 
-    // Determine output path
+    // Resolve input path
+    const input = inputs[0];
+    const inputPath = resolve(input);
+    const inputDir = dirname(inputPath);
+
+    // Determine output path (per-slide images go into a folder named
+    // after it)
     const format = config.export.format;
     const outputPath =
       (options.output as string) ||
-      join(inputDir, `${basename(input, extname(input))}.${format}`);
+      join(
+        inputDir,
+        `${basename(input, extname(input))}.${getExportExtension(format)}`,
+      );
 
-    // Resolve theme directory
-    const resolvedThemeDir = config.themeDir ? resolve(config.themeDir) : undefined;
+    // Verbose mode logs each step, otherwise a progress bar is shown
+    const progressBar = createProgressBar();
+
+    /**
+     * Export the input and print the report
+     *
+     * @returns The markdown and the result, or null if the input couldn't
+     * be read
+     */
+    const exportInput = async (): Promise<{
+      markdown: string;
+      result: ExportResult;
+    } | null> => {
+      // Read markdown file
+      let markdown: string;
+      try {
+        markdown = await readFile(inputPath, 'utf-8');
+      } catch (err) {
+        console.error(`Error reading input file: ${input}`);
+        console.error(err instanceof Error ? err.message : err);
+        return null;
+      }
+
+      if (verbose) {
+        console.debug(`Processing: ${inputPath}`);
+      }
+
+      // Execute export
+      const result = await exportDeck(markdown, inputPath, format, outputPath, {
+        onProgress: verbose
+          ? (progress) => console.debug(progress.message)
+          : (progress) => progressBar.update(progress),
+        onError: (err) => {
+          progressBar.clear();
+          console.error(`Error: ${err.message}`);
+          if (err.hint) console.error(`Hint: ${err.hint}`);
+          if (verbose && err.cause) console.error(formatErrorCause(err.cause));
+        },
+      });
+      progressBar.clear();
+
+      if (json) {
+        console.log(JSON.stringify(toJsonResult(result), null, 2));
+      } else {
+        formatExportReport(result.report).forEach((line) => console.log(line));
+      }
+      if (result.success && !json) {
+        console.debug(`Exported: ${result.outputPath}`);
+      }
+      return { markdown, result };
+    };
+
+    if (!options.watch) {
+      const exported = await exportInput();
+      // Stops the PlantUML process, which would keep the CLI running
+      diagrams.destroy();
+      if (!exported) process.exit(1);
+      const { result } = exported;
+      if (!result.success) {
+        const kind = result.error?.kind ?? 'unknown';
+        console.error(kind === 'cancelled' ? 'Export cancelled' : 'Export failed');
+        process.exit(EXIT_CODES[kind]);
+      }
+      return;
+    }
+
+    // Watch mode: export again when the deck, its images and iframes, the
+    // theme directory or the config file change
+    const configFile = findConfigFile(options.config as string | undefined);
+    const watcher = new SourceWatcher((changed) => void rebuild(changed));
+    process.once('SIGINT', () => {
+      watcher.close();
+      diagrams.destroy();
+      console.log('Stopped watching');
+      process.exit(0);
+    });
+
+    let rebuilding = false;
+    let queued: string[] = [];
+
+    const rebuild = async (changed: string[]) => {
+      // Changes during a rebuild are handled once it's done
+      if (rebuilding) {
+        queued.push(...changed);
+        return;
+      }
+      rebuilding = true;
+
+      if (changed.length > 0) {
+        const names = [...new Set(changed)].map((path) => relative(process.cwd(), path));
+        console.log(`Changed: ${names.join(', ')}`);
+      }
+      if (configFile && changed.includes(resolve(configFile))) {
+        config = loadCliConfig(options, format);
+        diagrams.destroy();
+        diagrams = createDiagramRegistry(config);
+      }
+
+      const started = Date.now();
+      const exported = await exportInput();
+      const result = exported?.result;
+      const seconds = ((Date.now() - started) / 1000).toFixed(2);
+      const { cached, rendered } = diagrams.takeStats();
+      const diagramStats =
+        cached + rendered > 0
+          ? ` (diagrams: ${rendered} rendered, ${cached} cached)`
+          : '';
+      console.log(
+        `${result?.success ? 'Built' : 'Failed'} in ${seconds}s${diagramStats}`,
+      );
+
+      // Only embedding reports the images and iframes it read; otherwise
+      // they're found in the markdown
+      const embedding =
+        config.mode === 'unsafe' &&
+        config.embedding.images &&
+        config.embedding.iframes;
+      const sources = !exported
+        ? [inputPath]
+        : embedding
+          ? getExportSourcePaths(inputPath, exported.result.report)
+          : getDeckSourcePaths(inputPath, exported.markdown);
+      const themeDir = getThemeDir();
+      watcher.watch(
+        [...sources, ...(configFile ? [configFile] : [])],
+        themeDir ? [themeDir] : [],
+      );
+      console.log('Watching for changes (Ctrl+C to stop)');
+
+      rebuilding = false;
+      if (queued.length > 0) {
+        const next = queued;
+        queued = [];
+        await rebuild(next);
+      }
+    };
+
+    await rebuild([]);
+  });
+
+/** Default port of the preview server */
+const DEFAULT_SERVE_PORT = 8080;
+
+addConfigOptions(
+  program
+    .command('serve')
+    .description('Preview decks in the browser, reloading when their sources change')
+    .argument('<input>', 'Markdown file, or folder whose Marp decks are listed')
+    .option('-p, --port <n>', `Port (default: ${DEFAULT_SERVE_PORT})`)
+    .option('--host <host>', 'Interface to listen on (default: 127.0.0.1)'),
+).action(async (input: string, options: Record<string, unknown>) => {
+  const port =
+    options.port !== undefined ? Number(options.port) : DEFAULT_SERVE_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`Invalid port: ${String(options.port)}`);
+    process.exit(1);
+  }
+
+  const inputPath = resolve(input);
+  const inputStats = await stat(inputPath).catch(() => null);
+  if (!inputStats) {
+    console.error(`No such file or folder: ${input}`);
+    process.exit(1);
+  }
+  // Files next to the deck (or below the folder) are served as they are
+  const root = inputStats.isDirectory() ? inputPath : dirname(inputPath);
+  const cwd = process.cwd();
+
+  let config = loadCliConfig(options, 'html');
+  let diagrams = createDiagramRegistry(config);
+  const getThemeDir = () =>
+    config.themeDir ? resolve(config.themeDir) : undefined;
+
+  const tempDir = await mkdtemp(join(tmpdir(), 'marp-extended-serve-'));
+  const controller = new AbortController();
+  let renderCount = 0;
+
+  /**
+   * Render a deck as HTML through the export pipeline, without embedding
+   */
+  const render = async (deckPath: string): Promise<RenderedDeck> => {
+    const name = relative(cwd, deckPath);
+    const markdown = await readFile(deckPath, 'utf-8');
+    const sources = getDeckSourcePaths(deckPath, markdown);
+    const outputPath = join(tempDir, `deck-${++renderCount}.html`);
 
-    // Create export config from marp config
     const exportConfig = createExportConfigFromMarpConfig(
-      { ...config, themeDir: resolvedThemeDir },
+      { ...config, themeDir: getThemeDir(), export: { ...config.export, format: 'html' } },
       outputPath,
     );
+    // Images and iframes are served from the deck's folder instead
+    exportConfig.embedImages = false;
+    exportConfig.embedIframes = false;
 
-    // Add pass-through args
-    if (passThrough.length > 0) {
-      exportConfig.additionalMarpArgs = [
-        ...(exportConfig.additionalMarpArgs || []),
-        ...passThrough,
-      ];
-    }
-
-    // Create diagram renderers
-    const mermaidRenderer = config.diagrams.mermaid.enabled
-      ? new MermaidCliRenderer({
-          cliPath: config.diagrams.mermaid.cliPath,
-          theme: config.diagrams.mermaid.theme,
-        })
-      : undefined;
-
-    const plantumlRenderer =
-      config.diagrams.plantuml.enabled && config.diagrams.plantuml.jarPath
-        ? new PlantUMLRenderer({
-            jarPath: config.diagrams.plantuml.jarPath,
-            javaPath: config.diagrams.plantuml.javaPath,
-          })
-        : undefined;
-
-    // Create path resolver for file operations
-    // Use input directory as root for resolving relative paths
-    const pathResolver = new NodePathResolver({ rootPath: inputDir });
-
-    // Create export context
-    const exportContext: ExportContext = {
-      pathResolver,
-      fileDir: '', // Relative to inputDir (which is already the file's directory)
-      getMimeType: (path) => mimes.getType(path),
-      mermaidRenderer,
-      plantumlRenderer,
-      onProgress: verbose ? (msg) => console.debug(msg) : undefined,
-      onError: (err) => console.error(err.message),
-    };
+    const started = Date.now();
+    const result = await exportPresentation(markdown, exportConfig, {
+      ...createExportContext(config, deckPath, diagrams, controller.signal),
+      onProgress: options.verbose
+        ? (progress) => console.debug(`${name}: ${progress.message}`)
+        : undefined,
+    });
+    const seconds = ((Date.now() - started) / 1000).toFixed(2);
+
+    if (!result.success) {
+      const error = result.error;
+      console.error(`Failed to render ${name}: ${error?.message ?? 'Unknown error'}`);
+      if (error?.hint) console.error(`Hint: ${error.hint}`);
+      return {
+        html: null,
+        error: [error?.message ?? 'Unknown error', error?.hint]
+          .filter(Boolean)
+          .join('\n\n'),
+        sources,
+      };
+    }
 
-    // Execute export
-    const result = await exportPresentation(markdown, exportConfig, exportContext);
+    const html = await readFile(outputPath, 'utf-8');
+    await unlink(outputPath).catch(() => {});
+    console.log(`Rendered ${name} in ${seconds}s`);
+    for (const { type, path, line } of result.report.missingAssets) {
+      console.warn(`  Missing ${type}${line !== null ? ` (line ${line})` : ''}: ${path}`);
+    }
+    for (const { message, line } of result.report.diagramErrors) {
+      console.warn(`  Diagram error${line !== null ? ` (line ${line})` : ''}: ${message}`);
+    }
+    return { html, sources };
+  };
+
+  // Rendered decks are reloaded when their sources, the theme directory
+  // or the config file change
+  const configFile = findConfigFile(options.config as string | undefined);
+  const watcher = new SourceWatcher((changed) => {
+    const names = changed.map((path) => relative(cwd, path));
+    console.log(`Changed: ${names.join(', ')}`);
 
-    if (result.success) {
-      console.debug(`Exported: ${result.outputPath}`);
+    const themeDir = getThemeDir();
+    if (configFile && changed.includes(resolve(configFile))) {
+      config = loadCliConfig(options, 'html');
+      diagrams.destroy();
+      diagrams = createDiagramRegistry(config);
+      server.reload();
+    } else if (themeDir && changed.some((path) => path === themeDir || path.startsWith(themeDir + sep))) {
+      server.reload();
     } else {
-      console.error('Export failed');
-      process.exit(1);
+      server.reload(changed);
     }
   });
 
+  const server = new PreviewServer({
+    root,
+    render,
+    listDecks: async () =>
+      inputStats.isDirectory()
+        ? (await findMarpDecks([root], (path) => readFile(path, 'utf-8'))).map(
+            (deck) => deck.path,
+          )
+        : [inputPath],
+    getMimeType: (path) => mimes.getType(path),
+    onRendered: () => {
+      const themeDir = getThemeDir();
+      watcher.watch(
+        [...server.getSources(), ...(configFile ? [configFile] : [])],
+        themeDir ? [themeDir] : [],
+      );
+    },
+  });
+
+  let url: string;
+  try {
+    url = await server.listen(port, (options.host as string | undefined) ?? '127.0.0.1');
+  } catch (err) {
+    console.error(
+      `Couldn't start the server: ${err instanceof Error ? err.message : err}`,
+    );
+    await rm(tempDir, { recursive: true, force: true });
+    process.exit(1);
+  }
+
+  const stop = () => {
+    controller.abort();
+    watcher.close();
+    diagrams.destroy();
+    void server.close();
+    void rm(tempDir, { recursive: true, force: true }).finally(() => {
+      console.log('Stopped server');
+      process.exit(0);
+    });
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  console.log(`Serving ${relative(cwd, inputPath) || '.'} at ${url}`);
+  console.log('Press Ctrl+C to stop');
+});
+
+program
+  .command('cache')
+  .description('Manage the diagram disk cache')
+  .command('clear')
+  .description('Remove all cached diagrams')
+  .option('-c, --config <file>', 'Config file (default: marp-extended.config.json)')
+  .option('--cache-dir <dir>', 'Diagram cache folder (default: user cache folder)')
+  .action(async (options: Record<string, unknown>) => {
+    const config = loadConfig(options.config as string | undefined);
+    if (options.cacheDir) config.diagrams.cache.dir = options.cacheDir as string;
+
+    const dir = getDiagramCacheDir(config);
+    const removed = await new DiagramDiskCache(dir).clear();
+    console.log(`Removed ${removed} cached diagrams from ${dir}`);
+  });
+
 // Parse command line
 program.parse();
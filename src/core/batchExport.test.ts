@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, readFile, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  exportBatch,
+  findMarpDecks,
+  findOutputCollisions,
+  formatBatchSummary,
+  getBatchOutputPath,
+  globToRegExp,
+  isMarpDeck,
+  mapWithConcurrency,
+  splitGlobBase,
+  summarizeBatch,
+  type BatchJob,
+} from './batchExport';
+import { createExportReport } from './exportReport';
+import { createExportError } from './exportErrors';
+import type { ExportResult } from './export';
+
+const readText = (path: string) => readFile(path, 'utf-8');
+
+describe('isMarpDeck', () => {
+  it('checks the frontmatter for marp: true', () => {
+    expect(isMarpDeck('---\nmarp: true\ntheme: gaia\n---\n# Hi')).toBe(true);
+    expect(isMarpDeck('---\r\nmarp: true\r\n---\r\n')).toBe(true);
+    expect(isMarpDeck('---\nmarp: false\n---\n')).toBe(false);
+    expect(isMarpDeck('# Notes\n\nmarp: true\n')).toBe(false);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('matches within and across folders', () => {
+    expect(globToRegExp('*.md').test('talk.md')).toBe(true);
+    expect(globToRegExp('*.md').test('a/talk.md')).toBe(false);
+    expect(globToRegExp('**/*.md').test('talk.md')).toBe(true);
+    expect(globToRegExp('**/*.md').test('a/b/talk.md')).toBe(true);
+    expect(globToRegExp('training/**').test('training/a/b.md')).toBe(true);
+  });
+
+  it('supports ?, character sets and alternatives', () => {
+    const regex = globToRegExp('day-?/{intro,outro}[0-9].md');
+    expect(regex.test('day-1/intro2.md')).toBe(true);
+    expect(regex.test('day-1/outro9.md')).toBe(true);
+    expect(regex.test('day-12/intro2.md')).toBe(false);
+    expect(regex.test('day-1/introX.md')).toBe(false);
+    expect(globToRegExp('a.md').test('abmd')).toBe(false);
+  });
+});
+
+describe('splitGlobBase', () => {
+  it('splits off the folders before the first wildcard', () => {
+    expect(splitGlobBase('decks/**/*.md')).toEqual({
+      base: 'decks',
+      pattern: '**/*.md',
+    });
+    expect(splitGlobBase('*.md')).toEqual({ base: '.', pattern: '*.md' });
+    expect(splitGlobBase('/srv/decks/*.md')).toEqual({
+      base: '/srv/decks',
+      pattern: '*.md',
+    });
+  });
+});
+
+describe('findMarpDecks', () => {
+  let dir: string;
+  const deck = '---\nmarp: true\n---\n# Slide';
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marp-batch-test-'));
+    await mkdir(join(dir, 'day-1'));
+    await mkdir(join(dir, 'day-2', 'extra'), { recursive: true });
+    await mkdir(join(dir, 'node_modules', 'pkg'), { recursive: true });
+    await mkdir(join(dir, '.trash'));
+    await writeFile(join(dir, 'day-1', 'intro.md'), deck);
+    await writeFile(join(dir, 'day-1', 'notes.md'), '# Not a deck');
+    await writeFile(join(dir, 'day-2', 'extra', 'labs.md'), deck);
+    await writeFile(join(dir, 'node_modules', 'pkg', 'README.md'), deck);
+    await writeFile(join(dir, '.trash', 'old.md'), deck);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('searches folders for decks', async () => {
+    const decks = await findMarpDecks([dir], readText);
+    expect(decks).toEqual([
+      { path: join(dir, 'day-1', 'intro.md'), root: dir },
+      { path: join(dir, 'day-2', 'extra', 'labs.md'), root: dir },
+    ]);
+  });
+
+  it('matches globs below their base folder', async () => {
+    const decks = await findMarpDecks(['day-*/*.md'], readText, dir);
+    expect(decks).toEqual([
+      { path: join(dir, 'day-1', 'intro.md'), root: dir },
+    ]);
+  });
+
+  it('takes files as given and removes duplicates', async () => {
+    const notes = join(dir, 'day-1', 'notes.md');
+    const decks = await findMarpDecks([notes, join(dir, 'day-1')], readText);
+    expect(decks.map(d => d.path)).toEqual([
+      join(dir, 'day-1', 'intro.md'),
+      notes,
+    ]);
+  });
+
+  it('rejects missing inputs', async () => {
+    await expect(
+      findMarpDecks([join(dir, 'missing.md')], readText),
+    ).rejects.toThrow('No such file or folder');
+  });
+});
+
+describe('getBatchOutputPath', () => {
+  const deck = { path: '/decks/day-1/intro.md', root: '/decks' };
+
+  it('writes next to the deck by default', () => {
+    expect(getBatchOutputPath(deck, 'pdf')).toBe(
+      join('/decks/day-1/intro.pdf'),
+    );
+  });
+
+  it('keeps the folder structure in the output folder', () => {
+    expect(getBatchOutputPath(deck, 'jpeg', '/out')).toBe(
+      join('/out', 'day-1', 'intro.jpg'),
+    );
+  });
+});
+
+describe('findOutputCollisions', () => {
+  it('groups decks written to the same output file', () => {
+    const decks = [
+      { path: '/a/x.md', root: '/a' },
+      { path: '/b/x.md', root: '/b' },
+      { path: '/b/y.md', root: '/b' },
+    ];
+    const jobs: BatchJob[] = decks.map(deck => ({
+      deck,
+      format: 'pdf',
+      outputPath: getBatchOutputPath(deck, 'pdf', '/out'),
+    }));
+
+    expect(findOutputCollisions(jobs)).toEqual([[jobs[0], jobs[1]]]);
+    expect(
+      findOutputCollisions(
+        decks.map(deck => ({
+          deck,
+          format: 'pdf',
+          outputPath: getBatchOutputPath(deck, 'pdf'),
+        })),
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('limits the tasks running at once and keeps the order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapWithConcurrency([5, 1, 3, 2, 4], 2, async n => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(r => setTimeout(r, n * 2));
+      running--;
+      return n * 10;
+    });
+
+    expect(results).toEqual([50, 10, 30, 20, 40]);
+    expect(maxRunning).toBe(2);
+  });
+});
+
+describe('exportBatch', () => {
+  const jobs: BatchJob[] = ['a', 'b', 'c'].map(name => ({
+    deck: { path: `/decks/${name}.md`, root: '/decks' },
+    format: 'pdf',
+    outputPath: `/decks/${name}.pdf`,
+  }));
+
+  const succeeded = (job: BatchJob): ExportResult => ({
+    success: true,
+    outputPath: job.outputPath,
+    report: createExportReport(),
+  });
+
+  it('continues after failures and summarizes the outcome', async () => {
+    const done: string[] = [];
+    const results = await exportBatch(
+      jobs,
+      async job =>
+        job.deck.path.endsWith('b.md')
+          ? {
+              success: false,
+              outputPath: job.outputPath,
+              error: createExportError({
+                kind: 'browser-not-found',
+                message: 'No browser found',
+              }),
+              report: createExportReport(),
+            }
+          : succeeded(job),
+      { onJobDone: (d, finished, total) => done.push(`${finished}/${total}`) },
+    );
+
+    expect(done).toEqual(['1/3', '2/3', '3/3']);
+    expect(summarizeBatch(results)).toEqual({
+      succeeded: 2,
+      failed: 1,
+      skipped: 0,
+    });
+
+    const lines = formatBatchSummary(results, '/decks');
+    expect(lines[0]).toBe('Exported 2 of 3, 1 failed');
+    expect(lines[1]).toBe('Failed:');
+    expect(lines[2]).toMatch(/^ {2}b\.md \(pdf\): /);
+  });
+
+  it('skips exports not started when cancelled', async () => {
+    const controller = new AbortController();
+    const results = await exportBatch(
+      jobs,
+      async job => {
+        controller.abort();
+        return succeeded(job);
+      },
+      { concurrency: 1, signal: controller.signal },
+    );
+
+    expect(results.map(r => r.result !== null)).toEqual([true, false, false]);
+    expect(formatBatchSummary(results)[0]).toBe('Exported 1 of 3, 2 skipped');
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Batch export
+ *
+ * Finds Marp decks (`marp: true`) under folders or glob patterns and
+ * exports them in one or more formats, a few at a time. Each export starts
+ * its own marp-cli (and browser for PDF, PPTX and images), so the number of
+ * exports running at once is limited.
+ */
+
+import { readdir, stat } from 'fs/promises';
+import { basename, dirname, extname, join, relative, resolve, sep } from 'path';
+import { getExportExtension, type ExportFormat } from './config';
+import type { ExportResult } from './export';
+
+/**
+ * Deck found for a batch export
+ */
+export interface FoundDeck {
+  /** Absolute path of the markdown file */
+  path: string;
+  /** Folder the deck was found under (its output keeps the path below it) */
+  root: string;
+}
+
+/**
+ * One export of a batch: a deck in one format
+ */
+export interface BatchJob {
+  deck: FoundDeck;
+  format: ExportFormat;
+  outputPath: string;
+}
+
+/**
+ * Finished (or skipped) export of a batch
+ */
+export interface BatchJobResult {
+  job: BatchJob;
+  /** null if the batch was cancelled before the export started */
+  result: ExportResult | null;
+}
+
+export interface BatchExportOptions {
+  /** Exports running at once (default: 2) */
+  concurrency?: number;
+  /** Cancels running exports and skips the ones not started yet */
+  signal?: AbortSignal;
+  /** Called when an export finishes, in the order they finish */
+  onJobDone?: (done: BatchJobResult, finished: number, total: number) => void;
+}
+
+/** Default number of exports running at once */
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/** Folders never searched for decks */
+const SKIPPED_DIRS = new Set(['node_modules']);
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+
+const GLOB_CHARS_REGEX = /[*?[{]/;
+
+/**
+ * Check for `marp: true` in the frontmatter
+ */
+export function isMarpDeck(markdown: string): boolean {
+  const match = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---/.exec(markdown);
+  return match !== null && /^marp\s*:\s*true\s*$/m.test(match[1]);
+}
+
+/**
+ * Check whether a path is a glob pattern
+ */
+export function isGlobPattern(path: string): boolean {
+  return GLOB_CHARS_REGEX.test(path);
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching '/'-separated
+ * paths
+ *
+ * Supports `**` (any number of folders), `*`, `?`, `[abc]` and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // '**/' matches zero or more folders, a trailing '**' anything
+        if (pattern[i + 2] === '/') {
+          source += '(?:[^/]*/)*';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const set = pattern.slice(i + 1, end).replace(/^!/, '^');
+        source += `[${set.replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\\]]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Split a glob pattern into the folder to search and the pattern below it
+ *
+ * @example
+ * splitGlobBase('decks/**\/*.md') // { base: 'decks', pattern: '**\/*.md' }
+ */
+export function splitGlobBase(pattern: string): {
+  base: string;
+  pattern: string;
+} {
+  const parts = pattern.replace(/\\/g, '/').split('/');
+  const index = parts.findIndex(part => isGlobPattern(part));
+  if (index <= 0) return { base: '.', pattern: parts.join('/') };
+  return {
+    base: parts.slice(0, index).join('/') || '/',
+    pattern: parts.slice(index).join('/'),
+  };
+}
+
+/**
+ * List markdown files below a folder, skipping hidden folders and
+ * node_modules
+ */
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith('.') || SKIPPED_DIRS.has(entry.name)) continue;
+      files.push(...(await listMarkdownFiles(path)));
+    } else if (
+      entry.isFile() &&
+      MARKDOWN_EXTENSIONS.has(extname(entry.name).toLowerCase())
+    ) {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Find the decks to export
+ *
+ * Files are taken as given. Folders are searched recursively and globs
+ * matched below their base folder; of those, only files with `marp: true`
+ * are decks.
+ *
+ * @param inputs - Files, folders or glob patterns
+ * @param readText - Reads a file (to check the frontmatter)
+ * @param cwd - Folder relative inputs are resolved against
+ * @returns Decks sorted by path, without duplicates
+ * @throws If an input is neither a file, a folder nor a glob
+ */
+export async function findMarpDecks(
+  inputs: string[],
+  readText: (path: string) => Promise<string>,
+  cwd = process.cwd(),
+): Promise<FoundDeck[]> {
+  const decks = new Map<string, FoundDeck>();
+
+  const addIfDeck = async (path: string, root: string) => {
+    if (decks.has(path)) return;
+    if (isMarpDeck(await readText(path))) decks.set(path, { path, root });
+  };
+
+  for (const input of inputs) {
+    if (isGlobPattern(input)) {
+      const { base, pattern } = splitGlobBase(input);
+      const root = resolve(cwd, base);
+      const regex = globToRegExp(pattern);
+      for (const path of await listMarkdownFiles(root)) {
+        if (regex.test(relative(root, path).split(sep).join('/'))) {
+          await addIfDeck(path, root);
+        }
+      }
+      continue;
+    }
+
+    const path = resolve(cwd, input);
+    const stats = await stat(path).catch(() => null);
+    if (!stats) throw new Error(`No such file or folder: ${input}`);
+
+    if (stats.isDirectory()) {
+      for (const file of await listMarkdownFiles(path)) {
+        await addIfDeck(file, path);
+      }
+    } else if (!decks.has(path)) {
+      decks.set(path, { path, root: dirname(path) });
+    }
+  }
+
+  return [...decks.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Output path of a deck in a batch
+ *
+ * Next to the deck, or in the output folder under the deck's path below
+ * the folder it was found in.
+ */
+export function getBatchOutputPath(
+  deck: FoundDeck,
+  format: ExportFormat,
+  outputDir?: string,
+): string {
+  const fileName = `${basename(deck.path, extname(deck.path))}.${getExportExtension(format)}`;
+  if (!outputDir) return join(dirname(deck.path), fileName);
+  return join(outputDir, relative(deck.root, dirname(deck.path)), fileName);
+}
+
+/**
+ * Find the jobs of a batch that would write the same output file
+ *
+ * Decks with the same path below different searched folders end up in the
+ * same place in the output folder, e.g. `a/x.md` and `b/x.md` exported to
+ * `out` both become `out/x.pdf`.
+ *
+ * @returns Colliding jobs grouped by output path, in the order of the jobs
+ */
+export function findOutputCollisions(jobs: BatchJob[]): BatchJob[][] {
+  const byOutput = new Map<string, BatchJob[]>();
+  for (const job of jobs) {
+    const outputPath = resolve(job.outputPath);
+    byOutput.set(outputPath, [...(byOutput.get(outputPath) ?? []), job]);
+  }
+  return [...byOutput.values()].filter(group => group.length > 1);
+}
+
+/**
+ * Run tasks with at most `limit` running at once
+ *
+ * Results are in the order of the items. Items not started when the
+ * signal is aborted are left undefined.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<(R | undefined)[]> {
+  const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Export all jobs of a batch
+ *
+ * Failed exports don't stop the batch; cancelling through the signal
+ * stops the running exports and skips the rest.
+ *
+ * @param jobs - Exports to run
+ * @param run - Exports one deck (e.g. through `exportPresentation`)
+ */
+export async function exportBatch(
+  jobs: BatchJob[],
+  run: (job: BatchJob, signal?: AbortSignal) => Promise<ExportResult>,
+  options: BatchExportOptions = {},
+): Promise<BatchJobResult[]> {
+  const { signal, onJobDone } = options;
+  const concurrency = options.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+  let finished = 0;
+
+  const results = await mapWithConcurrency(
+    jobs,
+    concurrency,
+    async job => {
+      const done = { job, result: await run(job, signal) };
+      onJobDone?.(done, ++finished, jobs.length);
+      return done;
+    },
+    signal,
+  );
+
+  return results.map((done, i) => done ?? { job: jobs[i], result: null });
+}
+
+/**
+ * Count the exports of a batch by outcome
+ */
+export function summarizeBatch(results: BatchJobResult[]): {
+  succeeded: number;
+  failed: number;
+  skipped: number;
+} {
+  const summary = { succeeded: 0, failed: 0, skipped: 0 };
+  for (const { result } of results) {
+    if (!result || result.error?.kind === 'cancelled') summary.skipped++;
+    else if (result.success) summary.succeeded++;
+    else summary.failed++;
+  }
+  return summary;
+}
+
+/**
+ * Format the outcome of a batch as text lines for terminal output
+ *
+ * @param cwd - Paths are shown relative to this folder
+ */
+export function formatBatchSummary(
+  results: BatchJobResult[],
+  cwd = process.cwd(),
+): string[] {
+  const { succeeded, failed, skipped } = summarizeBatch(results);
+  const lines = [
+    `Exported ${succeeded} of ${results.length}` +
+      (failed > 0 ? `, ${failed} failed` : '') +
+      (skipped > 0 ? `, ${skipped} skipped` : ''),
+  ];
+
+  const failures = results.filter(
+    ({ result }) =>
+      result && !result.success && result.error?.kind !== 'cancelled',
+  );
+  if (failures.length > 0) {
+    lines.push('Failed:');
+    for (const { job, result } of failures) {
+      lines.push(
+        `  ${relative(cwd, job.deck.path)} (${job.format}): ${result?.error?.message ?? 'Unknown error'}`,
+      );
+      if (result?.error?.hint) lines.push(`    ${result.error.hint}`);
+    }
+  }
+
+  return lines;
+}
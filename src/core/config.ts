@@ -4,12 +4,40 @@
  */
 
 import { readFileSync, existsSync } from 'fs';
+import type { GraphvizEngine } from './diagrams/graphviz';
+import type { DiagramCommandConfig } from './diagrams/command';
 
 export type MermaidTheme = 'default' | 'dark' | 'forest' | 'neutral' | 'base';
 
 export type MathTypesetting = 'mathjax' | 'katex' | false;
 
-export type ExportFormat = 'html' | 'pdf' | 'pptx';
+export type ExportFormat = 'html' | 'pdf' | 'pptx' | 'png' | 'jpeg' | 'notes';
+
+/** All export formats, in the order they are offered */
+export const EXPORT_FORMATS: ExportFormat[] = [
+  'html',
+  'pdf',
+  'pptx',
+  'png',
+  'jpeg',
+  'notes',
+];
+
+/** Formats that render slides as images */
+export type ImageFormat = Extract<ExportFormat, 'png' | 'jpeg'>;
+
+export function isImageFormat(format: ExportFormat): format is ImageFormat {
+  return format === 'png' || format === 'jpeg';
+}
+
+/**
+ * File extension marp-cli writes for a format
+ */
+export function getExportExtension(format: ExportFormat): string {
+  if (format === 'jpeg') return 'jpg';
+  if (format === 'notes') return 'txt';
+  return format;
+}
 
 export type SecurityMode = 'safe' | 'unsafe';
 
@@ -28,12 +56,25 @@ export interface MarpExtendedConfig {
       backend: 'browser' | 'cli'; // browser = mermaid.js, cli = mmdc
       cliPath?: string; // Path to mmdc if not in PATH
       theme: MermaidTheme;
+      languages?: string[]; // Fence languages (default: mermaid)
     };
     plantuml: {
       enabled: boolean;
+      languages?: string[]; // Fence languages (default: plantuml, puml)
       jarPath?: string; // Path to plantuml.jar
       javaPath?: string; // Path to java if not in PATH
     };
+    graphviz: {
+      enabled: boolean;
+      languages?: string[]; // Fence languages (default: dot, graphviz)
+      dotPath?: string; // Path to dot if not in PATH
+      engine?: GraphvizEngine; // Default layout engine (default: dot)
+    };
+    commands?: DiagramCommandConfig[]; // Other tools, e.g. d2 (unsafe mode only)
+    cache: {
+      enabled: boolean; // Keep rendered diagrams on disk between exports
+      dir?: string; // Cache folder (default: user cache folder)
+    };
   };
 
   // Embedding options
@@ -48,6 +89,8 @@ export interface MarpExtendedConfig {
   // Export defaults
   export: {
     format: ExportFormat; // Default output format
+    timeout?: number; // Seconds, 0 = no limit (default: 300)
+    imageScale?: number; // Scale factor for png/jpeg (default: 1)
   };
 
   // Security mode (CLI only)
@@ -55,6 +98,9 @@ export interface MarpExtendedConfig {
   // 'unsafe': Full extended features enabled (--html, --allow-local-files)
   mode: SecurityMode;
 
+  // marp-cli executable or marp-cli.js (default: local installation, then PATH)
+  marpCliPath?: string;
+
   // marp-cli pass-through (additional args beyond the defaults)
   marpCliArgs?: string[];
 }
@@ -74,6 +120,12 @@ export const DEFAULT_CONFIG: MarpExtendedConfig = {
     plantuml: {
       enabled: false,
     },
+    graphviz: {
+      enabled: false,
+    },
+    cache: {
+      enabled: true,
+    },
   },
   embedding: {
     images: true, // Embed images as base64 for portable output
@@ -120,40 +172,40 @@ function deepMerge<T extends object>(target: T, source: Partial<T>): T {
 }
 
 /**
- * Load config from file, merging with defaults
+ * Find the config file: the given path, or the first default file in the
+ * working directory
+ *
+ * @returns The path, or undefined if there is no config file
  */
-export function loadConfig(configPath?: string): MarpExtendedConfig {
+export function findConfigFile(configPath?: string): string | undefined {
   const defaultPaths = [
     'marp-extended.config.json',
     '.marp-extended.json',
     'marp-extended.json',
   ];
 
-  let configFile: string | undefined;
+  const configFile = configPath ?? defaultPaths.find(path => existsSync(path));
+  return configFile && existsSync(configFile) ? configFile : undefined;
+}
 
-  if (configPath) {
-    configFile = configPath;
-  } else {
-    // Try default paths
-    for (const path of defaultPaths) {
-      if (existsSync(path)) {
-        configFile = path;
-        break;
-      }
-    }
-  }
+/**
+ * Load config from file, merging with defaults
+ */
+export function loadConfig(configPath?: string): MarpExtendedConfig {
+  const configFile = findConfigFile(configPath);
 
-  if (!configFile || !existsSync(configFile)) {
-    return { ...DEFAULT_CONFIG };
+  // Copies, so changes to the loaded config don't alter the defaults
+  if (!configFile) {
+    return structuredClone(DEFAULT_CONFIG);
   }
 
   try {
     const content = readFileSync(configFile, 'utf-8');
     const parsed = JSON.parse(content) as Partial<MarpExtendedConfig>;
-    return deepMerge(DEFAULT_CONFIG, parsed);
+    return deepMerge(structuredClone(DEFAULT_CONFIG), parsed);
   } catch (e) {
     console.warn(`Warning: Failed to load config from ${configFile}:`, e);
-    return { ...DEFAULT_CONFIG };
+    return structuredClone(DEFAULT_CONFIG);
   }
 }
 
@@ -179,6 +231,10 @@ export interface ObsidianMarpSettings {
   enableMermaid: boolean;
   mermaidTheme: MermaidTheme;
 
+  // Graphviz settings
+  enableGraphviz: boolean;
+  graphvizPath: string;
+
   // Export settings
   exportPath: string;
   chromePath: string;
@@ -206,6 +262,13 @@ export function fromObsidianSettings(
       plantuml: {
         enabled: false, // Not yet implemented in Obsidian plugin
       },
+      graphviz: {
+        enabled: settings.enableGraphviz,
+        dotPath: settings.graphvizPath || undefined,
+      },
+      cache: {
+        enabled: false, // Obsidian caches diagrams in memory
+      },
     },
     embedding: {
       images: true,
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { renderDiagrams } from './batch';
+import type { DiagramRenderer } from './types';
+
+describe('renderDiagrams', () => {
+  it('runs at most `concurrency` renders at once, in order', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const renderer: DiagramRenderer = {
+      concurrency: 2,
+      render: async code => {
+        mostRunning = Math.max(mostRunning, ++running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return `<svg>${code}</svg>`;
+      },
+    };
+
+    const rendered: number[] = [];
+    const svgs = await renderDiagrams(
+      renderer,
+      ['a', 'b', 'c', 'd', 'e'].map(code => ({ code })),
+      index => rendered.push(index),
+    );
+
+    expect(svgs).toEqual(['a', 'b', 'c', 'd', 'e'].map(c => `<svg>${c}</svg>`));
+    expect(mostRunning).toBe(2);
+    expect(rendered.sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('hands all diagrams to renderers that render batches', async () => {
+    const batches: string[][] = [];
+    const renderer: DiagramRenderer = {
+      render: async () => {
+        throw new Error('not batched');
+      },
+      renderBatch: async diagrams => {
+        batches.push(diagrams.map(({ code }) => code));
+        return diagrams.map(
+          ({ code, params }) => `<svg>${params ?? ''}${code}</svg>`,
+        );
+      },
+    };
+
+    expect(
+      await renderDiagrams(renderer, [
+        { code: 'a', params: 'w:50 ' },
+        { code: 'b' },
+      ]),
+    ).toEqual(['<svg>w:50 a</svg>', '<svg>b</svg>']);
+    expect(batches).toEqual([['a', 'b']]);
+    expect(await renderDiagrams(renderer, [])).toEqual([]);
+    expect(batches).toHaveLength(1);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Rendering the diagrams of a deck
+ *
+ * Renderers that can render many diagrams in one go (one mmdc run, one
+ * PlantUML process) get them as a batch; the others get render() calls,
+ * at most `concurrency` at once.
+ */
+
+import type { DiagramRenderer, DiagramSource } from './types';
+
+/**
+ * Error for renders stopped by their signal
+ */
+export function createRenderCancelledError(): Error {
+  return new Error('Diagram rendering cancelled');
+}
+
+/**
+ * Render diagrams with one renderer
+ *
+ * @param onRendered - Called as each diagram is done
+ * @param signal - Stops the renders; no more are started once aborted
+ * @returns The SVGs, in the order of the diagrams
+ */
+export async function renderDiagrams(
+  renderer: DiagramRenderer,
+  diagrams: DiagramSource[],
+  onRendered?: (index: number, svg: string) => void,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  if (diagrams.length === 0) return [];
+  if (renderer.renderBatch) {
+    return renderer.renderBatch(diagrams, onRendered, signal);
+  }
+
+  const results: string[] = new Array(diagrams.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < diagrams.length) {
+      if (signal?.aborted) throw createRenderCancelledError();
+      const index = next++;
+      const { code, params } = diagrams[index];
+      results[index] = await renderer.render(code, params, signal);
+      onRendered?.(index, results[index]);
+    }
+  };
+
+  const limit = renderer.concurrency ?? diagrams.length;
+  const workers = Math.max(1, Math.min(limit, diagrams.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CachingDiagramRenderer } from './cache';
+import { DiagramDiskCache } from './diskCache';
+import { createDiagramErrorSvg } from './errorSvg';
+import type { DiagramRenderer } from './types';
+
+describe('CachingDiagramRenderer', () => {
+  it('renders each diagram once and counts cache hits', async () => {
+    const rendered: string[] = [];
+    const renderer = new CachingDiagramRenderer({
+      render: async code => {
+        rendered.push(code);
+        return `<svg>${code.trim()}</svg>`;
+      },
+    });
+
+    expect(await renderer.render('graph TD\nA-->B')).toBe(
+      '<svg>graph TD\nA-->B</svg>',
+    );
+    await renderer.render('graph TD\nA-->B\n');
+    await renderer.render('graph TD\nB-->C');
+
+    expect(rendered).toHaveLength(2);
+    expect(renderer.takeStats()).toEqual({ cached: 1, rendered: 2 });
+    expect(renderer.takeStats()).toEqual({ cached: 0, rendered: 0 });
+  });
+
+  it('keeps diagrams with different fence params apart', async () => {
+    const renderer = new CachingDiagramRenderer({
+      render: async (code, params) => `<svg>${params} ${code}</svg>`,
+    });
+
+    await renderer.render('graph { a }', 'engine:neato');
+    expect(await renderer.render('graph { a }', 'engine:circo')).toBe(
+      '<svg>engine:circo graph { a }</svg>',
+    );
+    expect(renderer.takeStats()).toEqual({ cached: 0, rendered: 2 });
+  });
+
+  it('renders failed diagrams again', async () => {
+    let calls = 0;
+    const renderer = new CachingDiagramRenderer({
+      render: async () => {
+        calls++;
+        return createDiagramErrorSvg('Mermaid Error', 'mmdc not found');
+      },
+    });
+
+    await renderer.render('graph TD');
+    await renderer.render('graph TD');
+    expect(calls).toBe(2);
+  });
+
+  it('passes only the uncached diagrams of a batch on, each once', async () => {
+    const batches: string[][] = [];
+    const renderer = new CachingDiagramRenderer({
+      render: async () => {
+        throw new Error('not batched');
+      },
+      renderBatch: async diagrams => {
+        batches.push(diagrams.map(({ code }) => code));
+        return diagrams.map(({ code }) => `<svg>${code}</svg>`);
+      },
+    });
+
+    await renderer.render('a');
+    const rendered: number[] = [];
+    const svgs = await renderer.renderBatch(
+      [{ code: 'a' }, { code: 'b' }, { code: 'c' }, { code: 'b\n' }],
+      index => rendered.push(index),
+    );
+
+    expect(svgs).toEqual([
+      '<svg>a</svg>',
+      '<svg>b</svg>',
+      '<svg>c</svg>',
+      '<svg>b</svg>',
+    ]);
+    expect(batches).toEqual([['a'], ['b', 'c']]);
+    expect(rendered.sort()).toEqual([0, 1, 2, 3]);
+    expect(renderer.takeStats()).toEqual({ cached: 2, rendered: 3 });
+  });
+});
+
+describe('CachingDiagramRenderer with a disk cache', () => {
+  let dir: string;
+  let disk: DiagramDiskCache;
+  let renders: number;
+  let version: string;
+
+  const renderer: DiagramRenderer = {
+    render: async code => {
+      renders++;
+      return code === 'bad'
+        ? createDiagramErrorSvg('Mermaid Error', 'Parse error')
+        : `<svg>${version} ${code}</svg>`;
+    },
+    getCacheKey: async () => `mmdc ${version}`,
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marp-diagram-cache-test-'));
+    disk = new DiagramDiskCache(dir);
+    renders = 0;
+    version = '1.0';
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reuses diagrams rendered by an earlier export', async () => {
+    const first = new CachingDiagramRenderer(renderer, { id: 'mermaid', disk });
+    await first.render('graph TD');
+
+    const second = new CachingDiagramRenderer(renderer, {
+      id: 'mermaid',
+      disk,
+    });
+    expect(await second.render('graph TD')).toBe('<svg>1.0 graph TD</svg>');
+    expect(second.takeStats()).toEqual({ cached: 1, rendered: 0 });
+    expect(renders).toBe(1);
+  });
+
+  it('renders again after the renderer version changes', async () => {
+    await new CachingDiagramRenderer(renderer, { id: 'mermaid', disk }).render(
+      'graph TD',
+    );
+    version = '2.0';
+
+    const updated = new CachingDiagramRenderer(renderer, {
+      id: 'mermaid',
+      disk,
+    });
+    expect(await updated.render('graph TD')).toBe('<svg>2.0 graph TD</svg>');
+    expect(renders).toBe(2);
+  });
+
+  it("doesn't store failed diagrams or diagrams without a cache key", async () => {
+    await new CachingDiagramRenderer(renderer, { disk }).render('bad');
+    const keyless: DiagramRenderer = { render: renderer.render };
+    await new CachingDiagramRenderer(keyless, { disk }).render('graph TD');
+
+    expect(await disk.clear()).toBe(0);
+  });
+});
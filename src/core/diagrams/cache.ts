@@ -0,0 +1,164 @@
+/**
+ * Cache for diagram renderers
+ *
+ * Wraps a renderer so diagrams with unchanged code aren't rendered again,
+ * e.g. between rebuilds in watch mode, and with a disk cache between
+ * exports. Error placeholders aren't cached, so a fixed renderer setup
+ * (mmdc installed later) is picked up.
+ */
+
+import type { DiagramRenderer, DiagramSource } from './types';
+import { getDiagramError } from './errorSvg';
+import { renderDiagrams } from './batch';
+// Type only: the preprocessor (and so this module) is also bundled into
+// the marp-cli engine, without Node modules
+import type { DiagramDiskCache } from './diskCache';
+
+/**
+ * Diagrams served from the cache and rendered since the last reset
+ */
+export interface DiagramCacheStats {
+  cached: number;
+  rendered: number;
+}
+
+export interface CachingDiagramRendererOptions {
+  /** Also keep diagrams on disk (if the renderer has a cache key) */
+  disk?: DiagramDiskCache;
+  /** Renderer id, part of the disk cache key, e.g. 'mermaid' */
+  id?: string;
+}
+
+export class CachingDiagramRenderer implements DiagramRenderer {
+  private cache = new Map<string, string>();
+  private stats: DiagramCacheStats = { cached: 0, rendered: 0 };
+  private disk: DiagramDiskCache | null;
+  private id: string;
+  private rendererKey: Promise<string | null> | null = null;
+
+  constructor(
+    private renderer: DiagramRenderer,
+    options: CachingDiagramRendererOptions = {},
+  ) {
+    this.disk = options.disk ?? null;
+    this.id = options.id ?? '';
+  }
+
+  async render(
+    code: string,
+    params = '',
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const [svg] = await this.renderBatch([{ code, params }], undefined, signal);
+    return svg;
+  }
+
+  async renderBatch(
+    diagrams: DiagramSource[],
+    onRendered?: (index: number, svg: string) => void,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const results: string[] = new Array(diagrams.length);
+    const keys = diagrams.map(
+      ({ code, params = '' }) => `${params.trim()}\n${code.trim()}`,
+    );
+    const diskKeys = await Promise.all(
+      diagrams.map(({ code, params = '' }) => this.getDiskKey(code, params)),
+    );
+
+    // Diagrams to render, by key: a diagram used twice renders once
+    const missing = new Map<string, number[]>();
+    for (const [index, key] of keys.entries()) {
+      const pending = missing.get(key);
+      if (pending) {
+        pending.push(index);
+        continue;
+      }
+
+      const diskKey = diskKeys[index];
+      const cached =
+        this.cache.get(key) ??
+        ((diskKey && (await this.disk?.get(diskKey))) || undefined);
+      if (cached === undefined) {
+        missing.set(key, [index]);
+        continue;
+      }
+      this.cache.set(key, cached);
+      this.stats.cached++;
+      results[index] = cached;
+      onRendered?.(index, cached);
+    }
+
+    const groups = [...missing.values()];
+    const done = new Set<number>();
+    const writes: Promise<void>[] = [];
+    const store = (group: number, svg: string) => {
+      if (done.has(group)) return;
+      done.add(group);
+
+      const indexes = groups[group];
+      this.stats.rendered++;
+      this.stats.cached += indexes.length - 1;
+      if (getDiagramError(svg) === null) {
+        this.cache.set(keys[indexes[0]], svg);
+        const diskKey = diskKeys[indexes[0]];
+        if (diskKey && this.disk) writes.push(this.disk.set(diskKey, svg));
+      }
+      for (const index of indexes) {
+        results[index] = svg;
+        onRendered?.(index, svg);
+      }
+    };
+
+    const rendered = await renderDiagrams(
+      this.renderer,
+      groups.map(([first]) => diagrams[first]),
+      store,
+      signal,
+    );
+    rendered.forEach((svg, group) => store(group, svg));
+    await Promise.all(writes);
+    return results;
+  }
+
+  async initialize(): Promise<void> {
+    await this.renderer.initialize?.();
+  }
+
+  destroy(): void {
+    this.cache.clear();
+    this.renderer.destroy?.();
+  }
+
+  /**
+   * Get the counts since the last call, and start counting again
+   */
+  takeStats(): DiagramCacheStats {
+    const stats = this.stats;
+    this.stats = { cached: 0, rendered: 0 };
+    return stats;
+  }
+
+  /**
+   * Drop all diagrams cached in memory
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Disk cache key of a diagram, or null if it isn't cached on disk
+   */
+  private async getDiskKey(code: string, params: string) {
+    if (!this.disk || !this.renderer.getCacheKey) return null;
+
+    // Asked once; a failure (e.g. mmdc not installed yet) is asked again
+    this.rendererKey ??= this.renderer.getCacheKey().catch(() => {
+      this.rendererKey = null;
+      return null;
+    });
+    const rendererKey = await this.rendererKey;
+    if (rendererKey === null) return null;
+    return this.disk.getKey(this.id, rendererKey, params.trim(), code.trim());
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CommandDiagramRenderer,
+  createDiagramCommandEntry,
+  validateDiagramCommand,
+} from './command';
+import { getDiagramError } from './errorSvg';
+
+// Stands in for a diagram tool: reads a file or stdin, writes a file or
+// stdout, fails on 'error' and writes no SVG for 'text'
+const FAKE_TOOL = `
+const { readFileSync, writeFileSync } = require('fs');
+const [input, output] = process.argv.slice(2);
+const code = readFileSync(input ?? 0, 'utf-8');
+if (code === 'error') {
+  process.stderr.write('syntax error');
+  process.exit(2);
+}
+const svg = code === 'text' ? code : '<?xml version="1.0"?>\\n<svg>' + code + '</svg>';
+if (output) writeFileSync(output, svg);
+else process.stdout.write(svg);
+`;
+
+describe('validateDiagramCommand', () => {
+  it('explains invalid commands', () => {
+    expect(validateDiagramCommand({ language: 'd2', command: 'd2' })).toBe(
+      null,
+    );
+    expect(validateDiagramCommand({ command: 'd2' })).toBe('needs a language');
+    expect(
+      validateDiagramCommand({ language: 'd2', command: 'd2', input: 'pipe' }),
+    ).toBe('input must be "stdin" or "file"');
+    expect(
+      validateDiagramCommand({ language: 'd2', command: 'd2', args: 'x' }),
+    ).toBe('args must be a list of strings');
+  });
+});
+
+describe('CommandDiagramRenderer', () => {
+  let dir: string;
+  let tool: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marp-command-test-'));
+    tool = join(dir, 'tool.js');
+    await writeFile(tool, FAKE_TOOL);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('pipes the diagram through stdin and stdout', async () => {
+    const renderer = new CommandDiagramRenderer({
+      language: 'svgbob',
+      command: process.execPath,
+      args: [tool],
+    });
+    expect(await renderer.render('a -> b\n')).toBe('<svg>a -> b</svg>');
+  });
+
+  it('passes temp files, appending missing placeholders', async () => {
+    const withPlaceholders = new CommandDiagramRenderer({
+      language: 'd2',
+      command: process.execPath,
+      args: [tool, '{input}', '{output}'],
+      input: 'file',
+      output: 'file',
+    });
+    expect(await withPlaceholders.render('x -> y')).toBe('<svg>x -> y</svg>');
+
+    const appended = new CommandDiagramRenderer({
+      language: 'd2',
+      command: process.execPath,
+      args: [tool],
+      input: 'file',
+      output: 'file',
+    });
+    expect(await appended.render('x -> y')).toBe('<svg>x -> y</svg>');
+  });
+
+  it('shows failures and non-SVG output as error SVGs', async () => {
+    const { name, renderer } = createDiagramCommandEntry({
+      language: 'pikchr',
+      name: 'Pikchr',
+      command: process.execPath,
+      args: [tool],
+    });
+    expect(name).toBe('Pikchr');
+
+    expect(getDiagramError(await renderer.render('error'))).toBe(
+      'syntax error',
+    );
+    expect(getDiagramError(await renderer.render('text'))).toMatch(
+      /didn't output an SVG/,
+    );
+  });
+
+  it('fails when the command is missing', async () => {
+    const renderer = new CommandDiagramRenderer({
+      language: 'ditaa',
+      command: join(dir, 'ditaa'),
+    });
+    await expect(renderer.render('+--+')).rejects.toThrow(
+      `${join(dir, 'ditaa')} not found`,
+    );
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Diagram renderer running an external command
+ *
+ * For diagram tools without a built-in renderer (D2, Pikchr, svgbob,
+ * ditaa, ...), declared in the config file. The diagram code goes to the
+ * command on stdin or in a temp file, and the SVG comes back on stdout or
+ * in a temp file.
+ */
+
+import { spawn } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import type { DiagramRenderer } from './types';
+import type { DiagramRendererEntry } from './registry';
+import { createDiagramErrorSvg } from './errorSvg';
+import { createRenderCancelledError } from './batch';
+
+/**
+ * Diagram command from the config file
+ *
+ * @example
+ * { "language": "d2", "command": "d2", "args": ["{input}", "{output}"],
+ *   "input": "file", "output": "file" }
+ */
+export interface DiagramCommandConfig {
+  /** Fence language it renders, e.g. 'd2' */
+  language: string;
+  /** Name shown to users (default: the command's file name) */
+  name?: string;
+  /** Executable to run */
+  command: string;
+  /**
+   * Arguments; {input} and {output} are replaced by the temp file paths,
+   * which are appended if missing (default: [])
+   */
+  args?: string[];
+  /** How the diagram code is passed (default: stdin) */
+  input?: 'stdin' | 'file';
+  /** Where the SVG is read from (default: stdout) */
+  output?: 'stdout' | 'file';
+  /** Seconds before the command is stopped (default: 30, 0 = no limit) */
+  timeout?: number;
+}
+
+const DEFAULT_COMMAND_TIMEOUT = 30;
+
+/**
+ * Check a diagram command from the config file
+ *
+ * @returns Why it's invalid, or null if it's valid
+ */
+export function validateDiagramCommand(config: unknown): string | null {
+  const command = config as Partial<DiagramCommandConfig> | null;
+  if (typeof command !== 'object' || command === null) {
+    return 'must be an object';
+  }
+  if (typeof command.language !== 'string' || !command.language.trim()) {
+    return 'needs a language';
+  }
+  if (typeof command.command !== 'string' || !command.command.trim()) {
+    return 'needs a command';
+  }
+  if (
+    command.args !== undefined &&
+    (!Array.isArray(command.args) ||
+      command.args.some(arg => typeof arg !== 'string'))
+  ) {
+    return 'args must be a list of strings';
+  }
+  if (
+    command.input !== undefined &&
+    !['stdin', 'file'].includes(command.input)
+  ) {
+    return 'input must be "stdin" or "file"';
+  }
+  if (
+    command.output !== undefined &&
+    !['stdout', 'file'].includes(command.output)
+  ) {
+    return 'output must be "stdout" or "file"';
+  }
+  if (
+    command.timeout !== undefined &&
+    (typeof command.timeout !== 'number' || command.timeout < 0)
+  ) {
+    return 'timeout must be a number of seconds';
+  }
+  return null;
+}
+
+/**
+ * Renderer running a diagram command
+ */
+export class CommandDiagramRenderer implements DiagramRenderer {
+  private name: string;
+
+  constructor(private config: DiagramCommandConfig) {
+    this.name = config.name || basename(config.command);
+  }
+
+  async render(
+    code: string,
+    _params?: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const { command, input = 'stdin', output = 'stdout' } = this.config;
+    const timeout = (this.config.timeout ?? DEFAULT_COMMAND_TIMEOUT) * 1000;
+    const dir = await mkdtemp(join(tmpdir(), 'marp-diagram-'));
+    const extension = this.config.language.replace(/[^\w-]/g, '') || 'txt';
+    const inputPath = join(dir, `diagram.${extension}`);
+    const outputPath = join(dir, 'diagram.svg');
+
+    try {
+      if (input === 'file') await writeFile(inputPath, code.trim());
+
+      const args = this.getArgs(inputPath, outputPath);
+      const stdout = await new Promise<string>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        const errorChunks: Buffer[] = [];
+
+        // Aborting the signal kills the command
+        const proc = spawn(command, args, { signal });
+
+        const timer =
+          timeout > 0
+            ? setTimeout(() => {
+                proc.kill();
+                reject(new Error(`${this.name} render timeout`));
+              }, timeout)
+            : null;
+
+        proc.stdout.on('data', chunk => chunks.push(chunk));
+        proc.stderr.on('data', chunk => errorChunks.push(chunk));
+
+        proc.on('close', exitCode => {
+          if (timer) clearTimeout(timer);
+          if (exitCode !== 0) {
+            const stderr = Buffer.concat(errorChunks).toString().trim();
+            reject(
+              new Error(stderr || `${command} exited with code ${exitCode}`),
+            );
+          } else {
+            resolve(Buffer.concat(chunks).toString());
+          }
+        });
+
+        proc.on('error', error => {
+          if (timer) clearTimeout(timer);
+          reject(error);
+        });
+
+        // The command may not read stdin (or stop early on an error)
+        proc.stdin.on('error', () => {});
+        proc.stdin.end(input === 'stdin' ? code.trim() : undefined);
+      });
+
+      const svg = this.cleanSvg(
+        output === 'file' ? await readFile(outputPath, 'utf-8') : stdout,
+      );
+      if (!/<svg[\s>]/.test(svg)) {
+        throw new Error(`${command} didn't output an SVG`);
+      }
+      return svg;
+    } catch (error) {
+      if (signal?.aborted) throw createRenderCancelledError();
+
+      // A missing command fails the export; diagram errors show in the slide
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        const path = (error as NodeJS.ErrnoException).path;
+        if (path === command) throw new Error(`${command} not found`);
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(`${this.name} render error:`, errorMessage);
+      return createDiagramErrorSvg(`${this.name} Error`, errorMessage);
+    } finally {
+      await rm(dir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * The command and how it's run; its version isn't known, so clear the
+   * cache after updating the tool
+   */
+  async getCacheKey(): Promise<string> {
+    const { command, args = [], input, output } = this.config;
+    return JSON.stringify([command, args, input, output]);
+  }
+
+  /**
+   * Arguments with the temp file placeholders replaced
+   */
+  private getArgs(inputPath: string, outputPath: string): string[] {
+    const args = (this.config.args ?? []).map(arg =>
+      arg.replace(/\{input\}/g, inputPath).replace(/\{output\}/g, outputPath),
+    );
+    const joined = (this.config.args ?? []).join(' ');
+
+    if (this.config.input === 'file' && !joined.includes('{input}')) {
+      args.push(inputPath);
+    }
+    if (this.config.output === 'file' && !joined.includes('{output}')) {
+      args.push(outputPath);
+    }
+    return args;
+  }
+
+  /**
+   * Clean SVG for embedding
+   */
+  private cleanSvg(svg: string): string {
+    return (
+      svg
+        // Remove XML declaration if present
+        .replace(/<\?xml[^?]*\?>/g, '')
+        // Remove DOCTYPE if present
+        .replace(/<!DOCTYPE[^>]*>/g, '')
+        // Remove comments
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .trim()
+    );
+  }
+}
+
+/**
+ * Registry entry for a diagram command, identified by its language
+ */
+export function createDiagramCommandEntry(
+  config: DiagramCommandConfig,
+): DiagramRendererEntry {
+  const renderer = new CommandDiagramRenderer(config);
+  return {
+    id: config.language,
+    name: config.name || basename(config.command),
+    languages: [config.language],
+    renderer,
+  };
+}
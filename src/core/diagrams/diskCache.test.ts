@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DiagramDiskCache } from './diskCache';
+
+describe('DiagramDiskCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marp-disk-cache-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keys diagrams by everything they depend on', () => {
+    const cache = new DiagramDiskCache(dir);
+    const key = cache.getKey('mermaid', 'mmdc 11', '', 'graph TD');
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(cache.getKey('mermaid', 'mmdc 11', '', 'graph TD')).toBe(key);
+    expect(cache.getKey('mermaid', 'mmdc 12', '', 'graph TD')).not.toBe(key);
+  });
+
+  it('stores SVGs until cleared', async () => {
+    const cache = new DiagramDiskCache(join(dir, 'diagrams'));
+    const key = cache.getKey('graphviz', 'dot 9', '', 'graph {}');
+
+    expect(await cache.get(key)).toBeNull();
+    await cache.set(key, '<svg/>');
+    expect(await cache.get(key)).toBe('<svg/>');
+
+    expect(await cache.clear()).toBe(1);
+    expect(await cache.get(key)).toBeNull();
+    expect(await readdir(join(dir, 'diagrams'))).toEqual([]);
+  });
+
+  it('clears a missing folder', async () => {
+    expect(await new DiagramDiskCache(join(dir, 'missing')).clear()).toBe(0);
+  });
+});
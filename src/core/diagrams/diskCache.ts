@@ -0,0 +1,116 @@
+/**
+ * Persistent on-disk cache for rendered diagrams
+ *
+ * SVGs are stored by a hash of everything that affects them: the
+ * renderer id, the renderer's version and options (its cache key), the
+ * fence params and the diagram code. So a deck exported again only runs
+ * mmdc, java or dot for the diagrams that changed, and a renderer update
+ * or theme change renders everything again.
+ */
+
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+
+/**
+ * Default cache folder: the platform's user cache folder
+ */
+export function getDefaultDiagramCacheDir(): string {
+  const cacheRoot =
+    process.platform === 'win32' && process.env.LOCALAPPDATA
+      ? process.env.LOCALAPPDATA
+      : process.platform === 'darwin'
+        ? join(homedir(), 'Library', 'Caches')
+        : process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(cacheRoot, 'marp-extended', 'diagrams');
+}
+
+/**
+ * Get the version a tool prints, e.g. for a renderer's cache key
+ *
+ * @param command - Executable
+ * @param args - Arguments that print the version, e.g. ['--version']
+ * @returns The output (stdout and stderr), trimmed
+ */
+export function getToolVersion(
+  command: string,
+  args: string[],
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: 30000 }, (error, stdout, stderr) => {
+      if (error) reject(error);
+      else resolve(`${stdout}${stderr}`.trim());
+    });
+  });
+}
+
+/**
+ * Diagram SVGs on disk, by content hash
+ */
+export class DiagramDiskCache {
+  constructor(readonly dir: string) {}
+
+  /**
+   * Key for a diagram
+   *
+   * @param parts - Everything the SVG depends on (renderer id, cache key,
+   *   params, code)
+   */
+  getKey(...parts: string[]): string {
+    return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  }
+
+  /**
+   * Get a cached SVG
+   *
+   * @returns The SVG, or null if it isn't cached (or can't be read)
+   */
+  async get(key: string): Promise<string | null> {
+    try {
+      return await readFile(this.getPath(key), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store an SVG; failing to write only means it's rendered again
+   */
+  async set(key: string, svg: string): Promise<void> {
+    const path = this.getPath(key);
+    // Write to a temp file first, so parallel exports never read half an SVG
+    const tempPath = `${path}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    try {
+      await mkdir(join(this.dir, key.slice(0, 2)), { recursive: true });
+      await writeFile(tempPath, svg);
+      await rename(tempPath, path);
+    } catch {
+      await rm(tempPath, { force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Remove all cached SVGs
+   *
+   * @returns Number of SVGs removed
+   */
+  async clear(): Promise<number> {
+    let removed = 0;
+    const dirs = await readdir(this.dir).catch(() => [] as string[]);
+    for (const dir of dirs) {
+      if (!/^[0-9a-f]{2}$/.test(dir)) continue;
+      const files = await readdir(join(this.dir, dir)).catch(
+        () => [] as string[],
+      );
+      removed += files.filter(file => file.endsWith('.svg')).length;
+      await rm(join(this.dir, dir), { recursive: true, force: true });
+    }
+    return removed;
+  }
+
+  private getPath(key: string): string {
+    return join(this.dir, key.slice(0, 2), `${key}.svg`);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Error placeholder for diagrams that fail to render
+ *
+ * Renderers show invalid diagrams as an error box in the slide instead of
+ * failing the export. The message is kept in a data attribute so the
+ * export pipeline can report the failure.
+ */
+
+/** Attribute on the root <svg> holding the error message */
+const ERROR_ATTR = 'data-diagram-error';
+
+const ERROR_ATTR_REGEX = new RegExp(`^\\s*<svg[^>]*\\s${ERROR_ATTR}="([^"]*)"`);
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Create an error SVG placeholder
+ *
+ * @param title - Heading, e.g. 'Mermaid Error'
+ * @param message - Renderer error message
+ */
+export function createDiagramErrorSvg(title: string, message: string): string {
+  const escapedMessage = escapeXml(message);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 100" ${ERROR_ATTR}="${escapedMessage}">
+    <rect width="400" height="100" fill="#fee" stroke="#c00" stroke-width="2" rx="4"/>
+    <text x="10" y="25" fill="#c00" font-family="monospace" font-size="14" font-weight="bold">${escapeXml(title)}</text>
+    <text x="10" y="50" fill="#600" font-family="monospace" font-size="11">${escapedMessage.substring(0, 60)}</text>
+    ${escapedMessage.length > 60 ? `<text x="10" y="70" fill="#600" font-family="monospace" font-size="11">${escapedMessage.substring(60, 120)}</text>` : ''}
+  </svg>`;
+}
+
+/**
+ * Get the error message of an error placeholder
+ *
+ * @returns The message, or null if the SVG is a rendered diagram
+ */
+export function getDiagramError(svg: string): string | null {
+  const match = ERROR_ATTR_REGEX.exec(svg);
+  return match ? unescapeXml(match[1]) : null;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, chmod, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GraphvizRenderer, parseGraphvizEngine } from './graphviz';
+import { getDiagramError } from './errorSvg';
+
+// Stands in for dot: echoes the engine and input, fails on 'error'
+const FAKE_DOT = `#!/usr/bin/env node
+let input = '';
+process.stdin.on('data', chunk => (input += chunk));
+process.stdin.on('end', () => {
+  if (input.includes('error')) {
+    process.stderr.write('Error: syntax error in line 1');
+    process.exit(1);
+  }
+  const engine = process.argv.find(arg => arg.startsWith('-K')).slice(2);
+  process.stdout.write(
+    '<?xml version="1.0"?>\\n<!-- Generated by fake dot -->\\n' +
+      '<svg data-engine="' + engine + '">' + input + '</svg>\\n',
+  );
+});
+`;
+
+describe('parseGraphvizEngine', () => {
+  it('reads engine:<name> from the fence info string', () => {
+    expect(parseGraphvizEngine('w:400 engine:neato')).toBe('neato');
+    expect(parseGraphvizEngine('engine:circo')).toBe('circo');
+    expect(parseGraphvizEngine('h:50%')).toBeNull();
+  });
+});
+
+describe('GraphvizRenderer', () => {
+  let dir: string;
+  let dotPath: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marp-graphviz-test-'));
+    dotPath = join(dir, 'dot');
+    await writeFile(dotPath, FAKE_DOT);
+    await chmod(dotPath, 0o755);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('renders with the engine picked per block', async () => {
+    const renderer = new GraphvizRenderer({ dotPath, engine: 'fdp' });
+
+    expect(await renderer.render('digraph { a -> b }\n')).toBe(
+      '<svg data-engine="fdp">digraph { a -> b }</svg>',
+    );
+    expect(await renderer.render('graph { a }', 'engine:neato w:400')).toBe(
+      '<svg data-engine="neato">graph { a }</svg>',
+    );
+  });
+
+  it('shows invalid diagrams and unknown engines as error SVGs', async () => {
+    const renderer = new GraphvizRenderer({ dotPath });
+
+    expect(getDiagramError(await renderer.render('error'))).toBe(
+      'Error: syntax error in line 1',
+    );
+    expect(
+      getDiagramError(await renderer.render('graph { a }', 'engine:magic')),
+    ).toMatch(/^Unknown layout engine: magic/);
+  });
+
+  it('fails when dot is missing', async () => {
+    const renderer = new GraphvizRenderer({ dotPath: join(dir, 'missing') });
+    await expect(renderer.render('graph { a }')).rejects.toThrow(
+      `dot not found (${join(dir, 'missing')})`,
+    );
+  });
+});
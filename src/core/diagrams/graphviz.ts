@@ -0,0 +1,147 @@
+/**
+ * Graphviz renderer using the dot command
+ *
+ * Requires: Graphviz (https://graphviz.org)
+ */
+
+import { spawn } from 'child_process';
+import type { DiagramRenderer } from './types';
+import { createDiagramErrorSvg } from './errorSvg';
+import { getToolVersion } from './diskCache';
+import { createRenderCancelledError } from './batch';
+
+/** Layout engines that can be picked per block with `engine:<name>` */
+export const GRAPHVIZ_ENGINES = [
+  'dot',
+  'neato',
+  'fdp',
+  'sfdp',
+  'circo',
+  'twopi',
+  'osage',
+  'patchwork',
+] as const;
+
+export type GraphvizEngine = (typeof GRAPHVIZ_ENGINES)[number];
+
+export interface GraphvizOptions {
+  /** Path to dot executable. Default: 'dot' (assumes in PATH) */
+  dotPath?: string;
+  /** Layout engine for blocks without `engine:`. Default: 'dot' */
+  engine?: GraphvizEngine;
+}
+
+/** Layout engine from the fence info string: ```dot engine:neato */
+const ENGINE_PARAM_REGEX = /(?:^|\s)engine:(\S+)/;
+
+/**
+ * Get the layout engine picked in a fence info string
+ *
+ * @returns The engine name as written, or null if none is picked
+ */
+export function parseGraphvizEngine(params: string): string | null {
+  const match = ENGINE_PARAM_REGEX.exec(params);
+  return match ? match[1] : null;
+}
+
+/**
+ * Graphviz renderer using dot -Tsvg
+ */
+export class GraphvizRenderer implements DiagramRenderer {
+  private dotPath: string;
+  private engine: GraphvizEngine;
+
+  constructor(options: GraphvizOptions = {}) {
+    this.dotPath = options.dotPath || 'dot';
+    this.engine = options.engine || 'dot';
+  }
+
+  async render(
+    code: string,
+    params = '',
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const engine = parseGraphvizEngine(params) ?? this.engine;
+    if (!(GRAPHVIZ_ENGINES as readonly string[]).includes(engine)) {
+      return createDiagramErrorSvg(
+        'Graphviz Error',
+        `Unknown layout engine: ${engine} (use ${GRAPHVIZ_ENGINES.join(', ')})`,
+      );
+    }
+
+    try {
+      const svg = await new Promise<string>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        const errorChunks: Buffer[] = [];
+
+        // Aborting the signal kills dot
+        const proc = spawn(this.dotPath, ['-Tsvg', `-K${engine}`], { signal });
+
+        const timer = setTimeout(() => {
+          proc.kill();
+          reject(new Error('Graphviz render timeout'));
+        }, 30000);
+
+        proc.stdout.on('data', chunk => chunks.push(chunk));
+        proc.stderr.on('data', chunk => errorChunks.push(chunk));
+
+        proc.on('close', exitCode => {
+          clearTimeout(timer);
+          if (exitCode !== 0) {
+            const stderr = Buffer.concat(errorChunks).toString().trim();
+            reject(new Error(stderr || `dot exited with code ${exitCode}`));
+          } else {
+            resolve(Buffer.concat(chunks).toString());
+          }
+        });
+
+        proc.on('error', error => {
+          clearTimeout(timer);
+          reject(error);
+        });
+
+        // dot stops reading on a syntax error
+        proc.stdin.on('error', () => {});
+        proc.stdin.end(code.trim());
+      });
+
+      return this.cleanSvg(svg);
+    } catch (error) {
+      if (signal?.aborted) throw createRenderCancelledError();
+
+      // A missing dot fails the export; diagram errors show in the slide
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`dot not found (${this.dotPath})`);
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error('Graphviz render error:', errorMessage);
+      return createDiagramErrorSvg('Graphviz Error', errorMessage);
+    }
+  }
+
+  /**
+   * dot version and default layout engine
+   */
+  async getCacheKey(): Promise<string> {
+    const version = await getToolVersion(this.dotPath, ['-V']);
+    return `${version} engine=${this.engine}`;
+  }
+
+  /**
+   * Clean SVG for embedding
+   */
+  private cleanSvg(svg: string): string {
+    return (
+      svg
+        // Remove XML declaration if present
+        .replace(/<\?xml[^?]*\?>/g, '')
+        // Remove DOCTYPE if present
+        .replace(/<!DOCTYPE[^>]*>/g, '')
+        // Remove comments
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .trim()
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { mkdtemp, writeFile, chmod, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MermaidCliRenderer } from './mermaid-cli';
+import { getDiagramError } from './errorSvg';
+
+// Stands in for mmdc: renders .mmd files, or the mermaid blocks of .md
+// files to numbered SVGs linked from the output, fails on 'error', and
+// logs each run's input type next to itself
+const FAKE_MMDC = `#!/usr/bin/env node
+const { appendFileSync, readFileSync, writeFileSync } = require('fs');
+const { basename, dirname, join } = require('path');
+const args = process.argv.slice(2);
+const input = args[args.indexOf('-i') + 1];
+const output = args[args.indexOf('-o') + 1];
+const markdownMode = input.endsWith('.md');
+appendFileSync(join(__dirname, 'runs'), markdownMode ? 'md\\n' : 'mmd\\n');
+
+const render = code => {
+  if (code.includes('error')) {
+    process.stderr.write('Parse error on line 1');
+    process.exit(1);
+  }
+  return '<?xml version="1.0"?><svg>' + code.trim() + '</svg>';
+};
+
+const text = readFileSync(input, 'utf-8');
+if (markdownMode) {
+  let count = 0;
+  const markdown = text.replace(
+    /^\\x60{3}mermaid\\n([\\s\\S]*?)\\n\\x60{3}$/gm,
+    (_, code) => {
+      const file = basename(output, '.md') + '-' + ++count + '.svg';
+      writeFileSync(join(dirname(output), file), render(code));
+      return '![diagram](./' + file + ')';
+    },
+  );
+  writeFileSync(output, markdown);
+} else {
+  writeFileSync(output, render(text));
+}
+`;
+
+describe('MermaidCliRenderer', () => {
+  let dir: string;
+  let cliPath: string;
+
+  const getRuns = async () =>
+    (await readFile(join(dir, 'runs'), 'utf-8').catch(() => ''))
+      .split('\n')
+      .filter(Boolean);
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marp-mermaid-cli-test-'));
+    cliPath = join(dir, 'mmdc');
+    await writeFile(cliPath, FAKE_MMDC);
+    await chmod(cliPath, 0o755);
+  });
+
+  beforeEach(async () => {
+    await rm(join(dir, 'runs'), { force: true });
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('renders the diagrams of a deck in one mmdc run', async () => {
+    const renderer = new MermaidCliRenderer({ cliPath });
+    const rendered: number[] = [];
+
+    expect(
+      await renderer.renderBatch(
+        [{ code: 'graph A\n' }, { code: 'graph B' }, { code: 'graph C' }],
+        index => rendered.push(index),
+      ),
+    ).toEqual([
+      '<svg>graph A</svg>',
+      '<svg>graph B</svg>',
+      '<svg>graph C</svg>',
+    ]);
+    expect(rendered).toEqual([0, 1, 2]);
+    expect(await getRuns()).toEqual(['md']);
+  });
+
+  it('renders one by one when a diagram is broken', async () => {
+    const renderer = new MermaidCliRenderer({ cliPath, concurrency: 1 });
+
+    const [first, broken, last] = await renderer.renderBatch([
+      { code: 'graph A' },
+      { code: 'graph error' },
+      { code: 'graph B' },
+    ]);
+    expect(first).toBe('<svg>graph A</svg>');
+    expect(getDiagramError(broken)).toBe('Parse error on line 1');
+    expect(last).toBe('<svg>graph B</svg>');
+    expect(await getRuns()).toEqual(['md', 'mmd', 'mmd', 'mmd']);
+  });
+
+  it('fails when mmdc is missing', async () => {
+    const renderer = new MermaidCliRenderer({
+      cliPath: join(dir, 'missing'),
+    });
+    await expect(
+      renderer.renderBatch([{ code: 'graph A' }, { code: 'graph B' }]),
+    ).rejects.toThrow(`mmdc not found (${join(dir, 'missing')})`);
+  });
+});
@@ -6,89 +6,197 @@
  */
 
 import { execFile } from 'child_process';
-import { writeFile, readFile, unlink } from 'fs/promises';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import type { DiagramRenderer } from './types';
+import type { DiagramRenderer, DiagramSource } from './types';
+import { createDiagramErrorSvg } from './errorSvg';
+import { createRenderCancelledError, renderDiagrams } from './batch';
+import { getToolVersion } from './diskCache';
 
 export interface MermaidCliOptions {
   /** Path to mmdc executable. Default: 'mmdc' (assumes in PATH) */
   cliPath?: string;
   /** Mermaid theme. Default: 'default' */
   theme?: string;
+  /**
+   * Most mmdc runs at once when diagrams are rendered one by one (each
+   * starts a browser). Default: 2
+   */
+  concurrency?: number;
 }
 
-/**
- * Create an error SVG placeholder
- */
-function createErrorSvg(message: string): string {
-  const escapedMessage = message
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
-
-  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 100">
-    <rect width="400" height="100" fill="#fee" stroke="#c00" stroke-width="2" rx="4"/>
-    <text x="10" y="25" fill="#c00" font-family="monospace" font-size="14" font-weight="bold">Mermaid Error</text>
-    <text x="10" y="50" fill="#600" font-family="monospace" font-size="11">${escapedMessage.substring(0, 60)}</text>
-    ${escapedMessage.length > 60 ? `<text x="10" y="70" fill="#600" font-family="monospace" font-size="11">${escapedMessage.substring(60, 120)}</text>` : ''}
-  </svg>`;
-}
+/** Time mmdc gets per diagram */
+const TIMEOUT_PER_DIAGRAM = 30000;
+
+/** SVG links mmdc writes in place of the diagrams in markdown mode */
+const SVG_LINK_REGEX = /!\[[^\]]*\]\(([^)\s]+\.svg)\)/g;
 
 /**
  * Mermaid renderer using mermaid-cli (mmdc)
+ *
+ * The diagrams of a deck are rendered in one mmdc run (markdown mode), so
+ * the browser starts once per deck instead of once per diagram.
  */
 export class MermaidCliRenderer implements DiagramRenderer {
+  readonly concurrency: number;
   private cliPath: string;
   private theme: string;
 
   constructor(options: MermaidCliOptions = {}) {
     this.cliPath = options.cliPath || 'mmdc';
     this.theme = options.theme || 'default';
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
   }
 
-  async render(code: string): Promise<string> {
-    const trimmedCode = code.trim();
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(7);
-    const tmpInput = join(tmpdir(), `mermaid-${timestamp}-${random}.mmd`);
-    const tmpOutput = join(tmpdir(), `mermaid-${timestamp}-${random}.svg`);
+  async render(
+    code: string,
+    _params?: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'mermaid-'));
+    const tmpInput = join(dir, 'diagram.mmd');
+    const tmpOutput = join(dir, 'diagram.svg');
 
     try {
-      await writeFile(tmpInput, trimmedCode);
-
-      await new Promise<void>((resolve, reject) => {
-        execFile(
-          this.cliPath,
-          ['-i', tmpInput, '-o', tmpOutput, '-t', this.theme, '--quiet'],
-          { timeout: 30000 }, // 30 second timeout
-          (error, _stdout, stderr) => {
-            if (error) {
-              reject(new Error(stderr || error.message));
-            } else {
-              resolve();
-            }
-          },
-        );
-      });
-
+      await writeFile(tmpInput, code.trim());
+      await this.runMmdc(tmpInput, tmpOutput, TIMEOUT_PER_DIAGRAM, signal);
       const svg = await readFile(tmpOutput, 'utf-8');
 
       // Clean up the SVG
       return this.cleanSvg(svg);
     } catch (error) {
+      if (signal?.aborted) throw createRenderCancelledError();
+
+      // A missing mmdc fails the export; diagram errors show in the slide
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`mmdc not found (${this.cliPath})`);
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       console.error('Mermaid CLI render error:', errorMessage);
-      return createErrorSvg(errorMessage);
+      return createDiagramErrorSvg('Mermaid Error', errorMessage);
     } finally {
       // Clean up temp files
-      await unlink(tmpInput).catch(() => {});
-      await unlink(tmpOutput).catch(() => {});
+      await rm(dir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Render the diagrams in one mmdc run: they're written as a markdown
+   * file, which mmdc outputs with links to an SVG per diagram. If the run
+   * fails (mmdc stops at the first broken diagram), they're rendered one
+   * by one so each gets its own result.
+   */
+  async renderBatch(
+    diagrams: DiagramSource[],
+    onRendered?: (index: number, svg: string) => void,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const svgs =
+      diagrams.length > 1 ? await this.renderMarkdown(diagrams, signal) : null;
+    if (!svgs) {
+      return renderDiagrams(
+        {
+          render: (code, params, signal) => this.render(code, params, signal),
+          concurrency: this.concurrency,
+        },
+        diagrams,
+        onRendered,
+        signal,
+      );
+    }
+
+    svgs.forEach((svg, index) => onRendered?.(index, svg));
+    return svgs;
+  }
+
+  /**
+   * mmdc version and theme
+   */
+  async getCacheKey(): Promise<string> {
+    const version = await getToolVersion(this.cliPath, ['--version']);
+    return `mmdc ${version} theme=${this.theme}`;
+  }
+
+  /**
+   * Render the diagrams as a markdown file
+   *
+   * @returns The SVGs, or null if mmdc failed or its output doesn't match
+   */
+  private async renderMarkdown(
+    diagrams: DiagramSource[],
+    signal?: AbortSignal,
+  ): Promise<string[] | null> {
+    // mmdc ends a diagram at the first ``` line
+    if (diagrams.some(({ code }) => /^\s*```/m.test(code))) return null;
+
+    const dir = await mkdtemp(join(tmpdir(), 'mermaid-'));
+    const tmpInput = join(dir, 'deck.md');
+    const tmpOutput = join(dir, 'deck.out.md');
+
+    try {
+      const markdown = diagrams
+        .map(({ code }) => `\`\`\`mermaid\n${code.trim()}\n\`\`\``)
+        .join('\n\n');
+      await writeFile(tmpInput, `${markdown}\n`);
+      await this.runMmdc(
+        tmpInput,
+        tmpOutput,
+        TIMEOUT_PER_DIAGRAM * diagrams.length,
+        signal,
+      );
+
+      const output = await readFile(tmpOutput, 'utf-8');
+      const files = [...output.matchAll(SVG_LINK_REGEX)].map(
+        ([, file]) => file,
+      );
+      if (files.length !== diagrams.length) return null;
+
+      return await Promise.all(
+        files.map(async file =>
+          this.cleanSvg(await readFile(join(dir, file), 'utf-8')),
+        ),
+      );
+    } catch (error) {
+      if (signal?.aborted) throw createRenderCancelledError();
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`mmdc not found (${this.cliPath})`);
+      }
+      return null;
+    } finally {
+      await rm(dir, { recursive: true, force: true }).catch(() => {});
     }
   }
 
+  /**
+   * Run mmdc; aborting the signal kills it (and its browser)
+   */
+  private runMmdc(
+    input: string,
+    output: string,
+    timeout: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      execFile(
+        this.cliPath,
+        ['-i', input, '-o', output, '-t', this.theme, '-e', 'svg', '--quiet'],
+        { timeout, signal },
+        (error, _stdout, stderr) => {
+          if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+            reject(error);
+          } else if (error) {
+            reject(new Error(stderr || error.message));
+          } else {
+            resolve();
+          }
+        },
+      );
+    });
+  }
+
   /**
    * Clean SVG for embedding
    */
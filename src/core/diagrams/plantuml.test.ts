@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtemp, writeFile, chmod, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PlantUMLRenderer } from './plantuml';
+import { getDiagramError } from './errorSvg';
+
+// Stands in for java -jar plantuml.jar -pipe: answers each @start/@end
+// block with an SVG and the delimiter, reports 'error' blocks like
+// -pipeNoStderr, and counts its starts next to the jar
+const FAKE_JAVA = `#!/usr/bin/env node
+const { appendFileSync } = require('fs');
+const args = process.argv.slice(2);
+const delimiter = args[args.indexOf('-pipedelimitor') + 1];
+appendFileSync(args[args.indexOf('-jar') + 1] + '.starts', 'x');
+
+let buffer = '';
+let lines = [];
+process.stdin.setEncoding('utf-8');
+process.stdin.on('data', chunk => {
+  buffer += chunk;
+  let end;
+  while ((end = buffer.indexOf('\\n')) !== -1) {
+    const line = buffer.slice(0, end);
+    buffer = buffer.slice(end + 1);
+    lines.push(line);
+    if (!line.startsWith('@end')) continue;
+
+    const body = lines.slice(1, -1).join(' ');
+    lines = [];
+    let output = '<?xml version="1.0"?><svg>' + body + '</svg>\\n';
+    if (body.includes('error')) output += 'ERROR\\n2\\nSyntax Error?\\n';
+    process.stdout.write(output + delimiter + '\\n');
+  }
+});
+`;
+
+describe('PlantUMLRenderer', () => {
+  let dir: string;
+  let javaPath: string;
+  let jarPath: string;
+  let renderer: PlantUMLRenderer;
+
+  const getStarts = async () =>
+    (await readFile(`${jarPath}.starts`, 'utf-8').catch(() => '')).length;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marp-plantuml-test-'));
+    javaPath = join(dir, 'java');
+    jarPath = join(dir, 'plantuml.jar');
+    await writeFile(javaPath, FAKE_JAVA);
+    await chmod(javaPath, 0o755);
+  });
+
+  afterEach(async () => {
+    renderer?.destroy();
+    await rm(`${jarPath}.starts`, { force: true });
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('renders all diagrams in one process, kept for the next deck', async () => {
+    renderer = new PlantUMLRenderer({ jarPath, javaPath });
+    const rendered: number[] = [];
+
+    expect(
+      await renderer.renderBatch(
+        [{ code: '@startuml\nA -> B\n@enduml' }, { code: 'B -> C\n' }],
+        index => rendered.push(index),
+      ),
+    ).toEqual(['<svg>A -> B</svg>', '<svg>B -> C</svg>']);
+    expect(await renderer.render('C -> D')).toBe('<svg>C -> D</svg>');
+    expect(rendered).toEqual([0, 1]);
+    expect(await getStarts()).toBe(1);
+
+    renderer.destroy();
+    expect(await renderer.render('D -> E')).toBe('<svg>D -> E</svg>');
+    expect(await getStarts()).toBe(2);
+  });
+
+  it('shows diagrams with errors as error SVGs', async () => {
+    renderer = new PlantUMLRenderer({ jarPath, javaPath });
+
+    const [broken, valid] = await Promise.all([
+      renderer.render('A -> error'),
+      renderer.render('A -> B'),
+    ]);
+    expect(getDiagramError(broken)).toBe('Syntax Error?');
+    expect(valid).toBe('<svg>A -> B</svg>');
+  });
+
+  it('fails when java is missing', async () => {
+    renderer = new PlantUMLRenderer({
+      jarPath,
+      javaPath: join(dir, 'missing'),
+    });
+    await expect(renderer.render('A -> B')).rejects.toThrow(
+      `java not found (${join(dir, 'missing')})`,
+    );
+  });
+});
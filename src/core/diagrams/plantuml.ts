@@ -4,8 +4,11 @@
  * Requires: Java and plantuml.jar
  */
 
-import { spawn } from 'child_process';
-import type { DiagramRenderer } from './types';
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { stat } from 'fs/promises';
+import type { DiagramRenderer, DiagramSource } from './types';
+import { createDiagramErrorSvg } from './errorSvg';
+import { createRenderCancelledError } from './batch';
 
 export interface PlantUMLOptions {
   /** Path to plantuml.jar (required) */
@@ -14,30 +17,35 @@ export interface PlantUMLOptions {
   javaPath?: string;
 }
 
-/**
- * Create an error SVG placeholder
- */
-function createErrorSvg(message: string): string {
-  const escapedMessage = message
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
-
-  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 100">
-    <rect width="400" height="100" fill="#fee" stroke="#c00" stroke-width="2" rx="4"/>
-    <text x="10" y="25" fill="#c00" font-family="monospace" font-size="14" font-weight="bold">PlantUML Error</text>
-    <text x="10" y="50" fill="#600" font-family="monospace" font-size="11">${escapedMessage.substring(0, 60)}</text>
-    ${escapedMessage.length > 60 ? `<text x="10" y="70" fill="#600" font-family="monospace" font-size="11">${escapedMessage.substring(60, 120)}</text>` : ''}
-  </svg>`;
-}
+/** Printed by PlantUML after each diagram, to split its output */
+const DELIMITER = '@@marp-extended-plantuml-end@@';
+
+/** Time PlantUML gets per diagram */
+const TIMEOUT = 60000;
+
+/** Start of a diagram, e.g. @startuml, @startmindmap */
+const START_REGEX = /^\s*@start\w+/gm;
 
 /**
  * PlantUML renderer using java -jar plantuml.jar
+ *
+ * One PlantUML process (in -pipe mode) renders the diagrams one after the
+ * other and is kept for the next deck, so the JVM starts once instead of
+ * once per diagram. It's stopped by destroy().
  */
 export class PlantUMLRenderer implements DiagramRenderer {
   private jarPath: string;
   private javaPath: string;
+  private proc: ChildProcessWithoutNullStreams | null = null;
+  /** Output after the last delimiter */
+  private output = '';
+  /** Diagram outputs nobody waits for yet */
+  private outputs: string[] = [];
+  private reader: {
+    resolve: (output: string) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor(options: PlantUMLOptions) {
     if (!options.jarPath) {
@@ -47,57 +55,208 @@ export class PlantUMLRenderer implements DiagramRenderer {
     this.javaPath = options.javaPath || 'java';
   }
 
-  async render(code: string): Promise<string> {
-    const trimmedCode = code.trim();
+  async render(
+    code: string,
+    _params?: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const [svg] = await this.renderBatch([{ code }], undefined, signal);
+    return svg;
+  }
+
+  /**
+   * Render the diagrams in the process, one after the other. Aborting the
+   * signal stops the process, which starts again for the next batch
+   */
+  renderBatch(
+    diagrams: DiagramSource[],
+    onRendered?: (index: number, svg: string) => void,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    // One batch at a time: the process answers in the order it's asked
+    const batch = this.queue.then(async () => {
+      const onAbort = () => this.stop(createRenderCancelledError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+      try {
+        const svgs: string[] = [];
+        for (const [index, { code }] of diagrams.entries()) {
+          if (signal?.aborted) throw createRenderCancelledError();
+          svgs.push(await this.renderInProcess(code, signal));
+          onRendered?.(index, svgs[index]);
+        }
+        return svgs;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    });
+    this.queue = batch.catch(() => {});
+    return batch;
+  }
+
+  destroy(): void {
+    this.stop(new Error('PlantUML was stopped'));
+  }
+
+  private async renderInProcess(
+    code: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    let source = code.trim();
+    const starts = source.match(START_REGEX)?.length ?? 0;
+    if (starts === 0) source = `@startuml\n${source}\n@enduml`;
 
     try {
-      return await new Promise<string>((resolve, reject) => {
-        const chunks: Buffer[] = [];
-        const errorChunks: Buffer[] = [];
-
-        // Use pipe mode to avoid temp files
-        const proc = spawn(this.javaPath, [
-          '-jar',
-          this.jarPath,
-          '-tsvg',
-          '-pipe',
-        ]);
-
-        proc.stdout.on('data', (chunk) => chunks.push(chunk));
-        proc.stderr.on('data', (chunk) => errorChunks.push(chunk));
-
-        proc.on('close', (code) => {
-          if (code !== 0) {
-            const stderr = Buffer.concat(errorChunks).toString();
-            reject(new Error(stderr || `PlantUML exited with code ${code}`));
-          } else {
-            const svg = Buffer.concat(chunks).toString();
-            resolve(this.cleanSvg(svg));
-          }
-        });
-
-        proc.on('error', (err) => {
-          reject(err);
-        });
-
-        // Write input to stdin
-        proc.stdin.write(trimmedCode);
-        proc.stdin.end();
-
-        // Timeout after 60 seconds
-        setTimeout(() => {
-          proc.kill();
-          reject(new Error('PlantUML render timeout'));
-        }, 60000);
-      });
+      this.start().stdin.write(`${source}\n`);
+      const output = await this.read();
+      // Only the first diagram of a block is shown
+      for (let i = 1; i < starts; i++) await this.read();
+      return this.parseOutput(output);
     } catch (error) {
+      if (signal?.aborted) throw createRenderCancelledError();
+
+      // A missing java fails the export; diagram errors show in the slide
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`java not found (${this.javaPath})`);
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       console.error('PlantUML render error:', errorMessage);
-      return createErrorSvg(errorMessage);
+      return createDiagramErrorSvg('PlantUML Error', errorMessage);
+    }
+  }
+
+  /**
+   * Get the running PlantUML process, or start one
+   */
+  private start(): ChildProcessWithoutNullStreams {
+    if (this.proc) return this.proc;
+
+    // -pipeNoStderr: diagram errors follow the image on stdout
+    const proc = spawn(this.javaPath, [
+      '-jar',
+      this.jarPath,
+      '-tsvg',
+      '-pipe',
+      '-pipedelimitor',
+      DELIMITER,
+      '-pipeNoStderr',
+    ]);
+    let stderr = '';
+
+    proc.stdout.setEncoding('utf-8');
+    proc.stdout.on('data', (chunk: string) => {
+      this.output += chunk;
+      this.splitOutput();
+    });
+    proc.stderr.on('data', chunk => (stderr += chunk));
+
+    const exit = (error: Error) => {
+      if (this.proc === proc) this.stop(error);
+    };
+    proc.on('error', exit);
+    proc.on('close', code =>
+      exit(new Error(stderr.trim() || `PlantUML exited with code ${code}`)),
+    );
+    // Writing fails if the process is gone; 'close' reports it
+    proc.stdin.on('error', () => {});
+
+    this.proc = proc;
+    return proc;
+  }
+
+  /**
+   * Stop the process, failing the diagram being rendered
+   */
+  private stop(error: Error): void {
+    const proc = this.proc;
+    const reader = this.reader;
+    this.proc = null;
+    this.reader = null;
+    this.output = '';
+    this.outputs = [];
+
+    proc?.stdin.end();
+    proc?.kill();
+    reader?.reject(error);
+  }
+
+  /**
+   * Wait for the output of the next diagram
+   */
+  private read(): Promise<string> {
+    const output = this.outputs.shift();
+    if (output !== undefined) return Promise.resolve(output);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.stop(new Error('PlantUML render timeout')),
+        TIMEOUT,
+      );
+      this.reader = {
+        resolve: output => {
+          clearTimeout(timer);
+          resolve(output);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+    });
+  }
+
+  /**
+   * Pass on the diagram outputs completed by their delimiter line
+   */
+  private splitOutput(): void {
+    let end = this.output.indexOf(DELIMITER);
+    let lineEnd = this.output.indexOf('\n', end);
+    while (end !== -1 && lineEnd !== -1) {
+      const output = this.output.slice(0, end);
+      this.output = this.output.slice(lineEnd + 1);
+
+      const reader = this.reader;
+      this.reader = null;
+      if (reader) reader.resolve(output);
+      else this.outputs.push(output);
+
+      end = this.output.indexOf(DELIMITER);
+      lineEnd = this.output.indexOf('\n', end);
     }
   }
 
+  /**
+   * Get the SVG from a diagram's output
+   *
+   * @throws With PlantUML's message if the diagram has errors (PlantUML
+   *   still draws an image for it, which shouldn't be cached)
+   */
+  private parseOutput(output: string): string {
+    const svgEnd = output.lastIndexOf('</svg>');
+    const svg = svgEnd === -1 ? '' : output.slice(0, svgEnd + '</svg>'.length);
+
+    // ERROR, the line number, then the messages
+    const error = /^\s*ERROR\r?\n[^\n]*\n([\s\S]*)$/.exec(
+      output.slice(svg.length),
+    );
+    if (error) {
+      throw new Error(error[1].trim() || 'Syntax error');
+    }
+    if (!svg) {
+      throw new Error(output.trim() || "PlantUML didn't output an SVG");
+    }
+    return this.cleanSvg(svg);
+  }
+
+  /**
+   * plantuml.jar size and modification time, which change with its version
+   */
+  async getCacheKey(): Promise<string> {
+    const { size, mtimeMs } = await stat(this.jarPath);
+    return `plantuml.jar ${size} ${mtimeMs}`;
+  }
+
   /**
    * Clean SVG for embedding
    */
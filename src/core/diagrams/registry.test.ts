@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { DiagramRegistry, MERMAID_DIAGRAM, PLANTUML_DIAGRAM } from './registry';
+import { CachingDiagramRenderer } from './cache';
+import { countDiagramFences, preprocessDiagrams } from '../preprocessor';
+
+const svgRenderer = (label: string) => ({
+  render: async (code: string) => `<svg>${label}:${code.trim()}</svg>`,
+});
+
+describe('DiagramRegistry', () => {
+  it('looks up renderers by fence language', () => {
+    const registry = new DiagramRegistry([
+      { ...MERMAID_DIAGRAM, renderer: svgRenderer('mermaid') },
+      { ...PLANTUML_DIAGRAM, renderer: svgRenderer('plantuml') },
+    ]);
+
+    expect(registry.getForLanguage('puml')?.id).toBe('plantuml');
+    expect(registry.getForLanguage('mermaid')?.id).toBe('mermaid');
+    expect(registry.getForLanguage('dot')).toBeUndefined();
+    expect(
+      registry
+        .without('mermaid')
+        .getAll()
+        .map(e => e.id),
+    ).toEqual(['plantuml']);
+  });
+
+  it('moves languages to the renderer registered last', () => {
+    const registry = new DiagramRegistry([
+      { ...PLANTUML_DIAGRAM, renderer: svgRenderer('plantuml') },
+      {
+        id: 'kroki',
+        name: 'Kroki',
+        languages: ['puml', 'dot'],
+        renderer: svgRenderer('kroki'),
+      },
+    ]);
+
+    expect(registry.getForLanguage('puml')?.id).toBe('kroki');
+    expect(registry.get('plantuml')?.languages).toEqual(['plantuml']);
+
+    registry.register({
+      id: 'graphviz',
+      name: 'Graphviz',
+      languages: ['dot', 'puml'],
+      renderer: svgRenderer('graphviz'),
+    });
+    expect(registry.get('kroki')).toBeUndefined();
+  });
+
+  it('caches renderers and sums their stats', async () => {
+    const registry = new DiagramRegistry(
+      [{ ...MERMAID_DIAGRAM, renderer: svgRenderer('mermaid') }],
+      { cache: true },
+    );
+    const entry = registry.get('mermaid');
+    expect(entry?.renderer).toBeInstanceOf(CachingDiagramRenderer);
+
+    await entry?.renderer.render('graph TD');
+    await entry?.renderer.render('graph TD');
+    expect(registry.takeStats()).toEqual({ cached: 1, rendered: 1 });
+  });
+});
+
+describe('preprocessDiagrams', () => {
+  it('renders fences of every registered language with sizing', async () => {
+    const registry = new DiagramRegistry([
+      { ...MERMAID_DIAGRAM, renderer: svgRenderer('mermaid') },
+      {
+        id: 'graphviz',
+        name: 'Graphviz',
+        languages: ['dot'],
+        renderer: svgRenderer('dot'),
+      },
+    ]);
+    const markdown = [
+      '```mermaid',
+      'graph TD',
+      '```',
+      '',
+      '~~~dot h:50%',
+      'digraph {}',
+      '~~~',
+      '',
+      '```js',
+      'code()',
+      '```',
+    ].join('\n');
+
+    expect(countDiagramFences(markdown, registry)).toBe(2);
+    const result = await preprocessDiagrams(markdown, registry);
+    expect(result).toContain('alt="Mermaid diagram">');
+    expect(result).toContain(
+      'alt="Graphviz diagram" style="height: 50%; width: auto;">',
+    );
+    expect(result).toContain('```js\ncode()\n```');
+  });
+
+  it('renders the diagrams of a deck as one batch per renderer', async () => {
+    const batches: string[][] = [];
+    const registry = new DiagramRegistry([
+      {
+        ...MERMAID_DIAGRAM,
+        renderer: {
+          render: async () => {
+            throw new Error('not batched');
+          },
+          renderBatch: async diagrams => {
+            batches.push(diagrams.map(({ code }) => code));
+            return diagrams.map(({ code }) => `<svg>${code}</svg>`);
+          },
+        },
+      },
+    ]);
+    const markdown = [
+      '```mermaid',
+      'graph A',
+      '```',
+      '',
+      '```mermaid w:300',
+      'graph B',
+      '```',
+    ].join('\n');
+
+    const result = await preprocessDiagrams(markdown, registry);
+    expect(batches).toEqual([['graph A', 'graph B']]);
+    const dataUri = (svg: string) =>
+      `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+    expect(result).toBe(
+      [
+        `<img src="${dataUri('<svg>graph A</svg>')}" alt="Mermaid diagram">`,
+        '',
+        `<img src="${dataUri('<svg>graph B</svg>')}" alt="Mermaid diagram" style="width: 300px; height: auto;">`,
+      ].join('\n'),
+    );
+  });
+});
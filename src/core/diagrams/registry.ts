@@ -0,0 +1,167 @@
+/**
+ * Diagram renderer registry
+ *
+ * Maps fence languages (```mermaid, ```puml, ...) to diagram renderers.
+ * The preprocessor renders every closed fence whose language is
+ * registered, with the same sizing (`w:400`, `h:50%`) and error handling
+ * for all of them, so a new kind of diagram only needs a renderer.
+ */
+
+import type { DiagramRenderer } from './types';
+import { CachingDiagramRenderer, type DiagramCacheStats } from './cache';
+import type { DiagramDiskCache } from './diskCache';
+
+/**
+ * Kind of diagram: how it's identified and which fences it renders
+ */
+export interface DiagramKind {
+  /** Identifies the renderer in reports and errors, e.g. 'plantuml' */
+  id: string;
+  /** Name shown to users, e.g. 'PlantUML' */
+  name: string;
+  /** Fence languages it renders (first word of the info string) */
+  languages: string[];
+}
+
+/**
+ * Renderer registered for a kind of diagram
+ */
+export interface DiagramRendererEntry extends DiagramKind {
+  renderer: DiagramRenderer;
+}
+
+export interface DiagramRegistryOptions {
+  /** Wrap registered renderers in an in-memory cache (default: false) */
+  cache?: boolean;
+  /** Also keep their diagrams in this disk cache (implies cache) */
+  diskCache?: DiagramDiskCache;
+}
+
+/** Mermaid diagrams (```mermaid) */
+export const MERMAID_DIAGRAM: DiagramKind = {
+  id: 'mermaid',
+  name: 'Mermaid',
+  languages: ['mermaid'],
+};
+
+/** PlantUML diagrams (```plantuml, ```puml) */
+export const PLANTUML_DIAGRAM: DiagramKind = {
+  id: 'plantuml',
+  name: 'PlantUML',
+  languages: ['plantuml', 'puml'],
+};
+
+/** Graphviz diagrams (```dot, ```graphviz) */
+export const GRAPHVIZ_DIAGRAM: DiagramKind = {
+  id: 'graphviz',
+  name: 'Graphviz',
+  languages: ['dot', 'graphviz'],
+};
+
+export class DiagramRegistry {
+  private entries = new Map<string, DiagramRendererEntry>();
+  private cache: boolean;
+  private diskCache: DiagramDiskCache | undefined;
+
+  constructor(
+    entries: DiagramRendererEntry[] = [],
+    options: DiagramRegistryOptions = {},
+  ) {
+    this.diskCache = options.diskCache;
+    this.cache = (options.cache ?? false) || this.diskCache !== undefined;
+    for (const entry of entries) this.register(entry);
+  }
+
+  /** Number of registered renderers */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Register a renderer
+   *
+   * Replaces the renderer with the same id. Languages already rendered by
+   * another renderer move to this one.
+   */
+  register(entry: DiagramRendererEntry): this {
+    const languages = new Set(entry.languages);
+    for (const [id, other] of this.entries) {
+      if (id === entry.id) continue;
+      const remaining = other.languages.filter(lang => !languages.has(lang));
+      if (remaining.length === 0) this.entries.delete(id);
+      else if (remaining.length < other.languages.length) {
+        this.entries.set(id, { ...other, languages: remaining });
+      }
+    }
+
+    const renderer =
+      this.cache && !(entry.renderer instanceof CachingDiagramRenderer)
+        ? new CachingDiagramRenderer(entry.renderer, {
+            id: entry.id,
+            disk: this.diskCache,
+          })
+        : entry.renderer;
+    this.entries.set(entry.id, { ...entry, renderer });
+    return this;
+  }
+
+  /**
+   * Remove a renderer
+   *
+   * @returns Whether it was registered
+   */
+  unregister(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  get(id: string): DiagramRendererEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Renderer for a fence language
+   */
+  getForLanguage(language: string): DiagramRendererEntry | undefined {
+    for (const entry of this.entries.values()) {
+      if (entry.languages.includes(language)) return entry;
+    }
+    return undefined;
+  }
+
+  /**
+   * All registered renderers, in the order they were registered
+   */
+  getAll(): DiagramRendererEntry[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Copy of the registry without some renderers (e.g. disabled ones)
+   */
+  without(...ids: string[]): DiagramRegistry {
+    return new DiagramRegistry(
+      this.getAll().filter(entry => !ids.includes(entry.id)),
+    );
+  }
+
+  /**
+   * Cache hits and renders of the cached renderers since the last call
+   */
+  takeStats(): DiagramCacheStats {
+    const stats = { cached: 0, rendered: 0 };
+    for (const { renderer } of this.entries.values()) {
+      if (!(renderer instanceof CachingDiagramRenderer)) continue;
+      const rendererStats = renderer.takeStats();
+      stats.cached += rendererStats.cached;
+      stats.rendered += rendererStats.rendered;
+    }
+    return stats;
+  }
+
+  /**
+   * Clean up all renderers
+   */
+  destroy(): void {
+    for (const { renderer } of this.entries.values()) renderer.destroy?.();
+  }
+}
@@ -1,13 +1,43 @@
 /**
  * Diagram renderer interface
  *
- * Implementations can use browser APIs (mermaid.js) or CLI tools (mmdc, plantuml.jar)
+ * Implementations can use browser APIs (mermaid.js) or CLI tools (mmdc, plantuml.jar, dot)
  */
 export interface DiagramRenderer {
   /**
    * Render diagram code to SVG string
+   *
+   * @param params - Rest of the fence info string after the language,
+   *   e.g. 'engine:neato w:400'
+   * @param signal - Cancels the render, stopping the tool it runs
    */
-  render(code: string): Promise<string>;
+  render(code: string, params?: string, signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Render all diagrams of a deck at once (e.g. in one process), in the
+   * order given. Renderers without it get render() calls instead
+   *
+   * @param onRendered - Called as each diagram is done
+   * @param signal - Cancels the batch, stopping the tool it runs
+   */
+  renderBatch?(
+    diagrams: DiagramSource[],
+    onRendered?: (index: number, svg: string) => void,
+    signal?: AbortSignal,
+  ): Promise<string[]>;
+
+  /**
+   * Most render() calls running at once when rendering a deck
+   * (default: no limit)
+   */
+  concurrency?: number;
+
+  /**
+   * Identify the renderer's version and options (e.g. 'mmdc 11.4.2
+   * theme=dark'), so the disk cache renders again after they change.
+   * Renderers without it aren't cached on disk
+   */
+  getCacheKey?(): Promise<string>;
 
   /**
    * Initialize the renderer (if needed)
@@ -19,3 +49,11 @@ export interface DiagramRenderer {
    */
   destroy?(): void;
 }
+
+/**
+ * Diagram of a deck: fence content and the rest of its info string
+ */
+export interface DiagramSource {
+  code: string;
+  params?: string;
+}
@@ -20,6 +20,16 @@ export type MimeTypeLookup = (path: string) => string | null;
  */
 export type UrlFetcher = (url: string) => Promise<ArrayBuffer>;
 
+/**
+ * Outcome of embedding one asset
+ */
+export interface EmbedOutcome {
+  type: 'image' | 'iframe';
+  path: string;
+  /** Size of the embedded file in bytes, null if it was left as a path */
+  bytes: number | null;
+}
+
 /**
  * Embedding context containing dependencies
  */
@@ -27,6 +37,18 @@ export interface EmbeddingContext {
   pathResolver: PathResolver;
   getMimeType: MimeTypeLookup;
   fetchUrl?: UrlFetcher;
+  /**
+   * Called once per unique local (or fetchable) asset; remote URLs that
+   * can't be fetched are skipped, since they still load in the output
+   */
+  onEmbed?: (outcome: EmbedOutcome) => void;
+}
+
+/**
+ * Size of the data in a base64 data URL
+ */
+function dataUrlByteSize(dataUrl: string): number {
+  return Buffer.byteLength(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
 }
 
 /**
@@ -137,6 +159,17 @@ export async function embedImages(
   // Replace paths with data URLs
   let result = content;
   for (const [src, dataUrl] of conversions) {
+    const fetchable =
+      context.fetchUrl !== undefined &&
+      (src.startsWith('http://') || src.startsWith('https://'));
+    if (dataUrl || isLocalPath(src) || fetchable) {
+      context.onEmbed?.({
+        type: 'image',
+        path: src,
+        bytes: dataUrl ? dataUrlByteSize(dataUrl) : null,
+      });
+    }
+
     if (dataUrl) {
       // Escape special regex characters in the path
       const escapedSrc = src.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -170,6 +203,7 @@ export async function embedIframes(
   if (matches.length === 0) return content;
 
   let result = content;
+  const reported = new Set<string>();
 
   for (const match of matches) {
     const [fullMatch, before, src, after] = match;
@@ -177,6 +211,15 @@ export async function embedIframes(
     if (!isLocalPath(src)) continue;
 
     const dataUrl = await htmlFileToDataUrl(src, fileDir, context);
+    if (!reported.has(src)) {
+      reported.add(src);
+      context.onEmbed?.({
+        type: 'iframe',
+        path: src,
+        bytes: dataUrl ? dataUrlByteSize(dataUrl) : null,
+      });
+    }
+
     if (dataUrl) {
       result = result.replace(
         fullMatch,
@@ -188,6 +231,53 @@ export async function embedIframes(
   return result;
 }
 
+/**
+ * Find the local images and iframes in content that don't exist
+ *
+ * For assets left as paths: the references embedding would report as
+ * missing, checked without reading the files. Each path is listed once.
+ *
+ * @param content - Markdown/HTML content
+ * @param fileDir - Directory of the markdown file
+ * @param pathResolver - Resolves the paths like embedding does
+ * @param options - Which references to check
+ * @returns The missing assets, images first, in order of appearance
+ */
+export async function findMissingAssets(
+  content: string,
+  fileDir: string,
+  pathResolver: PathResolver,
+  options: { images?: boolean; iframes?: boolean } = {},
+): Promise<Pick<EmbedOutcome, 'type' | 'path'>[]> {
+  const references: Pick<EmbedOutcome, 'type' | 'path'>[] = [
+    ...(options.images !== false
+      ? [...content.matchAll(IMG_PATH_REGEX)].map((m) => ({
+          type: 'image' as const,
+          path: m[1],
+        }))
+      : []),
+    ...(options.iframes !== false
+      ? [...content.matchAll(IFRAME_SRC_REGEX)].map((m) => ({
+          type: 'iframe' as const,
+          path: m[2],
+        }))
+      : []),
+  ];
+
+  const seen = new Set<string>();
+  const local = references.filter(({ type, path }) => {
+    const key = `${type}:${path}`;
+    if (!isLocalPath(path) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const found = await Promise.all(
+    local.map(({ path }) => pathResolver.exists(path, fileDir)),
+  );
+  return local.filter((_, i) => !found[i]);
+}
+
 /**
  * Embed all images and iframes in content
  *
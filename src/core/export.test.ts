@@ -0,0 +1,513 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DEFAULT_EXPORT_CONFIG,
+  exportPresentation,
+  getExportProgressRatio,
+  type ExportContext,
+  type ExportProgress,
+} from './export';
+import { createDiagramCommandEntry } from './diagrams/command';
+import { createDiagramErrorSvg } from './diagrams/errorSvg';
+import { DiagramRegistry } from './diagrams/registry';
+import type { MarpCliCommand } from './marpCli';
+import { NodePathResolver } from './nodePathResolver';
+
+// The engine code is generated by esbuild at build time
+vi.mock('./engine', () => ({ getEngine: () => 'module.exports = m => m;' }));
+
+// Stand-ins for marp-cli: one that succeeds, one that never finishes
+const succeedingMarpCli: MarpCliCommand = {
+  command: process.execPath,
+  args: ['-e', '', '--'],
+};
+// Writes a 10 byte output file
+const writingMarpCli: MarpCliCommand = {
+  command: process.execPath,
+  args: [
+    '-e',
+    "const a = process.argv; require('fs').writeFileSync(a[a.indexOf('-o') + 1], '0123456789');",
+    '--',
+  ],
+};
+// Copies the markdown it gets to the output
+const copyingMarpCli: MarpCliCommand = {
+  command: process.execPath,
+  args: [
+    '-e',
+    "const a = process.argv; require('fs').copyFileSync(a[a.length - 1], a[a.indexOf('-o') + 1]);",
+    '--',
+  ],
+};
+const hangingMarpCli: MarpCliCommand = {
+  command: process.execPath,
+  args: ['-e', 'setTimeout(() => {}, 60000)', '--'],
+};
+
+const config = {
+  ...DEFAULT_EXPORT_CONFIG,
+  outputPath: join(tmpdir(), 'marp-export-test.html'),
+  embedImages: false,
+  embedIframes: false,
+  enableMermaid: true,
+};
+
+function createContext(overrides: Partial<ExportContext> = {}): ExportContext {
+  return {
+    pathResolver: new NodePathResolver({ rootPath: tmpdir() }),
+    fileDir: '',
+    getMimeType: () => null,
+    mermaidRenderer: { render: async () => '<svg></svg>' },
+    marpCli: succeedingMarpCli,
+    ...overrides,
+  };
+}
+
+const deck = [
+  '---',
+  'marp: true',
+  '---',
+  '',
+  '```mermaid',
+  'graph TD',
+  '```',
+  '',
+  '---',
+  '',
+  '```mermaid',
+  'graph LR',
+  '```',
+].join('\n');
+
+describe('exportPresentation', () => {
+  it('reports stages and diagram counts in order', async () => {
+    const events: ExportProgress[] = [];
+    const result = await exportPresentation(
+      deck,
+      config,
+      createContext({ onProgress: progress => events.push(progress) }),
+    );
+
+    expect(result.success).toBe(true);
+    expect(events.map(e => e.stage)).toEqual([
+      'preprocess',
+      'diagrams',
+      'diagrams',
+      'diagrams',
+      'embed',
+      'marp',
+      'done',
+    ]);
+    expect(events[3]).toMatchObject({ current: 2, total: 2 });
+  });
+
+  it('stops marp-cli when cancelled', async () => {
+    const controller = new AbortController();
+    const onError = vi.fn();
+    const result = await exportPresentation(
+      deck,
+      config,
+      createContext({
+        marpCli: hangingMarpCli,
+        signal: controller.signal,
+        onError,
+        onProgress: progress => {
+          if (progress.stage === 'marp') controller.abort();
+        },
+      }),
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      error: { kind: 'cancelled' },
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('fails after the timeout', async () => {
+    const onError = vi.fn();
+    const result = await exportPresentation(
+      deck,
+      { ...config, timeout: 200 },
+      createContext({ marpCli: hangingMarpCli, onError }),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ kind: 'timeout', timeout: 200 });
+    expect(result.error?.message).toMatch(/timed out/);
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it('classifies a missing marp-cli', async () => {
+    const result = await exportPresentation(
+      deck,
+      config,
+      createContext({
+        marpCli: { command: join(tmpdir(), 'no-such-marp'), args: [] },
+      }),
+    );
+
+    expect(result.error?.kind).toBe('marp-cli-not-found');
+    expect(result.error?.hint).toMatch(/marp-cli/);
+  });
+
+  it('classifies a missing theme directory and unwritable output', async () => {
+    const themeResult = await exportPresentation(
+      deck,
+      { ...config, themeDir: join(tmpdir(), 'no-such-themes') },
+      createContext(),
+    );
+    expect(themeResult.error?.kind).toBe('theme-not-found');
+
+    // The output's parent is a file, so the directory can't be created
+    const outputResult = await exportPresentation(
+      deck,
+      { ...config, outputPath: join(__filename, 'deck.html') },
+      createContext(),
+    );
+    expect(outputResult.error?.kind).toBe('output-not-writable');
+  });
+
+  it('classifies a failing diagram renderer', async () => {
+    const result = await exportPresentation(
+      deck,
+      config,
+      createContext({
+        mermaidRenderer: {
+          render: () => Promise.reject(new Error('mmdc not found')),
+        },
+      }),
+    );
+
+    expect(result.error).toMatchObject({
+      kind: 'diagram-failed',
+      diagram: 'mermaid',
+    });
+  });
+
+  it('renders registered diagram kinds and names them in errors', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'marp-diagrams-test-'));
+    try {
+      const outputPath = join(dir, 'deck.html');
+      const diagrams = new DiagramRegistry([
+        {
+          id: 'graphviz',
+          name: 'Graphviz',
+          languages: ['dot'],
+          renderer: { render: async () => '<svg>dot</svg>' },
+        },
+      ]);
+      const markdown = '# Graph\n\n```dot w:300\ndigraph { a -> b }\n```\n';
+
+      const result = await exportPresentation(
+        markdown,
+        { ...config, outputPath },
+        createContext({ diagrams, marpCli: copyingMarpCli }),
+      );
+      expect(result.success).toBe(true);
+      expect(await readFile(outputPath, 'utf-8')).toContain(
+        'alt="Graphviz diagram" style="width: 300px; height: auto;"',
+      );
+
+      diagrams.register({
+        id: 'graphviz',
+        name: 'Graphviz',
+        languages: ['dot'],
+        renderer: { render: () => Promise.reject(new Error('dot not found')) },
+      });
+      const failed = await exportPresentation(
+        markdown,
+        { ...config, outputPath },
+        createContext({ diagrams, marpCli: copyingMarpCli }),
+      );
+      expect(failed.error).toMatchObject({
+        kind: 'diagram-failed',
+        diagram: 'graphviz',
+        message: 'Graphviz rendering failed: dot not found',
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('does not wait for a hung diagram renderer', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const result = await exportPresentation(
+      deck,
+      config,
+      createContext({
+        mermaidRenderer: { render: () => new Promise<string>(() => {}) },
+        signal: controller.signal,
+      }),
+    );
+
+    expect(result.error?.kind).toBe('cancelled');
+  });
+
+  it('stops diagram tools when cancelled', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'marp-cancel-test-'));
+    try {
+      // Records its pid and runs until it's killed
+      const pidPath = join(dir, 'pid');
+      const diagrams = new DiagramRegistry([
+        createDiagramCommandEntry({
+          language: 'slow',
+          command: process.execPath,
+          args: [
+            '-e',
+            "require('fs').writeFileSync(process.argv[1], String(process.pid)); setInterval(() => {}, 1000);",
+            pidPath,
+          ],
+        }),
+      ]);
+      const readPid = () => readFile(pidPath, 'utf-8').catch(() => '');
+
+      const controller = new AbortController();
+      const exporting = exportPresentation(
+        '```slow\nA\n```\n',
+        config,
+        createContext({ diagrams, signal: controller.signal }),
+      );
+      await vi.waitFor(async () => expect(await readPid()).not.toBe(''));
+      controller.abort();
+
+      expect((await exporting).error?.kind).toBe('cancelled');
+      const pid = Number(await readPid());
+      await vi.waitFor(() => expect(() => process.kill(pid, 0)).toThrow());
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('export report', () => {
+  it('lists missing and embedded assets, diagram errors and output size', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'marp-report-test-'));
+    try {
+      await writeFile(join(dir, 'logo.png'), Buffer.alloc(300));
+      const markdown = [
+        '---',
+        'marp: true',
+        '---',
+        '',
+        '![](logo.png)',
+        '![](missing.png)',
+        '<iframe src="plot.html"></iframe>',
+        '',
+        '```mermaid',
+        'graph TD',
+        '```',
+        '',
+        '```mermaid',
+        'not a diagram',
+        '```',
+      ].join('\n');
+
+      const result = await exportPresentation(
+        markdown,
+        {
+          ...config,
+          outputPath: join(dir, 'deck.html'),
+          embedImages: true,
+          embedIframes: true,
+        },
+        createContext({
+          pathResolver: new NodePathResolver({ rootPath: dir }),
+          getMimeType: path => (path.endsWith('.png') ? 'image/png' : null),
+          mermaidRenderer: {
+            render: async code =>
+              code === 'graph TD'
+                ? '<svg></svg>'
+                : createDiagramErrorSvg('Mermaid Error', 'Parse error'),
+          },
+          marpCli: writingMarpCli,
+        }),
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.report).toEqual({
+        missingAssets: [
+          { type: 'image', path: 'missing.png', line: 6 },
+          { type: 'iframe', path: 'plot.html', line: 7 },
+        ],
+        diagramErrors: [
+          { diagram: 'mermaid', message: 'Parse error', line: 13 },
+        ],
+        embeddedAssets: [{ type: 'image', path: 'logo.png', bytes: 300 }],
+        outputBytes: 10,
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('lists missing assets without embedding them', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'marp-report-test-'));
+    try {
+      await writeFile(join(dir, 'logo.png'), Buffer.alloc(300));
+      const markdown = [
+        '---',
+        'marp: true',
+        '---',
+        '',
+        '![](logo.png)',
+        '![](missing.png)',
+        '![](https://example.com/remote.png)',
+        '<iframe src="plot.html"></iframe>',
+      ].join('\n');
+
+      const result = await exportPresentation(
+        markdown,
+        { ...config, outputPath: join(dir, 'deck.html') },
+        createContext({
+          pathResolver: new NodePathResolver({ rootPath: dir }),
+          marpCli: writingMarpCli,
+        }),
+      );
+
+      expect(result.report.missingAssets).toEqual([
+        { type: 'image', path: 'missing.png', line: 6 },
+        { type: 'iframe', path: 'plot.html', line: 8 },
+      ]);
+      expect(result.report.embeddedAssets).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('gives the line of each failed diagram, even with the same code', async () => {
+    const broken = ['```mermaid', 'not a diagram', '```'];
+    const markdown = [
+      '---',
+      'marp: true',
+      '---',
+      '',
+      '/// paginate: true',
+      '',
+      ...broken,
+      '',
+      '---',
+      '',
+      '<!-- _hide: true -->',
+      ...broken,
+      '',
+      '---',
+      '',
+      ...broken,
+    ].join('\n');
+
+    const result = await exportPresentation(
+      markdown,
+      config,
+      createContext({
+        mermaidRenderer: {
+          render: async () =>
+            createDiagramErrorSvg('Mermaid Error', 'Parse error'),
+        },
+      }),
+    );
+
+    expect(result.report.diagramErrors.map(({ line }) => line)).toEqual([
+      7, 20,
+    ]);
+  });
+});
+
+describe('image export', () => {
+  it('writes per-slide images into a folder named after the deck', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'marp-images-test-'));
+    try {
+      const result = await exportPresentation(
+        deck,
+        { ...config, format: 'png', outputPath: join(dir, 'deck.png') },
+        createContext({ marpCli: writingMarpCli }),
+      );
+
+      expect(result.outputPath).toBe(join(dir, 'deck'));
+      expect(result.report.outputBytes).toBe(10);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('exports a single slide, even a hidden one', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'marp-images-test-'));
+    const outputPath = join(dir, 'slide.png');
+    try {
+      const markdown = '---\nmarp: true\n---\n\n# One\n\n---\n\n<!-- _hide: true -->\n# Two\n';
+      const result = await exportPresentation(
+        markdown,
+        { ...config, format: 'png', outputPath, slides: '2' },
+        createContext({ marpCli: copyingMarpCli }),
+      );
+
+      expect(result.outputPath).toBe(outputPath);
+      const exported = await readFile(outputPath, 'utf-8');
+      expect(exported).toContain('# Two');
+      expect(exported).not.toContain('# One');
+      expect(exported).not.toContain('_hide');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('splits slides like the preview, after /// directives', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'marp-images-test-'));
+    const outputPath = join(dir, 'slide.png');
+    try {
+      // In the raw text, the ruler would underline '/// lead' as a heading
+      const markdown = '---\nmarp: true\n---\n\n# One\n/// lead\n---\n# Two\n';
+      const result = await exportPresentation(
+        markdown,
+        { ...config, format: 'png', outputPath, slides: '2' },
+        createContext({ marpCli: copyingMarpCli }),
+      );
+
+      expect(result.error).toBeUndefined();
+      const exported = await readFile(outputPath, 'utf-8');
+      expect(exported).toContain('# Two');
+      expect(exported).not.toContain('# One');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects a slide outside the deck', async () => {
+    const result = await exportPresentation(
+      deck,
+      { ...config, format: 'jpeg', slides: '1,6' },
+      createContext(),
+    );
+
+    expect(result.error).toMatchObject({ kind: 'slide-not-found', slide: 5 });
+    expect(result.error?.message).toMatch(/Slide 6 not found/);
+
+    const huge = await exportPresentation(
+      deck,
+      { ...config, slides: '1-1000000000' },
+      createContext(),
+    );
+    expect(huge.error).toMatchObject({ kind: 'slide-not-found', slide: 2 });
+  });
+});
+
+describe('getExportProgressRatio', () => {
+  it('advances by stage and within a stage', () => {
+    expect(getExportProgressRatio({ stage: 'preprocess', message: '' })).toBe(
+      0,
+    );
+    expect(
+      getExportProgressRatio({
+        stage: 'diagrams',
+        message: '',
+        current: 2,
+        total: 4,
+      }),
+    ).toBe(0.375);
+    expect(getExportProgressRatio({ stage: 'marp', message: '' })).toBe(0.75);
+    expect(getExportProgressRatio({ stage: 'done', message: '' })).toBe(1);
+  });
+});
@@ -6,20 +6,63 @@
  * are injected via the ExportContext interface.
  */
 
-import { writeFile, unlink, mkdir } from 'fs/promises';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { constants } from 'fs';
+import { access, writeFile, unlink, mkdir, readdir, stat } from 'fs/promises';
 import { tmpdir } from 'os';
-import { join, dirname } from 'path';
-
-const execAsync = promisify(exec);
+import { basename, dirname, extname, join } from 'path';
 import { getEngine } from './engine';
-import { preprocessForRender, type WikilinkResolver } from './preprocessor';
-import { embedAssets, type EmbeddingContext } from './embedding';
-import { buildMarpCliCommandString, contentRequiresHtml } from './marpCli';
+import {
+  countDiagramFences,
+  preprocessDiagrams,
+  preprocessForRender,
+  preprocessForRenderMapped,
+  type RenderedDiagram,
+  type WikilinkResolver,
+} from './preprocessor';
+import { scanMarkdown } from './markdownScanner';
+import {
+  parseSlideRanges,
+  parseSlideSelection,
+  removeHiddenSlides,
+  selectSlides,
+} from './slideEditing';
+import { computeSlideRanges, type SlideRange } from './slides';
+import {
+  embedAssets,
+  findMissingAssets,
+  type EmbeddingContext,
+} from './embedding';
+import {
+  buildMarpCliArgs,
+  contentRequiresHtml,
+  resolveMarpCli,
+  runMarpCli,
+  MarpCliError,
+  type MarpCliCommand,
+} from './marpCli';
+import {
+  classifyMarpCliError,
+  createExportError,
+  ExportFailure,
+  type ExportError,
+} from './exportErrors';
+import {
+  createExportReport,
+  findSourceLine,
+  type ExportReport,
+} from './exportReport';
+import { getSlideImagesPath } from './exportPath';
+import { getDiagramError } from './diagrams/errorSvg';
 import type { DiagramRenderer } from './diagrams/types';
+import { renderDiagrams } from './diagrams/batch';
+import {
+  DiagramRegistry,
+  MERMAID_DIAGRAM,
+  PLANTUML_DIAGRAM,
+  type DiagramRendererEntry,
+} from './diagrams/registry';
 import type { PathResolver } from './types';
-import type { ExportFormat } from './config';
+import { isImageFormat, type ExportFormat } from './config';
 
 /**
  * Export configuration
@@ -65,6 +108,31 @@ export interface ExportConfig {
   /** Enable bespoke transitions in HTML output */
   bespokeTransition: boolean;
 
+  /**
+   * Export only these slides, e.g. `1-3,7` (1-indexed, see
+   * parseSlideSelection()). A single slide exported as png/jpeg gives one
+   * image; otherwise images are written to a folder named after the deck
+   */
+  slides?: string;
+
+  /** Scale factor for png/jpeg images (default: 1) */
+  imageScale?: number;
+
+  /** PDF: add speaker notes as annotations */
+  pdfNotes?: boolean;
+
+  /** PDF: add an outline (bookmarks) */
+  pdfOutlines?: boolean;
+
+  /** PPTX: editable text instead of slide images (experimental) */
+  pptxEditable?: boolean;
+
+  /** Chrome/Chromium executable for marp-cli (default: auto-detect) */
+  browserPath?: string;
+
+  /** Time limit in milliseconds (default: DEFAULT_EXPORT_TIMEOUT, 0 = none) */
+  timeout?: number;
+
   /** Additional marp-cli arguments */
   additionalMarpArgs?: string[];
 }
@@ -85,23 +153,61 @@ export interface ExportContext {
   /** MIME type lookup function */
   getMimeType: (path: string) => string | null;
 
-  /** Mermaid diagram renderer (optional) */
+  /** Diagram renderers by fence language (optional) */
+  diagrams?: DiagramRegistry;
+
+  /** Mermaid diagram renderer (optional, shorthand for registering it) */
   mermaidRenderer?: DiagramRenderer;
 
-  /** PlantUML diagram renderer (optional) */
+  /** PlantUML diagram renderer (optional, shorthand for registering it) */
   plantumlRenderer?: DiagramRenderer;
 
   /** Wikilink resolver - converts wikilink names to paths for embedding */
   wikilinkResolver?: WikilinkResolver;
 
-  /** Callback for progress messages (optional) */
-  onProgress?: (message: string) => void;
+  /** Callback for progress events (optional) */
+  onProgress?: (progress: ExportProgress) => void;
 
   /** Callback for errors (optional) */
-  onError?: (error: Error) => void;
+  onError?: (error: ExportError) => void;
 
   /** Temp directory override (default: os.tmpdir()) */
   tempDir?: string;
+
+  /**
+   * marp-cli executable (default: resolveMarpCli() from the working
+   * directory); null if it isn't installed
+   */
+  marpCli?: MarpCliCommand | null;
+
+  /** Cancels the export (stops marp-cli if it is running) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Stages of an export, in order
+ */
+export const EXPORT_STAGES = [
+  'preprocess',
+  'diagrams',
+  'embed',
+  'marp',
+  'done',
+] as const;
+
+export type ExportStage = (typeof EXPORT_STAGES)[number];
+
+/**
+ * Progress event of an export
+ */
+export interface ExportProgress {
+  stage: ExportStage;
+  /** Human-readable description */
+  message: string;
+  /** Items done within the stage (e.g. diagram 3 of 12) */
+  current?: number;
+  /** Items in the stage */
+  total?: number;
 }
 
 /**
@@ -110,7 +216,32 @@ export interface ExportContext {
 export interface ExportResult {
   success: boolean;
   outputPath: string;
-  error?: Error;
+  /** Classified failure; kind 'cancelled' when stopped through the signal */
+  error?: ExportError;
+  /** Missing assets, diagram errors and sizes (up to where the export stopped) */
+  report: ExportReport;
+}
+
+/**
+ * Default time limit for an export in milliseconds
+ */
+export const DEFAULT_EXPORT_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Overall completion of an export (0..1) for progress bars
+ *
+ * Stages count equally; within a stage, current/total is used.
+ */
+export function getExportProgressRatio(progress: ExportProgress): number {
+  if (progress.stage === 'done') return 1;
+
+  const stageCount = EXPORT_STAGES.length - 1;
+  const stageIndex = EXPORT_STAGES.indexOf(progress.stage);
+  const within =
+    progress.total && progress.current !== undefined
+      ? Math.min(progress.current / progress.total, 1)
+      : 0;
+  return (stageIndex + within) / stageCount;
 }
 
 /**
@@ -152,22 +283,260 @@ async function cleanup(paths: { mdPath: string; enginePath: string }): Promise<v
   ]);
 }
 
+/**
+ * Diagram renderers of an export: the registry plus the Mermaid and
+ * PlantUML shorthands, without the kinds switched off in the config
+ */
+function getExportDiagrams(
+  config: ExportConfig,
+  context: ExportContext,
+): DiagramRegistry {
+  const diagrams = new DiagramRegistry(context.diagrams?.getAll());
+  if (context.mermaidRenderer) {
+    diagrams.register({
+      ...MERMAID_DIAGRAM,
+      renderer: context.mermaidRenderer,
+    });
+  }
+  if (context.plantumlRenderer) {
+    diagrams.register({
+      ...PLANTUML_DIAGRAM,
+      renderer: context.plantumlRenderer,
+    });
+  }
+  if (!config.enableMermaid) diagrams.unregister(MERMAID_DIAGRAM.id);
+  if (!config.enablePlantUML) diagrams.unregister(PLANTUML_DIAGRAM.id);
+  return diagrams;
+}
+
+/**
+ * Classify renderer failures as diagram-failed errors
+ */
+function withFailureKind(entry: DiagramRendererEntry): DiagramRendererEntry {
+  const fail = (error: unknown) =>
+    new ExportFailure(
+      createExportError({
+        kind: 'diagram-failed',
+        diagram: entry.id,
+        message: `${entry.name} rendering failed: ${error instanceof Error ? error.message : String(error)}`,
+        cause: error,
+      }),
+    );
+
+  const renderer: DiagramRenderer = {
+    render: async (code, params, signal) => {
+      try {
+        return await entry.renderer.render(code, params, signal);
+      } catch (error) {
+        throw fail(error);
+      }
+    },
+    concurrency: entry.renderer.concurrency,
+  };
+
+  if (entry.renderer.renderBatch) {
+    renderer.renderBatch = async (diagrams, onBatchRendered, signal) => {
+      try {
+        return await renderDiagrams(
+          entry.renderer,
+          diagrams,
+          onBatchRendered,
+          signal,
+        );
+      } catch (error) {
+        throw fail(error);
+      }
+    };
+  }
+
+  return { ...entry, renderer };
+}
+
+/**
+ * Check the theme directory and prepare the output directory before
+ * doing any work
+ */
+async function checkPaths(config: ExportConfig): Promise<void> {
+  if (config.themeDir) {
+    try {
+      await access(config.themeDir);
+    } catch (error) {
+      throw new ExportFailure(
+        createExportError({
+          kind: 'theme-not-found',
+          themeDir: config.themeDir,
+          message: `Theme directory "${config.themeDir}" not found`,
+          cause: error,
+        }),
+      );
+    }
+  }
+
+  const outputDir = dirname(config.outputPath);
+  try {
+    await mkdir(outputDir, { recursive: true });
+    await access(outputDir, constants.W_OK);
+  } catch (error) {
+    throw new ExportFailure(
+      createExportError({
+        kind: 'output-not-writable',
+        outputPath: config.outputPath,
+        message: `Cannot write to "${outputDir}"`,
+        cause: error,
+      }),
+    );
+  }
+}
+
+/**
+ * Turn anything thrown by the pipeline into an ExportError
+ */
+function toExportError(error: unknown, config: ExportConfig): ExportError {
+  if (error instanceof ExportFailure) return error.error;
+  if (error instanceof MarpCliError) {
+    return classifyMarpCliError(error, {
+      outputPath: config.outputPath,
+      themeDir: config.themeDir,
+    });
+  }
+  return createExportError({
+    kind: 'unknown',
+    message: error instanceof Error ? error.message : String(error),
+    cause: error,
+  });
+}
+
+/**
+ * Slides (0-indexed) picked by a selection, checked against the deck
+ */
+function getSelectedSlides(selection: string, ranges: SlideRange[]): number[] {
+  const selected = parseSlideRanges(selection);
+  if (!selected) {
+    throw new ExportFailure(
+      createExportError({
+        kind: 'unknown',
+        message: `Invalid slides: ${selection}`,
+      }),
+    );
+  }
+
+  const slides = parseSlideSelection(selection, ranges.length);
+  if (!slides) {
+    // The first selected slide past the end of the deck
+    const missing =
+      Math.min(
+        ...selected
+          .filter(({ last }) => last > ranges.length)
+          .map(({ first }) => Math.max(first, ranges.length + 1)),
+      ) - 1;
+    throw new ExportFailure(
+      createExportError({
+        kind: 'slide-not-found',
+        slide: missing,
+        message: `Slide ${missing + 1} not found (the deck has ${ranges.length} slide${ranges.length === 1 ? '' : 's'})`,
+      }),
+    );
+  }
+  return slides;
+}
+
+/**
+ * Lines (0-indexed) of the fences of the exported slides in the source
+ *
+ * Leaving out slides and preprocessing keep these fences in order, so the
+ * n-th fence of the preprocessed markdown is on the n-th of these lines.
+ */
+function getExportedFenceLines(
+  markdown: string,
+  ranges: SlideRange[],
+  slides: number[],
+): number[] {
+  const exported = slides.map(slide => ranges[slide]);
+  return scanMarkdown(markdown)
+    .filter(
+      ({ kind, startLine }) =>
+        kind === 'fence' &&
+        exported.some(
+          range => startLine >= range.startLine && startLine < range.endLine,
+        ),
+    )
+    .map(({ startLine }) => startLine);
+}
+
+/**
+ * Whether a slide selection picks exactly one slide, e.g. `3`
+ */
+function isSingleSlide(selection: string): boolean {
+  const ranges = parseSlideRanges(selection);
+  return (
+    ranges !== null &&
+    ranges.every(
+      ({ first, last }) => first === last && first === ranges[0].first,
+    )
+  );
+}
+
+/**
+ * Size of the output in bytes; per-slide images are summed over the
+ * numbered files marp-cli wrote
+ */
+async function getOutputBytes(
+  outputPath: string,
+  slideImages: boolean,
+): Promise<number | null> {
+  try {
+    if (!slideImages) return (await stat(outputPath)).size;
+
+    const dir = dirname(outputPath);
+    const prefix = `${basename(outputPath, extname(outputPath))}.`;
+    const files = (await readdir(dir)).filter(name => name.startsWith(prefix));
+    if (files.length === 0) return null;
+
+    const sizes = await Promise.all(
+      files.map(async name => (await stat(join(dir, name))).size),
+    );
+    return sizes.reduce((sum, size) => sum + size, 0);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reject as soon as the signal aborts, even if the promise never settles
+ * (e.g. a renderer that ignores the signal)
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error('Export cancelled'));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
 /**
  * Unified export pipeline
  *
  * This is the main export function used by both CLI and Obsidian.
  *
- * Steps:
- * 1. Preprocess markdown (wikilinks, directives, diagrams)
- * 2. Embed assets (images, iframes) as base64
- * 3. Write temporary files (processed markdown, engine.js)
- * 4. Execute marp-cli
- * 5. Clean up temporary files
+ * Steps (reported as ExportProgress stages):
+ * 1. Preprocess markdown (slide selection or hidden slides, wikilinks,
+ *    directives)
+ * 2. Render diagrams (registered renderers, e.g. Mermaid and PlantUML)
+ * 3. Embed assets (images, iframes) as base64
+ * 4. Write temporary files (processed markdown, engine.js)
+ * 5. Execute marp-cli (local installation, no shell)
+ * 6. Clean up temporary files
+ *
+ * The export stops when context.signal aborts or config.timeout passes;
+ * a running marp-cli process is killed.
  *
  * @param content - Markdown content to export
  * @param config - Export configuration
  * @param context - Platform-specific context (resolvers, renderers, callbacks)
- * @returns Export result with success status and output path
+ * @returns Export result with success status, output path and report
  */
 export async function exportPresentation(
   content: string,
@@ -178,56 +547,181 @@ export async function exportPresentation(
     pathResolver,
     fileDir,
     getMimeType,
-    mermaidRenderer,
-    plantumlRenderer,
     wikilinkResolver,
     onProgress,
     onError,
     tempDir = tmpdir(),
+    marpCli = resolveMarpCli(),
   } = context;
 
+  // Per-slide images go into a folder named after the deck, which is
+  // what the result points to
+  const singleImage =
+    isImageFormat(config.format) && isSingleSlide(config.slides ?? '');
+  const slideImages = isImageFormat(config.format) && !singleImage;
+  if (slideImages) {
+    config = { ...config, outputPath: getSlideImagesPath(config.outputPath) };
+  }
+  const resultPath = slideImages
+    ? dirname(config.outputPath)
+    : config.outputPath;
+
   const tempPaths = getTempPaths(tempDir);
+  const report = createExportReport();
+
+  // Cancelled by the caller, or by the timeout
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  context.signal?.addEventListener('abort', abort);
+  if (context.signal?.aborted) abort();
+
+  const timeout = config.timeout ?? DEFAULT_EXPORT_TIMEOUT;
+  let timedOut = false;
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          abort();
+        }, timeout)
+      : undefined;
+
+  const { signal } = controller;
+  const checkAborted = () => {
+    if (signal.aborted) throw new Error('Export cancelled');
+  };
 
   try {
-    // Report progress
-    onProgress?.('Preprocessing markdown...');
-
-    // 1. Preprocess markdown
-    let processed = content;
+    // 1. Preprocess markdown (hidden slides are left out, unless selected)
+    onProgress?.({ stage: 'preprocess', message: 'Preprocessing markdown...' });
+    await checkPaths(config);
 
     // Wikilink resolver for export: converts to relative paths for embedding
     const exportWikilinkResolver: WikilinkResolver = wikilinkResolver || ((name) => name);
 
+    // Slides are split like the preview splits them: after preprocessing
+    // (e.g. a ruler right after a /// line would otherwise read as a
+    // heading underline), with lines mapped back to the source
+    const ranges = computeSlideRanges(
+      await preprocessForRenderMapped(content, {
+        wikilinkResolver: exportWikilinkResolver,
+        enableDirectives: config.enableDirectives,
+      }),
+    );
+    const selection = config.slides?.trim();
+    const slides = selection
+      ? getSelectedSlides(selection, ranges)
+      : ranges.filter(range => !range.hidden).map(range => range.index);
+    let processed = selection
+      ? selectSlides(content, slides, ranges)
+      : removeHiddenSlides(content, ranges);
+
     processed = await preprocessForRender(processed, {
       wikilinkResolver: exportWikilinkResolver,
       enableDirectives: config.enableDirectives,
-      enableMermaid: config.enableMermaid,
-      mermaidRenderer: config.enableMermaid ? mermaidRenderer : undefined,
     });
 
-    // PlantUML (if enabled and renderer provided)
-    if (config.enablePlantUML && plantumlRenderer) {
-      const { preprocessPlantUML } = await import('./preprocessor');
-      processed = await preprocessPlantUML(processed, plantumlRenderer);
+    // 2. Render diagrams, counting them for progress
+    const diagrams = getExportDiagrams(config, context);
+    const total = countDiagramFences(processed, diagrams);
+
+    if (total > 0) {
+      // Fences are matched to the source by position, see
+      // getExportedFenceLines()
+      const fenceLines = getExportedFenceLines(content, ranges, slides);
+      const processedFenceLines = scanMarkdown(processed)
+        .filter(({ kind }) => kind === 'fence')
+        .map(({ startLine }) => startLine);
+
+      let current = 0;
+      const reportDiagram = ({ diagram, line, svg }: RenderedDiagram) => {
+        // Renderers show invalid diagrams as an error placeholder
+        const message = getDiagramError(svg);
+        if (message !== null) {
+          const sourceLine = fenceLines[processedFenceLines.indexOf(line)];
+          report.diagramErrors.push({
+            diagram,
+            message,
+            line: sourceLine === undefined ? null : sourceLine + 1,
+          });
+        }
+
+        current++;
+        onProgress?.({
+          stage: 'diagrams',
+          message: `Rendering diagram ${current}/${total}...`,
+          current,
+          total,
+        });
+      };
+      onProgress?.({
+        stage: 'diagrams',
+        message: `Rendering ${total} diagrams...`,
+        current,
+        total,
+      });
+
+      processed = await abortable(
+        preprocessDiagrams(
+          processed,
+          new DiagramRegistry(diagrams.getAll().map(withFailureKind)),
+          signal,
+          reportDiagram,
+        ),
+        signal,
+      );
     }
 
-    // 2. Embed assets
-    onProgress?.('Embedding assets...');
+    // 3. Embed assets
+    checkAborted();
+    onProgress?.({ stage: 'embed', message: 'Embedding assets...' });
 
     if (config.embedImages || config.embedIframes) {
       const embeddingContext: EmbeddingContext = {
         pathResolver,
         getMimeType,
+        onEmbed: ({ type, path, bytes }) => {
+          if (bytes === null) {
+            report.missingAssets.push({
+              type,
+              path,
+              line: findSourceLine(content, path),
+            });
+          } else {
+            report.embeddedAssets.push({ type, path, bytes });
+          }
+        },
       };
 
-      processed = await embedAssets(processed, fileDir, embeddingContext, {
-        images: config.embedImages,
-        iframes: config.embedIframes,
-      });
+      processed = await abortable(
+        embedAssets(processed, fileDir, embeddingContext, {
+          images: config.embedImages,
+          iframes: config.embedIframes,
+        }),
+        signal,
+      );
     }
 
-    // 3. Write temporary files
-    onProgress?.('Writing temporary files...');
+    // Assets left as paths are only checked, so missing ones are
+    // reported all the same
+    if (!config.embedImages || !config.embedIframes) {
+      const missing = await abortable(
+        findMissingAssets(processed, fileDir, pathResolver, {
+          images: !config.embedImages,
+          iframes: !config.embedIframes,
+        }),
+        signal,
+      );
+      for (const { type, path } of missing) {
+        report.missingAssets.push({
+          type,
+          path,
+          line: findSourceLine(content, path),
+        });
+      }
+    }
+
+    // 4. Write temporary files
+    checkAborted();
 
     // Ensure temp directory exists
     await mkdir(dirname(tempPaths.mdPath), { recursive: true });
@@ -235,61 +729,91 @@ export async function exportPresentation(
     await writeFile(tempPaths.mdPath, processed);
     await writeFile(tempPaths.enginePath, getEngine(config.enableMarkdownItPlugins));
 
-    // 4. Determine if HTML mode is needed
+    // Determine if HTML mode is needed
     const needsHtml =
       config.enableHtml ||
       config.enableMermaid ||
       config.enablePlantUML ||
+      diagrams.size > 0 ||
       contentRequiresHtml(processed);
 
-    // 5. Build marp-cli command
-    const cmd = buildMarpCliCommandString(tempPaths.mdPath, {
+    // Build marp-cli arguments
+    const args = buildMarpCliArgs(tempPaths.mdPath, {
       enginePath: tempPaths.enginePath,
       outputPath: config.outputPath,
       format: config.format,
+      singleImage,
+      imageScale: config.imageScale,
+      pdfNotes: config.pdfNotes,
+      pdfOutlines: config.pdfOutlines,
+      pptxEditable: config.pptxEditable,
       enableHtml: needsHtml,
       allowLocalFiles: config.allowLocalFiles,
       themeDir: config.themeDir,
       bespokeTransition: config.bespokeTransition,
+      browserPath: config.browserPath,
       additionalArgs: config.additionalMarpArgs,
     });
 
-    // 6. Execute marp-cli
-    onProgress?.(`Exporting to ${config.format.toUpperCase()}...`);
+    // 5. Execute marp-cli (killed when aborted)
+    checkAborted();
+    onProgress?.({
+      stage: 'marp',
+      message: `Exporting to ${config.format.toUpperCase()}...`,
+    });
 
-    try {
-      const { stdout, stderr } = await execAsync(cmd);
-      if (stdout) onProgress?.(stdout);
-      if (stderr) onProgress?.(stderr);
+    if (!marpCli) {
+      throw new ExportFailure(
+        createExportError({
+          kind: 'marp-cli-not-found',
+          command: 'marp-cli',
+          message: 'marp-cli not found',
+        }),
+      );
+    }
+    const { stdout, stderr } = await runMarpCli(marpCli, args, { signal });
+    if (stdout.trim()) onProgress?.({ stage: 'marp', message: stdout.trim() });
+    if (stderr.trim()) onProgress?.({ stage: 'marp', message: stderr.trim() });
 
-      await cleanup(tempPaths);
-      onProgress?.('Export completed successfully');
+    await cleanup(tempPaths);
+    report.outputBytes = await getOutputBytes(config.outputPath, slideImages);
+    onProgress?.({ stage: 'done', message: 'Export completed successfully' });
 
-      return {
-        success: true,
-        outputPath: config.outputPath,
-      };
-    } catch (error) {
-      await cleanup(tempPaths);
-      const err = error instanceof Error ? error : new Error(String(error));
-      onError?.(err);
-      return {
-        success: false,
-        outputPath: config.outputPath,
-        error: err,
-      };
-    }
+    return {
+      success: true,
+      outputPath: resultPath,
+      report,
+    };
   } catch (error) {
-    // Cleanup on preprocessing/embedding errors
     await cleanup(tempPaths);
 
-    const err = error instanceof Error ? error : new Error(String(error));
-    onError?.(err);
+    // Cancelling isn't reported through onError; a timeout is
+    let exportError: ExportError;
+    if (timedOut) {
+      exportError = createExportError({
+        kind: 'timeout',
+        timeout,
+        message: `Export timed out after ${Math.round(timeout / 1000)}s`,
+      });
+    } else if (signal.aborted) {
+      exportError = createExportError({
+        kind: 'cancelled',
+        message: 'Export cancelled',
+      });
+    } else {
+      exportError = toExportError(error, config);
+    }
+    if (exportError.kind !== 'cancelled') onError?.(exportError);
+
     return {
       success: false,
-      outputPath: config.outputPath,
-      error: err,
+      outputPath: resultPath,
+      error: exportError,
+      report,
     };
+  } finally {
+    clearTimeout(timer);
+    context.signal?.removeEventListener('abort', abort);
   }
 }
 
@@ -311,7 +835,7 @@ export function createExportConfigFromMarpConfig(
       images: boolean;
       iframes: boolean;
     };
-    export: { format: ExportFormat };
+    export: { format: ExportFormat; timeout?: number; imageScale?: number };
     mode: 'safe' | 'unsafe';
     themeDir?: string;
     marpCliArgs?: string[];
@@ -335,6 +859,11 @@ export function createExportConfigFromMarpConfig(
     embedImages: isUnsafe && marpConfig.embedding.images,
     embedIframes: isUnsafe && marpConfig.embedding.iframes,
     bespokeTransition: true,
+    imageScale: marpConfig.export.imageScale,
+    timeout:
+      marpConfig.export.timeout !== undefined
+        ? marpConfig.export.timeout * 1000
+        : undefined,
     additionalMarpArgs: marpConfig.marpCliArgs,
   };
 }
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { classifyMarpCliError, EXPORT_ERROR_HINTS } from './exportErrors';
+import { MarpCliError } from './marpCli';
+
+function marpCliError(
+  stderr: string,
+  exitCode: number | null = 1,
+  code?: string,
+) {
+  return new MarpCliError(stderr || 'failed', {
+    command: 'marp',
+    stderr,
+    exitCode,
+    code,
+  });
+}
+
+const details = { outputPath: '/out/deck.pdf', themeDir: '/themes' };
+
+describe('classifyMarpCliError', () => {
+  it('detects a missing marp-cli', () => {
+    const error = classifyMarpCliError(
+      marpCliError('', null, 'ENOENT'),
+      details,
+    );
+    expect(error).toMatchObject({
+      kind: 'marp-cli-not-found',
+      command: 'marp',
+    });
+    expect(error.hint).toBe(EXPORT_ERROR_HINTS['marp-cli-not-found']);
+  });
+
+  it('detects a missing Node.js', () => {
+    expect(
+      classifyMarpCliError(
+        marpCliError("/usr/bin/env: 'node': No such file or directory", 127),
+        details,
+      ).kind,
+    ).toBe('node-not-found');
+  });
+
+  it('detects a missing browser', () => {
+    expect(
+      classifyMarpCliError(
+        marpCliError(
+          '[  ERROR ] You have to install Google Chrome, Chromium, or Microsoft Edge to convert slide deck with current options.',
+        ),
+        details,
+      ).kind,
+    ).toBe('browser-not-found');
+  });
+
+  it('detects an unwritable output', () => {
+    expect(
+      classifyMarpCliError(
+        marpCliError("EACCES: permission denied, open '/out/deck.pdf'"),
+        details,
+      ),
+    ).toMatchObject({
+      kind: 'output-not-writable',
+      outputPath: '/out/deck.pdf',
+    });
+  });
+
+  it('falls back to unknown with the error output', () => {
+    const error = classifyMarpCliError(
+      marpCliError('Something broke\n'),
+      details,
+    );
+    expect(error).toMatchObject({
+      kind: 'unknown',
+      message: 'Something broke',
+    });
+    expect(error.hint).not.toBe('');
+  });
+});
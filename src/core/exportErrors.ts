@@ -0,0 +1,148 @@
+/**
+ * Export error classification
+ *
+ * Turns failures of the export pipeline into a discriminated union with a
+ * human-readable fix, so platforms can show a helpful message (Obsidian)
+ * or exit with a distinct code (CLI).
+ */
+
+import { MarpCliError } from './marpCli';
+
+interface ExportErrorBase {
+  /** What went wrong */
+  message: string;
+  /** How to fix it */
+  hint: string;
+  /** Underlying error, if any */
+  cause?: unknown;
+}
+
+/**
+ * Classified export failure
+ */
+export type ExportError = ExportErrorBase &
+  (
+    | { kind: 'marp-cli-not-found'; command: string }
+    | { kind: 'node-not-found' }
+    | { kind: 'browser-not-found' }
+    | { kind: 'theme-not-found'; themeDir: string }
+    | { kind: 'slide-not-found'; slide: number }
+    | { kind: 'diagram-failed'; diagram: string }
+    | { kind: 'output-not-writable'; outputPath: string }
+    | { kind: 'timeout'; timeout: number }
+    | { kind: 'cancelled' }
+    | { kind: 'unknown' }
+  );
+
+export type ExportErrorKind = ExportError['kind'];
+
+/**
+ * Fix shown for each kind of error
+ */
+export const EXPORT_ERROR_HINTS: Record<ExportErrorKind, string> = {
+  'marp-cli-not-found':
+    'Install marp-cli in the vault or project (npm install --save-dev @marp-team/marp-cli), or set the path to marp or marp-cli.js.',
+  'node-not-found':
+    'The marp executable needs Node.js. Install Node.js, or set the marp-cli path to marp-cli.js so it runs without a separate Node.js.',
+  'browser-not-found':
+    'Every format but HTML (PDF, PPTX, PNG, JPEG and notes) is rendered in Google Chrome, Chromium or Microsoft Edge. Install one, or set the Chrome/Chromium path.',
+  'theme-not-found':
+    'Check the theme directory setting, and that the theme named in the frontmatter exists there.',
+  'slide-not-found':
+    'Choose a slide number between 1 and the number of slides in the deck.',
+  'diagram-failed':
+    'Check that the diagram renderer is installed (mmdc for Mermaid, java and plantuml.jar for PlantUML) and that the diagrams are valid.',
+  'output-not-writable':
+    'Choose an export folder you can write to, and close the exported file if another app has it open.',
+  timeout:
+    'Increase the export timeout, or check that the browser starts (set the Chrome/Chromium path).',
+  cancelled: '',
+  unknown:
+    'Run the export with verbose output (CLI: --verbose, Obsidian: developer console) for details.',
+};
+
+// Omit applied to each member, so the union keeps its discriminant
+type WithoutHint<E> = E extends unknown ? Omit<E, 'hint'> : never;
+type ExportErrorDetails = WithoutHint<ExportError>;
+
+/**
+ * Create an export error with the hint for its kind
+ */
+export function createExportError(details: ExportErrorDetails): ExportError {
+  return { ...details, hint: EXPORT_ERROR_HINTS[details.kind] } as ExportError;
+}
+
+/**
+ * Error thrown inside the pipeline once a failure has been classified
+ */
+export class ExportFailure extends Error {
+  readonly error: ExportError;
+
+  constructor(error: ExportError) {
+    super(error.message);
+    this.name = 'ExportFailure';
+    this.error = error;
+  }
+}
+
+const NODE_MISSING_REGEX =
+  /env: ['"]?node['"]?: No such file|node: (command )?not found|'node' is not recognized/i;
+const BROWSER_MISSING_REGEX =
+  /install Google Chrome|No suitable browser|Could not find (Chrome|Chromium|browser|expected browser)|Failed to launch the browser/i;
+const NOT_WRITABLE_REGEX = /EACCES|EPERM|EROFS|permission denied/i;
+const THEME_MISSING_REGEX = /theme.*(not found|not recognized|does not exist)/i;
+
+/**
+ * Classify a failed marp-cli run by its exit status and output
+ */
+export function classifyMarpCliError(
+  error: MarpCliError,
+  details: { outputPath: string; themeDir?: string },
+): ExportError {
+  const output = `${error.stderr}\n${error.message}`;
+
+  if (error.code === 'ENOENT') {
+    return createExportError({
+      kind: 'marp-cli-not-found',
+      command: error.command,
+      message: `marp-cli not found (${error.command})`,
+      cause: error,
+    });
+  }
+  if (error.exitCode === 127 || NODE_MISSING_REGEX.test(output)) {
+    return createExportError({
+      kind: 'node-not-found',
+      message: 'Node.js not found for marp-cli',
+      cause: error,
+    });
+  }
+  if (BROWSER_MISSING_REGEX.test(output)) {
+    return createExportError({
+      kind: 'browser-not-found',
+      message: 'No browser found for the conversion',
+      cause: error,
+    });
+  }
+  if (NOT_WRITABLE_REGEX.test(output)) {
+    return createExportError({
+      kind: 'output-not-writable',
+      outputPath: details.outputPath,
+      message: `Cannot write "${details.outputPath}"`,
+      cause: error,
+    });
+  }
+  if (THEME_MISSING_REGEX.test(output)) {
+    return createExportError({
+      kind: 'theme-not-found',
+      themeDir: details.themeDir ?? '',
+      message: error.stderr.trim() || error.message,
+      cause: error,
+    });
+  }
+
+  return createExportError({
+    kind: 'unknown',
+    message: error.stderr.trim() || error.message,
+    cause: error,
+  });
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import {
+  formatExportFileName,
+  getSlideImagesPath,
+  resolveExportDir,
+} from './exportPath';
+
+describe('formatExportFileName', () => {
+  const date = new Date(2024, 4, 1, 9, 5, 7);
+
+  it('uses the note name by default', () => {
+    expect(formatExportFileName('', { basename: 'Talk', ext: 'pdf' })).toBe(
+      'Talk.pdf',
+    );
+  });
+
+  it('fills in the template', () => {
+    expect(
+      formatExportFileName('{basename}-{date}.{ext}', {
+        basename: 'Talk',
+        ext: 'pdf',
+        date,
+      }),
+    ).toBe('Talk-2024-05-01.pdf');
+    expect(
+      formatExportFileName('{date}_{time} {basename}.{ext}', {
+        basename: 'Talk',
+        ext: 'html',
+        date,
+      }),
+    ).toBe('2024-05-01_090507 Talk.html');
+  });
+
+  it('appends a missing extension', () => {
+    expect(
+      formatExportFileName('{basename}-final', { basename: 'Talk', ext: 'pptx' }),
+    ).toBe('Talk-final.pptx');
+  });
+
+  it('keeps unknown placeholders and replaces path separators', () => {
+    expect(
+      formatExportFileName('{author}/{basename}.{ext}', {
+        basename: 'Talk',
+        ext: 'pdf',
+      }),
+    ).toBe('{author}-Talk.pdf');
+  });
+});
+
+describe('resolveExportDir', () => {
+  const context = {
+    rootPath: '/vault',
+    defaultDir: '/home/me/Downloads',
+    homeDir: '/home/me',
+  };
+
+  it('falls back to the default directory', () => {
+    expect(resolveExportDir('', context)).toBe('/home/me/Downloads');
+    expect(resolveExportDir('  ', context)).toBe('/home/me/Downloads');
+  });
+
+  it('resolves relative paths against the vault', () => {
+    expect(resolveExportDir('Exports/Slides', context)).toBe(
+      join('/vault', 'Exports/Slides'),
+    );
+  });
+
+  it('keeps absolute paths and expands ~', () => {
+    expect(resolveExportDir('/tmp/out', context)).toBe('/tmp/out');
+    expect(resolveExportDir('~/Slides', context)).toBe(
+      join('/home/me', 'Slides'),
+    );
+  });
+});
+
+describe('getSlideImagesPath', () => {
+  it('puts the images in a folder named after the deck', () => {
+    expect(getSlideImagesPath(join('out', 'Talk.png'))).toBe(
+      join('out', 'Talk', 'Talk.png'),
+    );
+  });
+});
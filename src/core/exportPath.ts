@@ -0,0 +1,112 @@
+/**
+ * Export destination helpers
+ *
+ * Resolve where an exported file is written: the output directory
+ * (absolute or relative to the vault) and the filename built from a
+ * template.
+ */
+
+import { basename, dirname, extname, isAbsolute, join } from 'path';
+
+/**
+ * Default filename template: the note name with the format extension
+ */
+export const DEFAULT_EXPORT_FILENAME_TEMPLATE = '{basename}.{ext}';
+
+/**
+ * Values available in a filename template
+ */
+export interface ExportFileNameValues {
+  /** Note name without extension */
+  basename: string;
+  /** Extension of the export format (html, pdf, txt, ...) */
+  ext: string;
+  /** Time of the export (default: now) */
+  date?: Date;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Build the output filename from a template
+ *
+ * Placeholders: `{basename}`, `{ext}`, `{date}` (YYYY-MM-DD) and
+ * `{time}` (HHmmss), all in local time. Unknown placeholders are kept.
+ * Path separators are replaced, so the result is always a plain filename,
+ * and the extension is appended when the template doesn't produce it.
+ *
+ * @example
+ * formatExportFileName('{basename}-{date}.{ext}', { basename: 'Talk', ext: 'pdf' })
+ * // => 'Talk-2024-05-01.pdf'
+ */
+export function formatExportFileName(
+  template: string,
+  values: ExportFileNameValues,
+): string {
+  const date = values.date ?? new Date();
+  const replacements: Record<string, string> = {
+    basename: values.basename,
+    ext: values.ext,
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+  };
+
+  let name = (template.trim() || DEFAULT_EXPORT_FILENAME_TEMPLATE).replace(
+    /\{(\w+)\}/g,
+    (match: string, key: string) =>
+      Object.prototype.hasOwnProperty.call(replacements, key)
+        ? replacements[key]
+        : match,
+  );
+  name = name.replace(/[/\\]/g, '-');
+
+  if (!name.toLowerCase().endsWith(`.${values.ext.toLowerCase()}`)) {
+    name = `${name}.${values.ext}`;
+  }
+  return name;
+}
+
+/**
+ * Where to look up a relative export path
+ */
+export interface ExportDirContext {
+  /** Absolute path of the vault (or project) root */
+  rootPath: string;
+  /** Directory used when no export path is configured */
+  defaultDir: string;
+  /** Home directory, for `~` expansion */
+  homeDir?: string;
+}
+
+/**
+ * Resolve the configured export path to an absolute directory
+ *
+ * - empty: the default directory (e.g. Downloads)
+ * - `~/...`: relative to the home directory
+ * - absolute: used as is
+ * - anything else: relative to the vault root
+ */
+export function resolveExportDir(
+  exportPath: string,
+  context: ExportDirContext,
+): string {
+  const path = exportPath.trim();
+
+  if (!path) return context.defaultDir;
+  if (context.homeDir && (path === '~' || /^~[/\\]/.test(path))) {
+    return join(context.homeDir, path.slice(1));
+  }
+  if (isAbsolute(path)) return path;
+  return join(context.rootPath, path);
+}
+
+/**
+ * Output path for per-slide images, in a folder named after the deck
+ *
+ * marp-cli numbers the files, so `out/Talk.png` gives
+ * `out/Talk/Talk.001.png`, `out/Talk/Talk.002.png`, ...
+ */
+export function getSlideImagesPath(outputPath: string): string {
+  const name = basename(outputPath);
+  return join(dirname(outputPath), basename(name, extname(name)), name);
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDeckExportProfiles,
+  parseExportProfile,
+  parseExportProfiles,
+  type ExportProfile,
+} from './exportProfiles';
+
+describe('parseExportProfile', () => {
+  it('reads a profile with options', () => {
+    expect(
+      parseExportProfile({
+        name: 'handout',
+        format: 'pdf',
+        folder: 'out',
+        fileName: '{basename}-handout.{ext}',
+        slides: '1-3',
+        pdfNotes: true,
+        imageScale: 2,
+      }),
+    ).toEqual({
+      name: 'handout',
+      format: 'pdf',
+      folder: 'out',
+      fileName: '{basename}-handout.{ext}',
+      slides: '1-3',
+      pdfNotes: true,
+      imageScale: 2,
+    });
+  });
+
+  it('uses the default name for unnamed profiles', () => {
+    expect(parseExportProfile({ format: 'pptx' }, 'pptx')).toEqual({
+      name: 'pptx',
+      format: 'pptx',
+    });
+    expect(parseExportProfile({ format: 'pptx' })).toBe(
+      'Export profile needs a name',
+    );
+  });
+
+  it('rejects invalid options', () => {
+    expect(parseExportProfile('pdf')).toBe('Export profile must be an object');
+    expect(parseExportProfile({ name: 'a', format: 'docx' })).toMatch(
+      /format must be one of html, pdf/,
+    );
+    expect(
+      parseExportProfile({ name: 'a', format: 'pdf', outline: true }),
+    ).toBe('Export profile "a": unknown option "outline"');
+    expect(
+      parseExportProfile({ name: 'a', format: 'pdf', pdfNotes: 'yes' }),
+    ).toBe('Export profile "a": pdfNotes must be true or false');
+    expect(
+      parseExportProfile({ name: 'a', format: 'png', imageScale: 0 }),
+    ).toBe('Export profile "a": imageScale must be a positive number');
+    expect(
+      parseExportProfile({ name: 'a', format: 'pdf', slides: '3-1' }),
+    ).toBe('Export profile "a": invalid slides "3-1"');
+  });
+});
+
+describe('parseExportProfiles', () => {
+  it('keeps valid profiles and reports the others', () => {
+    const result = parseExportProfiles([
+      { name: 'handout', format: 'pdf' },
+      { name: 'handout', format: 'pptx' },
+      { name: 'web', format: 'gif' },
+      { name: 'web', format: 'html' },
+    ]);
+
+    expect(result.profiles.map(p => p.name)).toEqual(['handout', 'web']);
+    expect(result.errors).toEqual([
+      'Duplicate export profile "handout"',
+      expect.stringMatching(/^Export profile "web": format/),
+    ]);
+  });
+
+  it('requires a list', () => {
+    expect(parseExportProfiles({ name: 'handout' })).toEqual({
+      profiles: [],
+      errors: ['Export profiles must be a list'],
+    });
+  });
+});
+
+describe('getDeckExportProfiles', () => {
+  const defined: ExportProfile[] = [
+    { name: 'handout', format: 'pdf', pdfNotes: true },
+    { name: 'slides-pdf', format: 'pdf', folder: 'out' },
+  ];
+
+  it('resolves profile names and inline profiles', () => {
+    const result = getDeckExportProfiles(
+      {
+        marp: true,
+        'marp-extended': {
+          export: ['handout', { format: 'pptx', pptxEditable: true }],
+        },
+      },
+      defined,
+    );
+
+    expect(result.profiles).toEqual([
+      defined[0],
+      { name: 'pptx', format: 'pptx', pptxEditable: true },
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('accepts a single entry', () => {
+    const result = getDeckExportProfiles(
+      { 'marp-extended': { export: 'slides-pdf' } },
+      defined,
+    );
+    expect(result.profiles).toEqual([defined[1]]);
+  });
+
+  it('reports unknown names', () => {
+    const result = getDeckExportProfiles(
+      { 'marp-extended': { export: ['handout', 'poster'] } },
+      defined,
+    );
+    expect(result.profiles).toEqual([defined[0]]);
+    expect(result.errors).toEqual(['Unknown export profile "poster"']);
+  });
+
+  it('returns nothing for decks without profiles', () => {
+    expect(getDeckExportProfiles({ marp: true }, defined)).toEqual({
+      profiles: [],
+      errors: [],
+    });
+    expect(getDeckExportProfiles(undefined, defined).profiles).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Export profiles
+ *
+ * A profile is a named export setup: format, destination and format
+ * options. Profiles are defined in the settings and picked per deck in the
+ * frontmatter, either by name or inline:
+ *
+ * ```yaml
+ * marp-extended:
+ *   export:
+ *     - handout
+ *     - { name: slides-pdf, format: pdf, folder: out, pdfOutlines: true }
+ * ```
+ */
+
+import { EXPORT_FORMATS, type ExportFormat } from './config';
+import { parseSlideRanges } from './slideEditing';
+
+/**
+ * Named export setup
+ */
+export interface ExportProfile {
+  name: string;
+  format: ExportFormat;
+  /** Output folder: absolute or relative (empty = default destination) */
+  folder?: string;
+  /** Filename template, e.g. {basename}-handout.{ext} */
+  fileName?: string;
+  /** Slide selection like 1-3,7 (empty = all slides) */
+  slides?: string;
+  /** Embed local images and iframes (default: true) */
+  embedImages?: boolean;
+  /** PDF: add speaker notes as annotations */
+  pdfNotes?: boolean;
+  /** PDF: add an outline (bookmarks) */
+  pdfOutlines?: boolean;
+  /** PPTX: editable text instead of slide images */
+  pptxEditable?: boolean;
+  /** Scale factor for png/jpeg images */
+  imageScale?: number;
+}
+
+/**
+ * Profiles that could be read, and why the others couldn't
+ */
+export interface ExportProfilesResult {
+  profiles: ExportProfile[];
+  errors: string[];
+}
+
+/** Frontmatter key holding the plugin's per-deck options */
+export const DECK_OPTIONS_KEY = 'marp-extended';
+
+const STRING_KEYS = ['folder', 'fileName', 'slides'] as const;
+const BOOLEAN_KEYS = [
+  'embedImages',
+  'pdfNotes',
+  'pdfOutlines',
+  'pptxEditable',
+] as const;
+const PROFILE_KEYS = new Set<string>([
+  'name',
+  'format',
+  'imageScale',
+  ...STRING_KEYS,
+  ...BOOLEAN_KEYS,
+]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a single profile
+ *
+ * @param value - Profile object (from JSON or YAML)
+ * @param defaultName - Name for profiles without one (inline profiles)
+ * @returns The profile, or an error message
+ */
+export function parseExportProfile(
+  value: unknown,
+  defaultName?: string,
+): ExportProfile | string {
+  if (!isRecord(value)) return 'Export profile must be an object';
+
+  const name = value.name ?? defaultName;
+  if (typeof name !== 'string' || name.trim() === '') {
+    return 'Export profile needs a name';
+  }
+
+  const unknownKey = Object.keys(value).find(key => !PROFILE_KEYS.has(key));
+  if (unknownKey) {
+    return `Export profile "${name}": unknown option "${unknownKey}"`;
+  }
+
+  if (!EXPORT_FORMATS.includes(value.format as ExportFormat)) {
+    return `Export profile "${name}": format must be one of ${EXPORT_FORMATS.join(', ')}`;
+  }
+
+  const profile: ExportProfile = {
+    name: name.trim(),
+    format: value.format as ExportFormat,
+  };
+
+  for (const key of STRING_KEYS) {
+    const option = value[key];
+    if (option === undefined) continue;
+    if (typeof option !== 'string') {
+      return `Export profile "${name}": ${key} must be a string`;
+    }
+    profile[key] = option;
+  }
+
+  for (const key of BOOLEAN_KEYS) {
+    const option = value[key];
+    if (option === undefined) continue;
+    if (typeof option !== 'boolean') {
+      return `Export profile "${name}": ${key} must be true or false`;
+    }
+    profile[key] = option;
+  }
+
+  if (value.imageScale !== undefined) {
+    if (typeof value.imageScale !== 'number' || !(value.imageScale > 0)) {
+      return `Export profile "${name}": imageScale must be a positive number`;
+    }
+    profile.imageScale = value.imageScale;
+  }
+
+  if (profile.slides?.trim() && !parseSlideRanges(profile.slides)) {
+    return `Export profile "${name}": invalid slides "${profile.slides}"`;
+  }
+
+  return profile;
+}
+
+/**
+ * Validate a list of profiles, e.g. from the settings
+ *
+ * Names must be unique; later duplicates are reported and skipped.
+ */
+export function parseExportProfiles(value: unknown): ExportProfilesResult {
+  if (!Array.isArray(value)) {
+    return { profiles: [], errors: ['Export profiles must be a list'] };
+  }
+
+  const profiles: ExportProfile[] = [];
+  const errors: string[] = [];
+
+  for (const item of value) {
+    const profile = parseExportProfile(item);
+    if (typeof profile === 'string') {
+      errors.push(profile);
+    } else if (profiles.some(p => p.name === profile.name)) {
+      errors.push(`Duplicate export profile "${profile.name}"`);
+    } else {
+      profiles.push(profile);
+    }
+  }
+
+  return { profiles, errors };
+}
+
+/**
+ * Get the profiles a deck lists in its frontmatter
+ *
+ * Entries of `marp-extended.export` are names of defined profiles or
+ * inline profiles (named after their format if they have no name).
+ *
+ * @param frontmatter - Parsed frontmatter of the deck
+ * @param defined - Profiles from the settings
+ */
+export function getDeckExportProfiles(
+  frontmatter: unknown,
+  defined: ExportProfile[],
+): ExportProfilesResult {
+  const options = isRecord(frontmatter)
+    ? frontmatter[DECK_OPTIONS_KEY]
+    : undefined;
+  const entries = isRecord(options) ? options.export : undefined;
+  if (entries === undefined || entries === null) {
+    return { profiles: [], errors: [] };
+  }
+
+  const profiles: ExportProfile[] = [];
+  const errors: string[] = [];
+
+  for (const entry of Array.isArray(entries) ? entries : [entries]) {
+    if (typeof entry === 'string') {
+      const profile = defined.find(p => p.name === entry.trim());
+      if (profile) {
+        profiles.push(profile);
+      } else {
+        errors.push(`Unknown export profile "${entry}"`);
+      }
+      continue;
+    }
+
+    const defaultName =
+      isRecord(entry) && typeof entry.format === 'string'
+        ? entry.format
+        : undefined;
+    const profile = parseExportProfile(entry, defaultName);
+    if (typeof profile === 'string') {
+      errors.push(profile);
+    } else {
+      profiles.push(profile);
+    }
+  }
+
+  return { profiles, errors };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createExportReport,
+  findSourceLine,
+  formatByteSize,
+  formatExportReport,
+} from './exportReport';
+import { createDiagramErrorSvg, getDiagramError } from './diagrams/errorSvg';
+
+describe('findSourceLine', () => {
+  it('returns the 1-indexed line of the first occurrence', () => {
+    const markdown = '# Title\n\n![](a.png)\n![[b.png]]';
+    expect(findSourceLine(markdown, 'a.png')).toBe(3);
+    expect(findSourceLine(markdown, 'b.png')).toBe(4);
+    expect(findSourceLine(markdown, 'c.png')).toBeNull();
+  });
+});
+
+describe('formatByteSize', () => {
+  it('uses the largest fitting unit', () => {
+    expect(formatByteSize(512)).toBe('512 B');
+    expect(formatByteSize(1536)).toBe('1.5 KB');
+    expect(formatByteSize(3 * 1024 * 1024)).toBe('3.0 MB');
+  });
+});
+
+describe('formatExportReport', () => {
+  it('lists problems, embedded assets and the output size', () => {
+    const report = {
+      ...createExportReport(),
+      missingAssets: [{ type: 'image' as const, path: 'gone.png', line: 7 }],
+      diagramErrors: [
+        { diagram: 'mermaid' as const, message: 'Parse error', line: null },
+      ],
+      embeddedAssets: [
+        { type: 'iframe' as const, path: 'plot.html', bytes: 2048 },
+      ],
+      outputBytes: 100,
+    };
+
+    expect(formatExportReport(report)).toEqual([
+      'Missing assets (1):',
+      '  image gone.png (line 7)',
+      'Diagram errors (1):',
+      '  mermaid: Parse error',
+      'Embedded assets (1, 2.0 KB):',
+      '  iframe plot.html 2.0 KB',
+      'Output size: 100 B',
+    ]);
+  });
+
+  it('is empty for a report without entries', () => {
+    expect(formatExportReport(createExportReport())).toEqual([]);
+  });
+});
+
+describe('getDiagramError', () => {
+  it('reads the message back from an error placeholder', () => {
+    const svg = createDiagramErrorSvg(
+      'Mermaid Error',
+      'Expected "-->" <got> &',
+    );
+    expect(getDiagramError(svg)).toBe('Expected "-->" <got> &');
+  });
+
+  it('returns null for a rendered diagram', () => {
+    expect(
+      getDiagramError('<svg xmlns="http://www.w3.org/2000/svg"></svg>'),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Export report
+ *
+ * Collects what an export couldn't include (unresolved images and iframes,
+ * diagrams that failed to render) and what it embedded, so problems that
+ * don't fail the export still get noticed.
+ */
+
+/** Kind of an embeddable asset */
+export type AssetType = 'image' | 'iframe';
+
+/**
+ * Image or iframe that couldn't be embedded (left as a path)
+ */
+export interface MissingAsset {
+  type: AssetType;
+  path: string;
+  /** Line in the source markdown (1-indexed), null if not found */
+  line: number | null;
+}
+
+/**
+ * Diagram that rendered as an error placeholder
+ */
+export interface DiagramFailure {
+  /** Id of the renderer, e.g. 'mermaid' */
+  diagram: string;
+  message: string;
+  /** Line of the opening fence in the source markdown (1-indexed) */
+  line: number | null;
+}
+
+/**
+ * Asset embedded as a data URL
+ */
+export interface EmbeddedAsset {
+  type: AssetType;
+  path: string;
+  /** Size of the embedded file in bytes */
+  bytes: number;
+}
+
+/**
+ * Report of a finished (or failed) export
+ */
+export interface ExportReport {
+  missingAssets: MissingAsset[];
+  diagramErrors: DiagramFailure[];
+  embeddedAssets: EmbeddedAsset[];
+  /** Size of the output file in bytes, null if it wasn't written */
+  outputBytes: number | null;
+}
+
+/**
+ * Create an empty report
+ */
+export function createExportReport(): ExportReport {
+  return {
+    missingAssets: [],
+    diagramErrors: [],
+    embeddedAssets: [],
+    outputBytes: null,
+  };
+}
+
+/**
+ * Check whether a report lists anything the user should fix
+ */
+export function hasExportProblems(report: ExportReport): boolean {
+  return report.missingAssets.length > 0 || report.diagramErrors.length > 0;
+}
+
+/**
+ * Find the first line (1-indexed) of the markdown containing the text
+ *
+ * Preprocessing changes line numbers (hidden slides, directives), so
+ * assets are located in the original markdown by their reference.
+ */
+export function findSourceLine(markdown: string, text: string): number | null {
+  const index = markdown.indexOf(text);
+  if (index === -1) return null;
+  return markdown.slice(0, index).split('\n').length;
+}
+
+/**
+ * Format a byte count, e.g. 1536 -> '1.5 KB'
+ */
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatLine(line: number | null): string {
+  return line === null ? '' : ` (line ${line})`;
+}
+
+/**
+ * Format a report as text lines for terminal output
+ */
+export function formatExportReport(report: ExportReport): string[] {
+  const lines: string[] = [];
+
+  if (report.missingAssets.length > 0) {
+    lines.push(`Missing assets (${report.missingAssets.length}):`);
+    for (const asset of report.missingAssets) {
+      lines.push(`  ${asset.type} ${asset.path}${formatLine(asset.line)}`);
+    }
+  }
+
+  if (report.diagramErrors.length > 0) {
+    lines.push(`Diagram errors (${report.diagramErrors.length}):`);
+    for (const failure of report.diagramErrors) {
+      lines.push(
+        `  ${failure.diagram}${formatLine(failure.line)}: ${failure.message}`,
+      );
+    }
+  }
+
+  if (report.embeddedAssets.length > 0) {
+    const total = report.embeddedAssets.reduce((sum, a) => sum + a.bytes, 0);
+    lines.push(
+      `Embedded assets (${report.embeddedAssets.length}, ${formatByteSize(total)}):`,
+    );
+    for (const asset of report.embeddedAssets) {
+      lines.push(
+        `  ${asset.type} ${asset.path} ${formatByteSize(asset.bytes)}`,
+      );
+    }
+  }
+
+  if (report.outputBytes !== null) {
+    lines.push(`Output size: ${formatByteSize(report.outputBytes)}`);
+  }
+
+  return lines;
+}
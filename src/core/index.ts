@@ -13,10 +13,15 @@ export {
   type MermaidTheme,
   type MathTypesetting,
   type ExportFormat,
+  type ImageFormat,
   type SecurityMode,
   type ObsidianMarpSettings,
   DEFAULT_CONFIG,
+  EXPORT_FORMATS,
+  isImageFormat,
+  getExportExtension,
   loadConfig,
+  findConfigFile,
   fromObsidianSettings,
 } from './config';
 
@@ -29,22 +34,100 @@ export {
   preprocessWikilinks,
   preprocessMermaid,
   preprocessPlantUML,
+  preprocessDiagrams,
+  countDiagramFences,
   preprocessForRender,
+  preprocessForRenderMapped,
   preprocess,
   type MarpDirectiveResult,
   type PreprocessorContext,
+  type RenderedDiagram,
   type RenderPreprocessContext,
   type WikilinkResolver,
 } from './preprocessor';
 
+// Markdown scanner
+export {
+  scanMarkdown,
+  toSourceMapped,
+  getOriginalLine,
+  rewriteBlocks,
+  rewriteBlocksAsync,
+  rewriteTextLines,
+  findInlineProtectedRanges,
+  replaceOutsideInlineCode,
+  type MarkdownBlock,
+  type MarkdownBlockKind,
+  type FenceInfo,
+  type SourceMappedText,
+  type BlockRewriter,
+  type AsyncBlockRewriter,
+  type LineRewriter,
+} from './markdownScanner';
+
+// Slide boundaries
+export {
+  computeSlideRanges,
+  getSlideIndexForLine,
+  type SlideRange,
+  type SlideParser,
+} from './slides';
+export {
+  diffSlideHtml,
+  stripSourceLines,
+  type SlideHtmlDiff,
+} from './slideDiff';
+
 // Markdown-it plugins
 export {
   parseSpaceSeparatedStyles,
   parseContainerDefinition,
   genericContainerPlugin,
   markPlugin,
+  sourceLinePlugin,
+  SOURCE_LINE_ATTR,
+  SOURCE_LINE_END_ATTR,
+  transitionPlugin,
+  TRANSITION_ATTR,
+  hiddenSlidePlugin,
+  isHiddenDirective,
+  HIDDEN_ATTR,
 } from './markdownItPlugins';
 
+// Slide editing
+export {
+  rearrangeSlides,
+  setSlideHidden,
+  removeHiddenSlides,
+  insertSlide,
+  duplicateSlide,
+  deleteSlide,
+  moveSlide,
+  splitSlide,
+  mergeSlideWithNext,
+  selectSlides,
+  parseSlideRanges,
+  parseSlideSelection,
+  getLineChange,
+  type SlideSelectionRange,
+  type SlideEditResult,
+  type TextPosition,
+  type TextChange,
+} from './slideEditing';
+
+// Presenter mode
+export {
+  getNavigationAction,
+  parseTransition,
+  formatSpeakerNotes,
+  formatDuration,
+  SLIDE_TRANSITIONS,
+  DEFAULT_TRANSITION_DURATION,
+  type NavigationAction,
+  type SlideTransition,
+  type SlideTransitionName,
+} from './presenter';
+
 // Engine
 export { getEngine } from './engine';
 
@@ -66,27 +149,153 @@ export {
   type MimeTypeLookup,
   type UrlFetcher,
   type EmbeddingContext,
+  type EmbedOutcome,
 } from './embedding';
 
 // Marp CLI utilities
 export {
-  buildMarpCliCommand,
-  buildMarpCliCommandString,
+  buildMarpCliArgs,
+  resolveMarpCli,
+  runMarpCli,
+  MarpCliError,
   contentRequiresHtml,
   type MarpCliOptions,
+  type MarpCliCommand,
+  type MarpCliOutput,
 } from './marpCli';
 
 // Export pipeline
 export {
   exportPresentation,
   createExportConfigFromMarpConfig,
+  getExportProgressRatio,
   DEFAULT_EXPORT_CONFIG,
+  DEFAULT_EXPORT_TIMEOUT,
+  EXPORT_STAGES,
   type ExportConfig,
   type ExportContext,
   type ExportResult,
+  type ExportProgress,
+  type ExportStage,
 } from './export';
 
+// Export errors
+export {
+  classifyMarpCliError,
+  createExportError,
+  ExportFailure,
+  EXPORT_ERROR_HINTS,
+  type ExportError,
+  type ExportErrorKind,
+} from './exportErrors';
+
+// Export report
+export {
+  createExportReport,
+  hasExportProblems,
+  findSourceLine,
+  formatByteSize,
+  formatExportReport,
+  type ExportReport,
+  type MissingAsset,
+  type DiagramFailure,
+  type EmbeddedAsset,
+  type AssetType,
+} from './exportReport';
+
+// Export destination
+export {
+  formatExportFileName,
+  resolveExportDir,
+  getSlideImagesPath,
+  DEFAULT_EXPORT_FILENAME_TEMPLATE,
+  type ExportFileNameValues,
+  type ExportDirContext,
+} from './exportPath';
+
+// Export profiles
+export {
+  parseExportProfile,
+  parseExportProfiles,
+  getDeckExportProfiles,
+  DECK_OPTIONS_KEY,
+  type ExportProfile,
+  type ExportProfilesResult,
+} from './exportProfiles';
+
+// Batch export
+export {
+  isMarpDeck,
+  isGlobPattern,
+  globToRegExp,
+  splitGlobBase,
+  findMarpDecks,
+  getBatchOutputPath,
+  findOutputCollisions,
+  mapWithConcurrency,
+  exportBatch,
+  summarizeBatch,
+  formatBatchSummary,
+  DEFAULT_BATCH_CONCURRENCY,
+  type FoundDeck,
+  type BatchJob,
+  type BatchJobResult,
+  type BatchExportOptions,
+} from './batchExport';
+
+// Watch mode
+export {
+  getExportSourcePaths,
+  getDeckSourcePaths,
+  SourceWatcher,
+  type SourceWatcherOptions,
+} from './watch';
+
+// Preview server
+export {
+  PreviewServer,
+  injectLiveReload,
+  resolveRequestPath,
+  LIVE_RELOAD_PATH,
+  type RenderedDeck,
+  type PreviewServerOptions,
+} from './previewServer';
+
 // Diagram renderers
-export type { DiagramRenderer } from './diagrams/types';
+export type { DiagramRenderer, DiagramSource } from './diagrams/types';
+export { renderDiagrams } from './diagrams/batch';
+export { createDiagramErrorSvg, getDiagramError } from './diagrams/errorSvg';
+export {
+  CachingDiagramRenderer,
+  type CachingDiagramRendererOptions,
+  type DiagramCacheStats,
+} from './diagrams/cache';
+export {
+  DiagramDiskCache,
+  getDefaultDiagramCacheDir,
+  getToolVersion,
+} from './diagrams/diskCache';
+export {
+  DiagramRegistry,
+  MERMAID_DIAGRAM,
+  PLANTUML_DIAGRAM,
+  GRAPHVIZ_DIAGRAM,
+  type DiagramKind,
+  type DiagramRendererEntry,
+  type DiagramRegistryOptions,
+} from './diagrams/registry';
 export { MermaidCliRenderer, type MermaidCliOptions as MermaidRendererOptions } from './diagrams/mermaid-cli';
 export { PlantUMLRenderer, type PlantUMLOptions } from './diagrams/plantuml';
+export {
+  GraphvizRenderer,
+  GRAPHVIZ_ENGINES,
+  parseGraphvizEngine,
+  type GraphvizEngine,
+  type GraphvizOptions,
+} from './diagrams/graphviz';
+export {
+  CommandDiagramRenderer,
+  createDiagramCommandEntry,
+  validateDiagramCommand,
+  type DiagramCommandConfig,
+} from './diagrams/command';
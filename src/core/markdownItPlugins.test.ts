@@ -1,10 +1,15 @@
 import { describe, it, expect } from 'vitest';
+import { Marp } from '@marp-team/marp-core';
 import {
   parseSpaceSeparatedStyles,
   parseContainerDefinition,
   tokenizePreservingQuotes,
   parseMarpDirective,
   generateMarpComments,
+  genericContainerPlugin,
+  sourceLinePlugin,
+  transitionPlugin,
+  hiddenSlidePlugin,
 } from './markdownItPlugins';
 
 describe('parseSpaceSeparatedStyles', () => {
@@ -448,3 +453,80 @@ describe('generateMarpComments', () => {
     expect(result).toBe('<!-- _footer: "links : rechts" -->');
   });
 });
+
+describe('sourceLinePlugin', () => {
+  const render = (markdown: string, env: object = {}) =>
+    new Marp({ html: true, inlineSVG: false })
+      .use(genericContainerPlugin)
+      .use(sourceLinePlugin)
+      .render(markdown, env).html;
+
+  it('adds line ranges to block elements', () => {
+    const html = render('# Title\n\n- a\n- b');
+    expect(html).toContain(
+      '<h1 id="title" data-source-line="0" data-source-line-end="1">',
+    );
+    expect(html).toContain('<li data-source-line="2" data-source-line-end="3">');
+    expect(html).toContain('<li data-source-line="3" data-source-line-end="4">');
+  });
+
+  it('adds line ranges to containers', () => {
+    const html = render('::: box\ntext\n:::');
+    expect(html).toContain(
+      '<div class="box" data-source-line="0" data-source-line-end="2">',
+    );
+  });
+
+  it('does not add line ranges to slide sections', () => {
+    const html = render('# A\n\n---\n\n# B');
+    expect(html).not.toMatch(/<section[^>]*data-source-line/);
+    expect(html).toContain('<h1 id="b" data-source-line="4"');
+  });
+
+  it('translates lines through env.sourceLineMap', () => {
+    const html = render('# A\n\ntext', { sourceLineMap: [0, 5, 6] });
+    expect(html).toContain('<p data-source-line="6" data-source-line-end="7">');
+  });
+});
+
+describe('transitionPlugin', () => {
+  const render = (markdown: string) =>
+    new Marp({ inlineSVG: false }).use(transitionPlugin).render(markdown);
+
+  it('renders transitions inherited from the frontmatter', () => {
+    const { html } = render('---\ntransition: fade\n---\n# A\n\n---\n# B');
+    expect(html.match(/data-transition="fade"/g)).toHaveLength(2);
+  });
+
+  it('applies scoped transitions to a single slide', () => {
+    const { html } = render(
+      '# A\n\n---\n<!-- _transition: slide 1s -->\n# B\n\n---\n# C',
+    );
+    expect(html.match(/data-transition="[^"]*"/g)).toEqual([
+      'data-transition="slide 1s"',
+    ]);
+  });
+
+  it('does not report transition directives as speaker notes', () => {
+    const { comments } = render('<!-- _transition: fade -->\n<!-- note -->');
+    expect(comments).toEqual([['note']]);
+  });
+});
+
+describe('hiddenSlidePlugin', () => {
+  const render = (markdown: string) =>
+    new Marp({ inlineSVG: false }).use(hiddenSlidePlugin).render(markdown).html;
+
+  it('marks slides hidden with a scoped directive', () => {
+    const html = render('# A\n\n---\n<!-- _hide: true -->\n# B\n\n---\n# C');
+    expect(html.match(/<section[^>]*>/g)?.map(tag => tag.includes('data-hidden'))).toEqual([
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it('ignores values other than true', () => {
+    expect(render('<!-- _hide: false -->\n# A')).not.toContain('data-hidden');
+  });
+});
@@ -315,6 +315,9 @@ export function genericContainerPlugin(md: MarkdownIt): void {
   md.renderer.rules['generic_container_open'] = function (
     tokens: MarkdownIt.Token[],
     idx: number,
+    _options: MarkdownIt.Options,
+    _env: unknown,
+    self: MarkdownIt.Renderer,
   ): string {
     const token = tokens[idx];
     const def = token.meta as ContainerDefinition;
@@ -330,6 +333,9 @@ export function genericContainerPlugin(md: MarkdownIt): void {
       attrs += ` style="${def.style}"`;
     }
 
+    // Attributes added by other plugins (e.g., source line mapping)
+    attrs += self.renderAttrs(token);
+
     return `<${def.tag}${attrs}>\n`;
   };
 
@@ -490,6 +496,147 @@ export function markPlugin(md: MarkdownIt): void {
   });
 }
 
+/** Attribute holding the first source line (0-indexed) of an element */
+export const SOURCE_LINE_ATTR = 'data-source-line';
+
+/** Attribute holding the line after the last source line of an element */
+export const SOURCE_LINE_END_ATTR = 'data-source-line-end';
+
+/**
+ * Source line plugin for markdown-it
+ * Carries block token line maps into the rendered HTML for editor sync
+ *
+ * Every block-level element (paragraph, heading, list item, fence, table row,
+ * ::: container, ...) gets data-source-line / data-source-line-end attributes
+ * with its [start, end) line range. If `env.sourceLineMap` is an array
+ * (e.g. the lineMap of preprocessed content), lines are translated through it
+ * so they refer to the original markdown.
+ *
+ * Only registered for the preview; the export engine never adds these
+ * attributes, so exported files stay clean.
+ */
+export function sourceLinePlugin(md: MarkdownIt): void {
+  md.core.ruler.push('source_line', (state): boolean => {
+    if (state.inlineMode) return false;
+
+    const lineMap: unknown = state.env?.sourceLineMap;
+    const toSource = (line: number): number => {
+      if (!Array.isArray(lineMap) || lineMap.length === 0) return line;
+      if (line < lineMap.length) return lineMap[line];
+      return lineMap[lineMap.length - 1] + 1;
+    };
+
+    for (const token of state.tokens) {
+      if (!token.map || !token.block || token.nesting === -1) continue;
+      // Marp's own slide/container tokens manage their attributes themselves
+      if (token.type.startsWith('marpit_') || token.type === 'front_matter') {
+        continue;
+      }
+      // Inline content is covered by its parent block
+      if (token.type === 'inline') continue;
+
+      const [start, end] = token.map;
+      token.attrSet(SOURCE_LINE_ATTR, String(toSource(start)));
+      token.attrSet(SOURCE_LINE_END_ATTR, String(toSource(end - 1) + 1));
+    }
+
+    return true;
+  });
+}
+
+/** Attribute holding the transition of a slide section */
+export const TRANSITION_ATTR = 'data-transition';
+
+/**
+ * Transition directive plugin for Marp
+ * Adds the `transition` local directive (as known from Marp CLI's bespoke
+ * template) and renders its value as data-transition on each <section>
+ *
+ * Like other local directives, `transition` in the frontmatter applies to
+ * all slides and `_transition` to a single slide. Without Marp (plain
+ * markdown-it), the plugin does nothing.
+ *
+ * @example
+ * <!-- _transition: fade 500ms -->
+ * // => <section ... data-transition="fade 500ms">
+ */
+export function transitionPlugin(md: MarkdownIt): void {
+  const { marpit } = md as MarkdownIt & {
+    marpit?: {
+      customDirectives: {
+        local: Record<string, (value: string) => Record<string, string>>;
+      };
+    };
+  };
+  if (!marpit) return;
+
+  marpit.customDirectives.local.transition = value => ({ transition: value });
+
+  md.core.ruler.push('marp_ext_transition', (state): boolean => {
+    if (state.inlineMode) return false;
+
+    for (const token of state.tokens) {
+      if (token.type !== 'marpit_slide_open') continue;
+
+      const transition: unknown = token.meta?.marpitDirectives?.transition;
+      if (typeof transition === 'string' && transition.trim()) {
+        token.attrSet(TRANSITION_ATTR, transition.trim());
+      }
+    }
+
+    return true;
+  });
+}
+
+/** Attribute marking a slide section as hidden */
+export const HIDDEN_ATTR = 'data-hidden';
+
+/**
+ * Hidden slide plugin for Marp
+ * Adds the `hide` local directive and renders `data-hidden` on the
+ * <section> of hidden slides
+ *
+ * Hidden slides stay in the preview (so they can be edited) but are left
+ * out of presentations and exports (see removeHiddenSlides()).
+ *
+ * @example
+ * <!-- _hide: true -->
+ * // => <section ... data-hidden="">
+ */
+export function hiddenSlidePlugin(md: MarkdownIt): void {
+  const { marpit } = md as MarkdownIt & {
+    marpit?: {
+      customDirectives: {
+        local: Record<string, (value: string) => Record<string, string>>;
+      };
+    };
+  };
+  if (!marpit) return;
+
+  marpit.customDirectives.local.hide = value => ({ hide: value });
+
+  md.core.ruler.push('marp_ext_hidden_slide', (state): boolean => {
+    if (state.inlineMode) return false;
+
+    for (const token of state.tokens) {
+      if (token.type !== 'marpit_slide_open') continue;
+
+      if (isHiddenDirective(token.meta?.marpitDirectives?.hide)) {
+        token.attrSet(HIDDEN_ATTR, '');
+      }
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Check the value of a `hide` directive
+ */
+export function isHiddenDirective(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().toLowerCase() === 'true';
+}
+
 /**
  * Re-export preprocessor functions for backwards compatibility
  * These are also available from ./preprocessor.ts
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import {
+  scanMarkdown,
+  rewriteBlocks,
+  rewriteTextLines,
+  getOriginalLine,
+  findInlineProtectedRanges,
+  replaceOutsideInlineCode,
+} from './markdownScanner';
+import {
+  preprocessDirectives,
+  preprocessWikilinks,
+  preprocessMermaid,
+  preprocessForRenderMapped,
+} from './preprocessor';
+import type { DiagramRenderer } from './diagrams/types';
+
+const fakeRenderer: DiagramRenderer = {
+  render: async code => `<svg>${code.trim()}</svg>`,
+};
+
+describe('scanMarkdown', () => {
+  it('returns a single text block for plain markdown', () => {
+    const blocks = scanMarkdown('# Title\n\nText');
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0]).toMatchObject({ kind: 'text', startLine: 0, endLine: 3 });
+  });
+
+  it('detects frontmatter at the start', () => {
+    const blocks = scanMarkdown('---\nmarp: true\n---\n# Title');
+    expect(blocks.map(b => b.kind)).toEqual(['frontmatter', 'text']);
+    expect(blocks[0].endLine).toBe(3);
+  });
+
+  it('does not treat a later --- as frontmatter', () => {
+    const blocks = scanMarkdown('# One\n---\n# Two');
+    expect(blocks.map(b => b.kind)).toEqual(['text']);
+  });
+
+  it('detects backtick fences with language and params', () => {
+    const blocks = scanMarkdown('Text\n```mermaid w:400\ngraph TD\n```\nMore');
+    expect(blocks.map(b => b.kind)).toEqual(['text', 'fence', 'text']);
+    expect(blocks[1].fence).toMatchObject({
+      marker: '```',
+      language: 'mermaid',
+      params: 'w:400',
+      content: 'graph TD',
+      closed: true,
+    });
+    expect(blocks[1]).toMatchObject({ startLine: 1, endLine: 4 });
+  });
+
+  it('detects tilde fences', () => {
+    const blocks = scanMarkdown('~~~mermaid\ngraph TD\n~~~');
+    expect(blocks[0].fence?.language).toBe('mermaid');
+    expect(blocks[0].fence?.closed).toBe(true);
+  });
+
+  it('requires closing fence to be at least as long as the opening one', () => {
+    const blocks = scanMarkdown(
+      '````md\n```mermaid\ngraph TD\n```\n````\nAfter',
+    );
+    expect(blocks.map(b => b.kind)).toEqual(['fence', 'text']);
+    expect(blocks[0].fence?.language).toBe('md');
+    expect(blocks[0].fence?.content).toBe('```mermaid\ngraph TD\n```');
+  });
+
+  it('does not close a backtick fence with tildes', () => {
+    const blocks = scanMarkdown('```\n~~~\n```');
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].fence?.content).toBe('~~~');
+  });
+
+  it('runs unclosed fences to the end of the document', () => {
+    const blocks = scanMarkdown('Text\n```js\ncode\nmore');
+    expect(blocks[1]).toMatchObject({ kind: 'fence', endLine: 4 });
+    expect(blocks[1].fence?.closed).toBe(false);
+  });
+
+  it('ignores backtick lines with backticks in the info string', () => {
+    const blocks = scanMarkdown('```inline `code` ```');
+    expect(blocks.map(b => b.kind)).toEqual(['text']);
+  });
+
+  it('detects multi-line HTML comments', () => {
+    const blocks = scanMarkdown('Text\n<!--\n/// lead\n-->\nMore');
+    expect(blocks.map(b => b.kind)).toEqual(['text', 'comment', 'text']);
+    expect(blocks[1]).toMatchObject({ startLine: 1, endLine: 4 });
+  });
+
+  it('keeps comments followed by content on the same line as text', () => {
+    const blocks = scanMarkdown('<!-- note --> visible');
+    expect(blocks.map(b => b.kind)).toEqual(['text']);
+  });
+});
+
+describe('rewriteBlocks', () => {
+  it('maps replaced lines back to the original block', () => {
+    const result = rewriteBlocks('A\n```x\n1\n2\n```\nB', block =>
+      block.kind === 'fence' ? 'X' : undefined,
+    );
+    expect(result.text).toBe('A\nX\nB');
+    expect(result.lineMap).toEqual([0, 1, 5]);
+  });
+
+  it('chains line maps across stages', () => {
+    const first = rewriteBlocks('A\n```x\n1\n```\nB\nC', block =>
+      block.kind === 'fence' ? 'X' : undefined,
+    );
+    const second = rewriteTextLines(first, line =>
+      line === 'B' ? 'B1\nB2' : undefined,
+    );
+    expect(second.text).toBe('A\nX\nB1\nB2\nC');
+    expect(second.lineMap).toEqual([0, 1, 4, 4, 5]);
+    expect(getOriginalLine(second, 4)).toBe(5);
+  });
+});
+
+describe('findInlineProtectedRanges', () => {
+  it('finds code spans', () => {
+    expect(findInlineProtectedRanges('a `b` c')).toEqual([[2, 5]]);
+  });
+
+  it('matches code spans by backtick run length', () => {
+    expect(findInlineProtectedRanges('``a ` b`` c')).toEqual([[0, 9]]);
+  });
+
+  it('treats unmatched backticks as literal', () => {
+    expect(findInlineProtectedRanges('a ` b')).toEqual([]);
+  });
+
+  it('finds inline comments', () => {
+    expect(findInlineProtectedRanges('a <!-- b --> c')).toEqual([[2, 12]]);
+  });
+});
+
+describe('replaceOutsideInlineCode', () => {
+  it('skips matches inside code spans', () => {
+    expect(replaceOutsideInlineCode('x `x` x', /x/g, () => 'y')).toBe(
+      'y `x` y',
+    );
+  });
+});
+
+describe('preprocessDirectives', () => {
+  it('converts directive lines in content', () => {
+    expect(preprocessDirectives('/// lead')).toBe('<!-- _class: lead -->');
+  });
+
+  it('leaves directive lines inside fences untouched', () => {
+    const markdown = '```markdown\n/// lead\n```';
+    expect(preprocessDirectives(markdown)).toBe(markdown);
+  });
+
+  it('leaves directive lines inside comments untouched', () => {
+    const markdown = '<!--\n/// lead\n-->';
+    expect(preprocessDirectives(markdown)).toBe(markdown);
+  });
+});
+
+describe('preprocessWikilinks', () => {
+  const resolver = (name: string) => `res/${name}`;
+
+  it('converts wikilink images', () => {
+    expect(preprocessWikilinks('![[a.png]]', resolver)).toBe(
+      '![a.png](res/a.png)',
+    );
+  });
+
+  it('keeps wikilinks inside fences and inline code', () => {
+    const markdown = '`![[a.png]]`\n~~~\n![[b.png]]\n~~~';
+    expect(preprocessWikilinks(markdown, resolver)).toBe(markdown);
+  });
+});
+
+describe('preprocessMermaid', () => {
+  it('renders tilde and four-backtick fences', async () => {
+    const result = await preprocessMermaid(
+      '~~~mermaid\nA\n~~~\n````mermaid h:50%\nB\n````',
+      fakeRenderer,
+    );
+    const lines = result.split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^<img src="data:image\/svg\+xml;base64,/);
+    expect(lines[1]).toContain('style="height: 50%; width: auto;"');
+  });
+
+  it('does not render mermaid fences nested in other fences', async () => {
+    const markdown = '````markdown\n```mermaid\nA\n```\n````';
+    expect(await preprocessMermaid(markdown, fakeRenderer)).toBe(markdown);
+  });
+});
+
+describe('preprocessForRenderMapped', () => {
+  it('maps preprocessed lines to original lines', async () => {
+    const markdown =
+      '---\nmarp: true\n---\n/// lead paginate:skip\n```mermaid\nA\n```\n# End';
+    const result = await preprocessForRenderMapped(markdown, {
+      enableDirectives: true,
+      enableMermaid: true,
+      mermaidRenderer: fakeRenderer,
+    });
+    const lines = result.text.split('\n');
+    expect(lines[3]).toBe('<!-- _class: lead -->');
+    expect(lines[4]).toBe('<!-- _paginate: skip -->');
+    expect(lines[5]).toMatch(/^<img /);
+    expect(lines[6]).toBe('# End');
+    expect(result.lineMap).toEqual([0, 1, 2, 3, 3, 4, 7]);
+  });
+});
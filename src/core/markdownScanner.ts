@@ -0,0 +1,491 @@
+/**
+ * Block-level markdown scanner for marp-extended preprocessors
+ *
+ * The preprocessors run on raw markdown before Marp/markdown-it parse it,
+ * so they need their own notion of "real" content: a `/// lead` line or
+ * a `![[image.png]]` inside a fenced code block must be left alone.
+ *
+ * The scanner splits markdown into blocks (frontmatter, fences, HTML
+ * comments, text) following CommonMark fence rules, and the rewrite helpers
+ * keep a line map from the output back to the original source so later
+ * stages can report original line numbers.
+ */
+
+/**
+ * Kind of a scanned markdown block
+ *
+ * - frontmatter: YAML frontmatter at the very start of the document
+ * - fence: fenced code block (``` or ~~~, any length >= 3)
+ * - comment: HTML comment starting at the beginning of a line
+ * - text: everything else (regular markdown content)
+ */
+export type MarkdownBlockKind = 'frontmatter' | 'fence' | 'comment' | 'text';
+
+/**
+ * Details of a fenced code block
+ */
+export interface FenceInfo {
+  /** Opening fence marker, e.g. '```', '~~~~' */
+  marker: string;
+  /** Full info string after the marker (trimmed) */
+  info: string;
+  /** First word of the info string (lowercased), e.g. 'mermaid' */
+  language: string;
+  /** Remainder of the info string after the language, e.g. 'w:400' */
+  params: string;
+  /** Code between the opening and closing fence (without trailing newline) */
+  content: string;
+  /** False if the fence runs to the end of the document without closing */
+  closed: boolean;
+}
+
+/**
+ * A contiguous range of lines of one kind
+ */
+export interface MarkdownBlock {
+  kind: MarkdownBlockKind;
+  /** First line of the block (0-indexed, inclusive) */
+  startLine: number;
+  /** Line after the last line of the block (0-indexed, exclusive) */
+  endLine: number;
+  /** Raw text of the block (lines joined with '\n') */
+  text: string;
+  /** Fence details (only for kind === 'fence') */
+  fence?: FenceInfo;
+}
+
+/**
+ * Markdown text with a map from its lines back to the original source
+ *
+ * `lineMap[i]` is the original (0-indexed) line that output line `i`
+ * was produced from.
+ */
+export interface SourceMappedText {
+  text: string;
+  lineMap: number[];
+}
+
+/** Opening fence: up to 3 spaces indent, 3+ backticks or tildes, info string */
+const FENCE_OPEN_REGEX = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+/**
+ * Match an opening fence line
+ *
+ * Backtick fences may not contain backticks in their info string
+ * (CommonMark), otherwise the line is an inline code span.
+ */
+function matchFenceOpen(line: string): { marker: string; info: string } | null {
+  const match = FENCE_OPEN_REGEX.exec(line.replace(/\r$/, ''));
+  if (!match) return null;
+
+  const [, marker, info] = match;
+  if (marker[0] === '`' && info.includes('`')) return null;
+
+  return { marker, info: info.trim() };
+}
+
+/**
+ * Check whether a line closes a fence opened with the given marker
+ *
+ * The closing fence uses the same character, is at least as long as the
+ * opening one and has nothing but whitespace after it.
+ */
+function isFenceClose(line: string, marker: string): boolean {
+  const match = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(line);
+  if (!match) return false;
+  return match[1][0] === marker[0] && match[1].length >= marker.length;
+}
+
+/**
+ * Find where YAML frontmatter ends
+ *
+ * @returns Line index of the closing delimiter, or -1 if there is no frontmatter
+ */
+function findFrontmatterEnd(lines: string[]): number {
+  if (lines.length === 0 || lines[0].trim() !== '---') return -1;
+
+  for (let i = 1; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (trimmed === '---' || trimmed === '...') return i;
+  }
+
+  return -1;
+}
+
+/**
+ * Split markdown into frontmatter, fence, comment and text blocks
+ *
+ * Fences follow CommonMark: ``` and ~~~ with 3 or more characters, closed by
+ * a fence of the same character that is at least as long. An unclosed fence
+ * runs to the end of the document. HTML comments are only treated as blocks
+ * when they start a line; inline comments stay part of the text.
+ *
+ * @example
+ * scanMarkdown('# Title\n```mermaid\ngraph TD\n```')
+ * // => [
+ * //   { kind: 'text', startLine: 0, endLine: 1, ... },
+ * //   { kind: 'fence', startLine: 1, endLine: 4, fence: { language: 'mermaid', ... } },
+ * // ]
+ */
+export function scanMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.split('\n');
+  const blocks: MarkdownBlock[] = [];
+
+  const pushBlock = (
+    kind: MarkdownBlockKind,
+    startLine: number,
+    endLine: number,
+    fence?: FenceInfo,
+  ) => {
+    const block: MarkdownBlock = {
+      kind,
+      startLine,
+      endLine,
+      text: lines.slice(startLine, endLine).join('\n'),
+    };
+    if (fence) block.fence = fence;
+    blocks.push(block);
+  };
+
+  let i = 0;
+  let textStart = -1;
+
+  const flushText = (end: number) => {
+    if (textStart !== -1) {
+      pushBlock('text', textStart, end);
+      textStart = -1;
+    }
+  };
+
+  // 1. Frontmatter (only at the very start)
+  const frontmatterEnd = findFrontmatterEnd(lines);
+  if (frontmatterEnd !== -1) {
+    pushBlock('frontmatter', 0, frontmatterEnd + 1);
+    i = frontmatterEnd + 1;
+  }
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // 2. Fenced code blocks
+    const open = matchFenceOpen(line);
+    if (open) {
+      flushText(i);
+
+      let end = i + 1;
+      while (end < lines.length && !isFenceClose(lines[end], open.marker)) {
+        end++;
+      }
+      const closed = end < lines.length;
+      const [language = '', ...params] = open.info.split(/\s+/);
+
+      pushBlock('fence', i, closed ? end + 1 : end, {
+        marker: open.marker,
+        info: open.info,
+        language: language.toLowerCase(),
+        params: params.join(' '),
+        content: lines.slice(i + 1, end).join('\n'),
+        closed,
+      });
+
+      i = closed ? end + 1 : end;
+      continue;
+    }
+
+    // 3. HTML comments starting a line
+    if (/^ {0,3}<!--/.test(line)) {
+      const openIndex = line.indexOf('<!--');
+      let end = i;
+      let closeIndex = line.indexOf('-->', openIndex + 4);
+      while (closeIndex === -1 && end + 1 < lines.length) {
+        end++;
+        closeIndex = lines[end].indexOf('-->');
+      }
+
+      // Single-line comments followed by more content are inline, not blocks
+      const isWholeLine =
+        end > i ||
+        closeIndex === -1 ||
+        line.slice(closeIndex + 3).trim() === '';
+
+      if (isWholeLine) {
+        flushText(i);
+        pushBlock('comment', i, end + 1);
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // 4. Regular text
+    if (textStart === -1) textStart = i;
+    i++;
+  }
+
+  flushText(lines.length);
+
+  return blocks;
+}
+
+/**
+ * Create a SourceMappedText with an identity line map
+ */
+export function toSourceMapped(
+  input: string | SourceMappedText,
+): SourceMappedText {
+  if (typeof input !== 'string') return input;
+
+  const lineCount = input.split('\n').length;
+  return {
+    text: input,
+    lineMap: Array.from({ length: lineCount }, (_, i) => i),
+  };
+}
+
+/**
+ * Get the original source line for a line of (preprocessed) output
+ */
+export function getOriginalLine(
+  mapped: SourceMappedText,
+  outputLine: number,
+): number {
+  if (mapped.lineMap.length === 0) return outputLine;
+  const clamped = Math.max(0, Math.min(outputLine, mapped.lineMap.length - 1));
+  return mapped.lineMap[clamped];
+}
+
+/**
+ * Map the lines of a replacement back onto the lines of the replaced block
+ *
+ * If the line count is unchanged, lines map one-to-one. Otherwise lines map
+ * to the block's lines in order and any extra lines map to its last line.
+ */
+function mapReplacementLines(
+  replacement: string,
+  block: MarkdownBlock,
+  lineMap: number[],
+): number[] {
+  const count = replacement.split('\n').length;
+  const blockLength = block.endLine - block.startLine;
+  const result: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const sourceLine = block.startLine + Math.min(i, blockLength - 1);
+    result.push(lineMap[sourceLine] ?? sourceLine);
+  }
+
+  return result;
+}
+
+/**
+ * Join rewritten blocks into SourceMappedText
+ */
+function joinBlocks(
+  blocks: MarkdownBlock[],
+  replacements: Array<string | undefined>,
+  lineMap: number[],
+): SourceMappedText {
+  const parts: string[] = [];
+  const newLineMap: number[] = [];
+
+  blocks.forEach((block, index) => {
+    const replacement = replacements[index];
+
+    if (replacement === undefined) {
+      parts.push(block.text);
+      for (let line = block.startLine; line < block.endLine; line++) {
+        newLineMap.push(lineMap[line] ?? line);
+      }
+    } else {
+      parts.push(replacement);
+      newLineMap.push(...mapReplacementLines(replacement, block, lineMap));
+    }
+  });
+
+  return { text: parts.join('\n'), lineMap: newLineMap };
+}
+
+/**
+ * Block rewriter callback
+ * Returns replacement text for the block, or undefined to keep it unchanged.
+ */
+export type BlockRewriter = (block: MarkdownBlock) => string | undefined;
+
+/**
+ * Async block rewriter callback (e.g., for diagram rendering)
+ */
+export type AsyncBlockRewriter = (
+  block: MarkdownBlock,
+) => Promise<string | undefined> | string | undefined;
+
+/**
+ * Rewrite scanned blocks, keeping the line map up to date
+ *
+ * @param input - Markdown (or already mapped markdown from a previous stage)
+ * @param rewriter - Called for every block; return undefined to keep it
+ */
+export function rewriteBlocks(
+  input: string | SourceMappedText,
+  rewriter: BlockRewriter,
+): SourceMappedText {
+  const mapped = toSourceMapped(input);
+  const blocks = scanMarkdown(mapped.text);
+  const replacements = blocks.map(block => rewriter(block));
+
+  return joinBlocks(blocks, replacements, mapped.lineMap);
+}
+
+/**
+ * Rewrite scanned blocks asynchronously
+ *
+ * All rewriter calls run in parallel.
+ */
+export async function rewriteBlocksAsync(
+  input: string | SourceMappedText,
+  rewriter: AsyncBlockRewriter,
+): Promise<SourceMappedText> {
+  const mapped = toSourceMapped(input);
+  const blocks = scanMarkdown(mapped.text);
+  const replacements = await Promise.all(blocks.map(block => rewriter(block)));
+
+  return joinBlocks(blocks, replacements, mapped.lineMap);
+}
+
+/**
+ * Line rewriter callback for text blocks
+ * Returns replacement text for the line (may span multiple lines),
+ * or undefined to keep it unchanged.
+ */
+export type LineRewriter = (line: string) => string | undefined;
+
+/**
+ * Rewrite individual lines of text blocks
+ *
+ * Unlike rewriteBlocks(), every line of a replacement maps to the exact
+ * source line it was produced from, even if the line count changes.
+ */
+export function rewriteTextLines(
+  input: string | SourceMappedText,
+  rewriter: LineRewriter,
+): SourceMappedText {
+  const mapped = toSourceMapped(input);
+  const blocks = scanMarkdown(mapped.text);
+  const parts: string[] = [];
+  const newLineMap: number[] = [];
+
+  for (const block of blocks) {
+    const lines = block.text.split('\n');
+
+    lines.forEach((line, offset) => {
+      const sourceLine =
+        mapped.lineMap[block.startLine + offset] ?? block.startLine + offset;
+      const replacement = block.kind === 'text' ? rewriter(line) : undefined;
+      const output = replacement === undefined ? line : replacement;
+
+      parts.push(output);
+      for (let n = output.split('\n').length; n > 0; n--) {
+        newLineMap.push(sourceLine);
+      }
+    });
+  }
+
+  return { text: parts.join('\n'), lineMap: newLineMap };
+}
+
+/**
+ * Find inline code spans and inline HTML comments in text
+ *
+ * Code spans follow CommonMark: a run of N backticks closed by the next
+ * run of exactly N backticks. Unmatched runs are literal text.
+ *
+ * @returns Sorted [start, end) ranges that must not be rewritten
+ */
+export function findInlineProtectedRanges(
+  text: string,
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    // Escaped character
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+
+    // Inline HTML comment
+    if (text.startsWith('<!--', i)) {
+      const close = text.indexOf('-->', i + 4);
+      const end = close === -1 ? text.length : close + 3;
+      ranges.push([i, end]);
+      i = end;
+      continue;
+    }
+
+    // Code span
+    if (char === '`') {
+      let runEnd = i;
+      while (text[runEnd] === '`') runEnd++;
+      const runLength = runEnd - i;
+
+      // Search for a closing run of exactly the same length
+      let search = runEnd;
+      let closeStart = -1;
+      while (search < text.length) {
+        const next = text.indexOf('`', search);
+        if (next === -1) break;
+        let nextEnd = next;
+        while (text[nextEnd] === '`') nextEnd++;
+        if (nextEnd - next === runLength) {
+          closeStart = next;
+          break;
+        }
+        search = nextEnd;
+      }
+
+      if (closeStart === -1) {
+        // No matching closer: the backticks are literal
+        i = runEnd;
+        continue;
+      }
+
+      ranges.push([i, closeStart + runLength]);
+      i = closeStart + runLength;
+      continue;
+    }
+
+    i++;
+  }
+
+  return ranges;
+}
+
+/**
+ * Replace regex matches in text, skipping inline code spans and comments
+ *
+ * @param text - Text block content
+ * @param regex - Global regex to replace
+ * @param replacer - Replacement callback (same signature as String.replace)
+ */
+export function replaceOutsideInlineCode(
+  text: string,
+  regex: RegExp,
+  replacer: (match: string, ...groups: string[]) => string,
+): string {
+  const ranges = findInlineProtectedRanges(text);
+  if (ranges.length === 0) {
+    return text.replace(regex, replacer);
+  }
+
+  let result = '';
+  let position = 0;
+  for (const [start, end] of ranges) {
+    result += text.slice(position, start).replace(regex, replacer);
+    result += text.slice(start, end);
+    position = end;
+  }
+  result += text.slice(position).replace(regex, replacer);
+
+  return result;
+}
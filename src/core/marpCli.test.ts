@@ -0,0 +1,196 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  vi,
+} from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildMarpCliArgs, resolveMarpCli, runMarpCli } from './marpCli';
+
+describe('buildMarpCliArgs', () => {
+  it('passes paths as separate arguments', () => {
+    const args = buildMarpCliArgs('/tmp/my "deck" $HOME.md', {
+      enginePath: '/tmp/engine.js',
+      outputPath: "/out/it's.pdf",
+      format: 'pdf',
+      themeDir: '/themes',
+      browserPath: '/opt/chrome',
+    });
+
+    expect(args).toEqual([
+      '--engine',
+      '/tmp/engine.js',
+      '-o',
+      "/out/it's.pdf",
+      '--stdin',
+      'false',
+      '--pdf',
+      '--bespoke.transition',
+      '--theme-set',
+      '/themes',
+      '--browser-path',
+      '/opt/chrome',
+      '--',
+      '/tmp/my "deck" $HOME.md',
+    ]);
+  });
+
+  it('adds html and pass-through options before the input', () => {
+    const args = buildMarpCliArgs('in.md', {
+      enginePath: 'engine.js',
+      outputPath: 'out.html',
+      format: 'html',
+      enableHtml: true,
+      allowLocalFiles: true,
+      bespokeTransition: false,
+      additionalArgs: ['--title', 'Talk'],
+    });
+
+    expect(args).not.toContain('--bespoke.transition');
+    expect(args.slice(-6)).toEqual([
+      '--html',
+      '--allow-local-files',
+      '--title',
+      'Talk',
+      '--',
+      'in.md',
+    ]);
+  });
+});
+
+describe('buildMarpCliArgs image and notes formats', () => {
+  const base = { enginePath: 'engine.js', outputPath: 'out/deck.png' };
+
+  it('renders every slide, or a single one, with a scale factor', () => {
+    expect(
+      buildMarpCliArgs('in.md', { ...base, format: 'png', imageScale: 2 }),
+    ).toEqual(
+      expect.arrayContaining(['--images', 'png', '--image-scale', '2']),
+    );
+    expect(
+      buildMarpCliArgs('in.md', { ...base, format: 'jpeg', singleImage: true }),
+    ).toEqual(expect.arrayContaining(['--image', 'jpeg']));
+  });
+
+  it('adds PDF and PPTX options only for their format', () => {
+    const options = {
+      enginePath: 'engine.js',
+      outputPath: 'out/deck.pdf',
+      pdfNotes: true,
+      pdfOutlines: true,
+      pptxEditable: true,
+    };
+    const pdfArgs = buildMarpCliArgs('in.md', { ...options, format: 'pdf' });
+    expect(pdfArgs).toEqual(
+      expect.arrayContaining(['--pdf-notes', '--pdf-outlines']),
+    );
+    expect(pdfArgs).not.toContain('--pptx-editable');
+
+    const pptxArgs = buildMarpCliArgs('in.md', { ...options, format: 'pptx' });
+    expect(pptxArgs).toContain('--pptx-editable');
+    expect(pptxArgs).not.toContain('--pdf-notes');
+  });
+
+  it('extracts speaker notes', () => {
+    const args = buildMarpCliArgs('in.md', { ...base, format: 'notes' });
+    expect(args).toContain('--notes');
+    expect(args).not.toContain('--images');
+  });
+});
+
+describe('resolveMarpCli', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'marp-cli-test-'));
+    const packageDir = join(root, 'node_modules', '@marp-team', 'marp-cli');
+    await mkdir(packageDir, { recursive: true });
+    await mkdir(join(root, 'decks', 'talk'), { recursive: true });
+    // Prints its arguments, standing in for marp-cli
+    await writeFile(
+      join(packageDir, 'marp-cli.js'),
+      'console.log(JSON.stringify(process.argv.slice(2)));',
+    );
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('uses the configured path', () => {
+    expect(resolveMarpCli('/usr/local/bin/marp', [root])).toEqual({
+      command: '/usr/local/bin/marp',
+      args: [],
+    });
+    expect(resolveMarpCli('/opt/marp/marp-cli.js')?.args).toEqual([
+      '/opt/marp/marp-cli.js',
+    ]);
+  });
+
+  describe('on Windows', () => {
+    const platform = process.platform;
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      Object.defineProperty(process, 'platform', { value: platform });
+    });
+
+    it('runs the entry point behind an npm shim', async () => {
+      Object.defineProperty(process, 'platform', { value: 'win32' });
+      vi.stubEnv('PATH', root);
+      await writeFile(join(root, 'marp.cmd'), '');
+      const entry = join(
+        root,
+        'node_modules',
+        '@marp-team',
+        'marp-cli',
+        'marp-cli.js',
+      );
+
+      expect(resolveMarpCli('marp')?.args).toEqual([entry]);
+      expect(resolveMarpCli(join(root, 'marp.cmd'))?.args).toEqual([entry]);
+      expect(resolveMarpCli('C:\\marp\\marp.exe')).toEqual({
+        command: 'C:\\marp\\marp.exe',
+        args: [],
+      });
+    });
+  });
+
+  it('finds a local installation in a parent directory', () => {
+    const marpCli = resolveMarpCli(undefined, [join(root, 'decks', 'talk')]);
+    expect(marpCli?.command).toBe(process.execPath);
+    expect(marpCli?.args).toEqual([
+      join(root, 'node_modules', '@marp-team', 'marp-cli', 'marp-cli.js'),
+    ]);
+  });
+
+  it('falls back to the pinned dependency, not the PATH', async () => {
+    const empty = await mkdtemp(join(tmpdir(), 'marp-cli-none-'));
+    try {
+      const marpCli = resolveMarpCli(undefined, [empty]);
+      expect(marpCli?.command).toBe(process.execPath);
+      expect(marpCli?.args[0]).toMatch(
+        /node_modules[\\/]@marp-team[\\/]marp-cli[\\/]marp-cli\.js$/,
+      );
+    } finally {
+      await rm(empty, { recursive: true, force: true });
+    }
+  });
+
+  it('runs without shell interpolation', async () => {
+    const marpCli = resolveMarpCli(undefined, [root]);
+    const args = ['--', '/tmp/my "deck" $HOME `id`.md'];
+    const { stdout } = await runMarpCli(marpCli!, args);
+    expect(JSON.parse(stdout)).toEqual(args);
+  });
+
+  it('reports a missing executable', async () => {
+    await expect(
+      runMarpCli({ command: join(root, 'missing-marp'), args: [] }, []),
+    ).rejects.toThrow('marp-cli not found');
+  });
+});
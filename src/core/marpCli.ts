@@ -1,10 +1,15 @@
 /**
- * Marp CLI command building utilities
+ * Marp CLI invocation utilities
  *
- * Shared logic for building marp-cli commands used by both
- * the CLI tool and Obsidian export.
+ * Shared logic for running marp-cli used by both the CLI tool and
+ * Obsidian export. marp-cli is run from a local installation with an
+ * argument array (execFile), never through a shell or npx, so exports
+ * work offline and paths need no quoting.
  */
 
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { delimiter, dirname, join, resolve } from 'path';
 import type { ExportFormat } from './config';
 
 export interface MarpCliOptions {
@@ -14,6 +19,16 @@ export interface MarpCliOptions {
   outputPath: string;
   /** Export format */
   format: ExportFormat;
+  /** Render only the first slide as an image (png/jpeg), not every slide */
+  singleImage?: boolean;
+  /** Scale factor for images (png/jpeg), e.g. 2 for high-DPI */
+  imageScale?: number;
+  /** Add speaker notes to the PDF as annotations */
+  pdfNotes?: boolean;
+  /** Add a PDF outline (bookmarks) from slides and headings */
+  pdfOutlines?: boolean;
+  /** Write PPTX with editable text instead of slide images (experimental) */
+  pptxEditable?: boolean;
   /** Enable HTML output (required for SVG diagrams, iframes) */
   enableHtml?: boolean;
   /** Allow access to local files */
@@ -22,73 +37,274 @@ export interface MarpCliOptions {
   themeDir?: string;
   /** Enable bespoke transitions */
   bespokeTransition?: boolean;
+  /** Path to the Chrome/Chromium executable (for PDF/PPTX) */
+  browserPath?: string;
   /** Additional marp-cli arguments */
   additionalArgs?: string[];
 }
 
 /**
- * Build marp-cli command parts array
+ * Build the marp-cli argument array
  *
- * @returns Array of command parts that can be joined with spaces
+ * Each value is a separate argument, so paths may contain spaces,
+ * quotes or `$` without escaping.
  */
-export function buildMarpCliCommand(
+export function buildMarpCliArgs(
   inputPath: string,
   options: MarpCliOptions,
 ): string[] {
-  const cmdParts = [
-    'npx',
-    '-y',
-    '@marp-team/marp-cli@latest',
-    `--engine "${options.enginePath}"`,
-    `-o "${options.outputPath}"`,
-    '--stdin false',
+  const args = [
+    '--engine',
+    options.enginePath,
+    '-o',
+    options.outputPath,
+    '--stdin',
+    'false',
   ];
 
   // Add format-specific options
   if (options.format === 'pdf') {
-    cmdParts.push('--pdf');
+    args.push('--pdf');
+    if (options.pdfNotes) args.push('--pdf-notes');
+    if (options.pdfOutlines) args.push('--pdf-outlines');
   } else if (options.format === 'pptx') {
-    cmdParts.push('--pptx');
+    args.push('--pptx');
+    if (options.pptxEditable) args.push('--pptx-editable');
+  } else if (options.format === 'png' || options.format === 'jpeg') {
+    // --images writes deck.001.png, deck.002.png, ...
+    args.push(options.singleImage ? '--image' : '--images', options.format);
+    if (options.imageScale !== undefined) {
+      args.push('--image-scale', String(options.imageScale));
+    }
+  } else if (options.format === 'notes') {
+    args.push('--notes');
   }
   // html is the default, no flag needed
 
   // Enable bespoke transitions (for presentations)
   if (options.bespokeTransition !== false) {
-    cmdParts.push('--bespoke.transition');
+    args.push('--bespoke.transition');
   }
 
   // HTML and local file access
   if (options.enableHtml) {
-    cmdParts.push('--html');
+    args.push('--html');
   }
   if (options.allowLocalFiles) {
-    cmdParts.push('--allow-local-files');
+    args.push('--allow-local-files');
   }
 
   // Theme directory
   if (options.themeDir) {
-    cmdParts.push(`--theme-set "${options.themeDir}"`);
+    args.push('--theme-set', options.themeDir);
+  }
+
+  // Browser used for PDF/PPTX conversion
+  if (options.browserPath) {
+    args.push('--browser-path', options.browserPath);
   }
 
   // Additional arguments
   if (options.additionalArgs && options.additionalArgs.length > 0) {
-    cmdParts.push(...options.additionalArgs);
+    args.push(...options.additionalArgs);
   }
 
   // Input file (must be last)
-  cmdParts.push(`-- "${inputPath}"`);
+  args.push('--', inputPath);
 
-  return cmdParts;
+  return args;
 }
 
 /**
- * Build complete marp-cli command string
+ * Executable to run marp-cli with
  */
-export function buildMarpCliCommandString(
-  inputPath: string,
-  options: MarpCliOptions,
-): string {
-  return buildMarpCliCommand(inputPath, options).join(' ');
+export interface MarpCliCommand {
+  /** Executable (marp binary, or node for a JS entry point) */
+  command: string;
+  /** Arguments placed before the marp-cli arguments */
+  args: string[];
+  /** Extra environment variables */
+  env?: Record<string, string>;
+}
+
+/** Entry point of the @marp-team/marp-cli package */
+const MARP_CLI_ENTRY = join('node_modules', '@marp-team', 'marp-cli', 'marp-cli.js');
+
+// Run a JS entry point with the current runtime. In Electron (Obsidian),
+// ELECTRON_RUN_AS_NODE makes the app binary behave like plain node.
+function nodeCommand(scriptPath: string): MarpCliCommand {
+  return {
+    command: process.execPath,
+    args: [scriptPath],
+    env: { ELECTRON_RUN_AS_NODE: '1' },
+  };
+}
+
+/**
+ * Entry point behind an npm command shim on Windows (marp.cmd), which
+ * execFile can't run without a shell
+ *
+ * @param command - Path to the shim, or a command name looked up on the PATH
+ */
+function findShimEntry(command: string): string | null {
+  const shims = /[\\/]/.test(command)
+    ? [command.replace(/(\.cmd)?$/i, '.cmd')]
+    : (process.env.PATH ?? '')
+        .split(delimiter)
+        .filter(Boolean)
+        .map(dir => join(dir, `${command}.cmd`));
+
+  for (const shim of shims) {
+    const entry = join(dirname(shim), MARP_CLI_ENTRY);
+    if (existsSync(shim) && existsSync(entry)) return entry;
+  }
+  return null;
+}
+
+/**
+ * marp-cli installed with this package (pinned in package.json)
+ */
+function findBundledMarpCli(): string | null {
+  try {
+    return require.resolve('@marp-team/marp-cli/marp-cli.js');
+  } catch {
+    // Not installed next to this code, e.g. in the Obsidian plugin folder
+    return null;
+  }
+}
+
+/**
+ * Find marp-cli
+ *
+ * 1. `marpCliPath` if given: a `.js` entry point (e.g.
+ *    `node_modules/@marp-team/marp-cli/marp-cli.js`), or a marp
+ *    executable. A command name like `marp` is looked up on the PATH; on
+ *    Windows, npm's `marp.cmd` is resolved to the entry point it wraps.
+ * 2. A local `@marp-team/marp-cli` installation in one of `searchDirs`
+ *    or their parent directories (pinned by the project's lockfile)
+ * 3. The `@marp-team/marp-cli` dependency of this package
+ *
+ * @returns The command, or null if marp-cli isn't installed
+ */
+export function resolveMarpCli(
+  marpCliPath?: string,
+  searchDirs: string[] = [process.cwd()],
+): MarpCliCommand | null {
+  if (marpCliPath) {
+    if (/\.[cm]?js$/.test(marpCliPath)) {
+      return nodeCommand(resolve(marpCliPath));
+    }
+    const shimEntry =
+      process.platform === 'win32' && !/\.exe$/i.test(marpCliPath)
+        ? findShimEntry(marpCliPath)
+        : null;
+    return shimEntry
+      ? nodeCommand(shimEntry)
+      : { command: marpCliPath, args: [] };
+  }
+
+  for (const start of searchDirs) {
+    let dir = resolve(start);
+    for (;;) {
+      const entry = join(dir, MARP_CLI_ENTRY);
+      if (existsSync(entry)) return nodeCommand(entry);
+
+      const parent = dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+  }
+
+  const bundled = findBundledMarpCli();
+  return bundled ? nodeCommand(bundled) : null;
+}
+
+/**
+ * Output of a marp-cli run
+ */
+export interface MarpCliOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Failed marp-cli run
+ */
+export class MarpCliError extends Error {
+  /** Executable that was run */
+  readonly command: string;
+  /** marp-cli's error output */
+  readonly stderr: string;
+  /** Exit code, or null if the process didn't exit normally */
+  readonly exitCode: number | null;
+  /** Node.js error code (e.g. ENOENT when the executable is missing) */
+  readonly code?: string;
+
+  constructor(
+    message: string,
+    details: {
+      command: string;
+      stderr: string;
+      exitCode: number | null;
+      code?: string;
+    },
+  ) {
+    super(message);
+    this.name = 'MarpCliError';
+    this.command = details.command;
+    this.stderr = details.stderr;
+    this.exitCode = details.exitCode;
+    this.code = details.code;
+  }
+}
+
+/**
+ * Run marp-cli without a shell
+ *
+ * Rejects with a MarpCliError carrying marp-cli's error output when it
+ * exits with an error. Aborting the signal kills the process.
+ */
+export function runMarpCli(
+  marpCli: MarpCliCommand,
+  args: string[],
+  options: { signal?: AbortSignal } = {},
+): Promise<MarpCliOutput> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      marpCli.command,
+      [...marpCli.args, ...args],
+      {
+        env: { ...process.env, ...marpCli.env },
+        maxBuffer: 10 * 1024 * 1024,
+        windowsHide: true,
+        signal: options.signal,
+      },
+      (error, stdout, stderr) => {
+        if (options.signal?.aborted) {
+          reject(new Error('marp-cli was stopped'));
+        } else if (error) {
+          // code is the exit code, or a string like ENOENT if it didn't start
+          const code = (error as { code?: number | string }).code;
+          const notFound = code === 'ENOENT';
+          reject(
+            new MarpCliError(
+              notFound
+                ? `marp-cli not found (${marpCli.command}). Install @marp-team/marp-cli or set its path.`
+                : stderr.trim() || error.message,
+              {
+                command: marpCli.command,
+                stderr,
+                exitCode: typeof code === 'number' ? code : null,
+                code: typeof code === 'string' ? code : undefined,
+              },
+            ),
+          );
+        } else {
+          resolve({ stdout, stderr });
+        }
+      },
+    );
+  });
 }
 
 /**
@@ -7,7 +7,24 @@
 
 import { MarpExtendedConfig } from './config';
 import type { DiagramRenderer } from './diagrams/types';
+import { renderDiagrams } from './diagrams/batch';
+import {
+  DiagramRegistry,
+  type DiagramRendererEntry,
+  MERMAID_DIAGRAM,
+  PLANTUML_DIAGRAM,
+  GRAPHVIZ_DIAGRAM,
+} from './diagrams/registry';
 import type { PathResolver } from './types';
+import {
+  rewriteBlocks,
+  rewriteTextLines,
+  replaceOutsideInlineCode,
+  scanMarkdown,
+  toSourceMapped,
+  type FenceInfo,
+  type SourceMappedText,
+} from './markdownScanner';
 
 /**
  * Tokenize a string while preserving quoted substrings
@@ -169,35 +186,38 @@ export function generateMarpComments(result: MarpDirectiveResult): string {
   return comments.join('\n');
 }
 
+/** Directive shorthand line: /// params */
+const DIRECTIVE_LINE_REGEX = /^\/\/\/\s+(.+)$/;
+
+/**
+ * Convert /// directive lines in text blocks, keeping the line map
+ */
+function mapDirectives(input: string | SourceMappedText): SourceMappedText {
+  return rewriteTextLines(input, line => {
+    const match = DIRECTIVE_LINE_REGEX.exec(line);
+    if (!match) return undefined;
+
+    const result = parseMarpDirective(match[1]);
+    return result ? generateMarpComments(result) : undefined;
+  });
+}
+
 /**
  * Preprocess /// directive shorthand to Marp HTML comments
  *
+ * Only lines in regular markdown content are converted; code fences,
+ * HTML comments and frontmatter are left untouched.
  * This is safe to run in any mode - it only transforms text, no file access.
  */
 export function preprocessDirectives(markdown: string): string {
-  const directiveRegex = /^\/\/\/\s+(.+)$/gm;
-  return markdown.replace(directiveRegex, (_, params) => {
-    const result = parseMarpDirective(params);
-    if (result) {
-      return generateMarpComments(result);
-    }
-    return `/// ${params}`; // Leave unchanged if parsing fails
-  });
+  return mapDirectives(markdown).text;
 }
 
 /**
- * Mermaid code block regex with optional sizing
- * Examples: ```mermaid, ```mermaid w:400, ```mermaid h:50%
+ * Diagram sizing parameters from the fence info string
+ * Examples: ```mermaid w:400, ```mermaid h:50%
  */
-const MERMAID_REGEX = /```mermaid(?:\s+(w|h):(\S+))?\n([\s\S]*?)```/g;
-
-interface MermaidBlockMatch {
-  fullMatch: string;
-  index: number;
-  sizeType: 'w' | 'h' | null;
-  sizeValue: string | null;
-  code: string;
-}
+const DIAGRAM_SIZE_REGEX = /(?:^|\s)(w|h):(\S+)/;
 
 /**
  * Normalize size value: add 'px' if no unit is specified
@@ -237,65 +257,122 @@ function svgToDataUri(svg: string): string {
   return `data:image/svg+xml;base64,${base64}`;
 }
 
+/**
+ * Diagram rendered by preprocessDiagrams()
+ */
+export interface RenderedDiagram {
+  /** Id of the renderer's registry entry, e.g. 'mermaid' */
+  diagram: string;
+  /** Line of the opening fence in the original markdown (0-indexed) */
+  line: number;
+  svg: string;
+}
+
+/**
+ * Render diagram fences of registered languages to inline <img> tags,
+ * keeping the line map
+ *
+ * Unclosed fences are left as-is, since markdown-it would render the rest
+ * of the document as code.
+ */
+async function mapDiagramFences(
+  input: string | SourceMappedText,
+  diagrams: DiagramRegistry,
+  signal?: AbortSignal,
+  onRendered?: (diagram: RenderedDiagram) => void,
+): Promise<SourceMappedText> {
+  const mapped = toSourceMapped(input);
+
+  // Group the diagrams by renderer, so each renders its diagrams of the
+  // deck at once (one mmdc run, one PlantUML process) and the renderers
+  // run in parallel
+  const groups = new Map<DiagramRendererEntry, number[]>();
+  const blocks = scanMarkdown(mapped.text);
+  blocks.forEach(({ fence }, index) => {
+    const entry = fence?.closed
+      ? diagrams.getForLanguage(fence.language)
+      : undefined;
+    if (!entry) return;
+    groups.set(entry, [...(groups.get(entry) ?? []), index]);
+  });
+
+  // Image tags by block index
+  const images = new Map<number, string>();
+  await Promise.all(
+    [...groups].map(async ([entry, indexes]) => {
+      const fences = indexes.map(index => blocks[index].fence as FenceInfo);
+      const svgs = await renderDiagrams(
+        entry.renderer,
+        fences.map(({ content, params }) => ({ code: content, params })),
+        onRendered &&
+          ((i, svg) =>
+            onRendered({
+              diagram: entry.id,
+              line: mapped.lineMap[blocks[indexes[i]].startLine],
+              svg,
+            })),
+        signal,
+      );
+      fences.forEach((fence, i) => {
+        const size = DIAGRAM_SIZE_REGEX.exec(fence.params);
+        const sizeType = size ? (size[1] as 'w' | 'h') : null;
+        const style = generateImgStyle(sizeType, size ? size[2] : null);
+
+        // Convert SVG to base64 data URI and use <img> tag
+        images.set(
+          indexes[i],
+          `<img src="${svgToDataUri(svgs[i])}" alt="${entry.name} diagram"${style}>`,
+        );
+      });
+    }),
+  );
+
+  let index = 0;
+  return rewriteBlocks(mapped, () => images.get(index++));
+}
+
+/**
+ * Preprocess diagram fences to inline SVGs
+ *
+ * Every closed fence whose language is registered is rendered by its
+ * renderer, with optional sizing: ```dot w:400, ~~~puml h:50%
+ *
+ * @param signal - Cancels the renders, stopping the tools they run
+ * @param onRendered - Called as each diagram is done, with the line of
+ * its fence
+ */
+export async function preprocessDiagrams(
+  markdown: string,
+  diagrams: DiagramRegistry,
+  signal?: AbortSignal,
+  onRendered?: (diagram: RenderedDiagram) => void,
+): Promise<string> {
+  if (diagrams.size === 0) return markdown;
+  const result = await mapDiagramFences(markdown, diagrams, signal, onRendered);
+  return result.text;
+}
+
 /**
  * Preprocess Mermaid code blocks to inline SVGs
  *
+ * Supports ``` and ~~~ fences of any length, with optional sizing:
+ * ```mermaid w:400, ~~~mermaid h:50%
+ *
  * Requires a DiagramRenderer implementation (browser or CLI based)
  */
 export async function preprocessMermaid(
   markdown: string,
   renderer: DiagramRenderer,
 ): Promise<string> {
-  // Reset regex state
-  MERMAID_REGEX.lastIndex = 0;
-
-  const rawMatches = [...markdown.matchAll(MERMAID_REGEX)];
-
-  if (rawMatches.length === 0) {
-    return markdown;
-  }
-
-  const matches: MermaidBlockMatch[] = rawMatches
-    .filter((match) => match.index !== undefined)
-    .map((match) => ({
-      fullMatch: match[0],
-      index: match.index as number,
-      sizeType: (match[1] === 'w' || match[1] === 'h') ? match[1] : null,
-      sizeValue: match[2] || null,
-      code: match[3],
-    }));
-
-  // Render all diagrams in parallel for performance
-  const svgs = await Promise.all(matches.map((m) => renderer.render(m.code)));
-
-  // Build result by replacing each match (reverse order to preserve indices)
-  let result = markdown;
-  for (let i = matches.length - 1; i >= 0; i--) {
-    const match = matches[i];
-    const svg = svgs[i];
-
-    // Convert SVG to base64 data URI and use <img> tag
-    const dataUri = svgToDataUri(svg);
-    const style = generateImgStyle(match.sizeType, match.sizeValue);
-    const replacement = `<img src="${dataUri}" alt="Mermaid diagram"${style}>`;
-
-    result =
-      result.substring(0, match.index) +
-      replacement +
-      result.substring(match.index + match.fullMatch.length);
-  }
-
-  return result;
+  return preprocessDiagrams(
+    markdown,
+    new DiagramRegistry([{ ...MERMAID_DIAGRAM, renderer }]),
+  );
 }
 
-/**
- * PlantUML code block regex
- * Examples: ```plantuml, ```puml
- */
-const PLANTUML_REGEX = /```(?:plantuml|puml)\n([\s\S]*?)```/g;
-
 /**
  * Preprocess PlantUML code blocks to inline SVGs
+ * Examples: ```plantuml, ```puml w:600
  *
  * Requires a DiagramRenderer implementation
  */
@@ -303,36 +380,25 @@ export async function preprocessPlantUML(
   markdown: string,
   renderer: DiagramRenderer,
 ): Promise<string> {
-  // Reset regex state
-  PLANTUML_REGEX.lastIndex = 0;
-
-  const matches = [...markdown.matchAll(PLANTUML_REGEX)];
-
-  if (matches.length === 0) {
-    return markdown;
-  }
-
-  // Render all diagrams in parallel
-  const svgs = await Promise.all(matches.map((m) => renderer.render(m[1])));
-
-  // Build result by replacing each match (reverse order to preserve indices)
-  let result = markdown;
-  for (let i = matches.length - 1; i >= 0; i--) {
-    const match = matches[i];
-    const svg = svgs[i];
-    const matchIndex = match.index;
-    if (matchIndex === undefined) continue;
-
-    const dataUri = svgToDataUri(svg);
-    const replacement = `<img src="${dataUri}" alt="PlantUML diagram">`;
-
-    result =
-      result.substring(0, matchIndex) +
-      replacement +
-      result.substring(matchIndex + match[0].length);
-  }
+  return preprocessDiagrams(
+    markdown,
+    new DiagramRegistry([{ ...PLANTUML_DIAGRAM, renderer }]),
+  );
+}
 
-  return result;
+/**
+ * Count the diagram fences that preprocessDiagrams() would render (e.g.
+ * for progress reporting)
+ */
+export function countDiagramFences(
+  markdown: string,
+  diagrams: DiagramRegistry,
+): number {
+  return scanMarkdown(markdown).filter(
+    block =>
+      block.fence?.closed === true &&
+      diagrams.getForLanguage(block.fence.language) !== undefined,
+  ).length;
 }
 
 /**
@@ -340,7 +406,11 @@ export async function preprocessPlantUML(
  */
 export interface PreprocessorContext {
   config: MarpExtendedConfig;
+  /** Diagram renderers by fence language */
+  diagrams?: DiagramRegistry;
+  /** Shorthand for registering the Mermaid renderer */
   mermaidRenderer?: DiagramRenderer;
+  /** Shorthand for registering the PlantUML renderer */
   plantumlRenderer?: DiagramRenderer;
   /** Path resolver for file operations (optional, for embedding) */
   pathResolver?: PathResolver;
@@ -365,8 +435,10 @@ export interface RenderPreprocessContext {
   enableDirectives?: boolean;
   /** Enable mermaid diagram rendering */
   enableMermaid?: boolean;
-  /** Mermaid renderer (browser or CLI) */
+  /** Mermaid renderer (browser or CLI), registered when enableMermaid is set */
   mermaidRenderer?: DiagramRenderer;
+  /** Diagram renderers by fence language */
+  diagrams?: DiagramRegistry;
   /** Callback to resolve wikilink paths (platform-specific) */
   wikilinkResolver?: WikilinkResolver;
 }
@@ -376,12 +448,36 @@ export interface RenderPreprocessContext {
  */
 const WIKILINK_IMAGE_REGEX = /!\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g;
 
+/**
+ * Convert wikilink images in text blocks, keeping the line map
+ */
+function mapWikilinks(
+  input: string | SourceMappedText,
+  resolver: WikilinkResolver,
+): SourceMappedText {
+  return rewriteBlocks(input, block => {
+    if (block.kind !== 'text' || !block.text.includes('![[')) return undefined;
+
+    return replaceOutsideInlineCode(
+      block.text,
+      WIKILINK_IMAGE_REGEX,
+      (_, name, alt) => {
+        const url = resolver(name);
+        const altText = alt || name;
+        return `![${altText}](${url})`;
+      },
+    );
+  });
+}
+
 /**
  * Convert Obsidian-style wikilink images to standard markdown images
  *
  * Syntax: ![[image.png]] or ![[image.png|alt text]]
  * Output: ![alt](resolved-url)
  *
+ * Wikilinks inside code fences, inline code and HTML comments are kept.
+ *
  * @param markdown - Input markdown content
  * @param resolver - Callback to resolve wikilink names to URLs
  */
@@ -389,11 +485,7 @@ export function preprocessWikilinks(
   markdown: string,
   resolver: WikilinkResolver,
 ): string {
-  return markdown.replace(WIKILINK_IMAGE_REGEX, (_, name, alt) => {
-    const url = resolver(name);
-    const altText = alt || name;
-    return `![${altText}](${url})`;
-  });
+  return mapWikilinks(markdown, resolver).text;
 }
 
 /**
@@ -403,7 +495,7 @@ export function preprocessWikilinks(
  * It handles:
  * 1. Wikilink conversion (if resolver provided)
  * 2. /// directive shorthand (if enabled)
- * 3. Mermaid diagrams (if enabled and renderer provided)
+ * 3. Diagrams (registered renderers, and Mermaid if enabled)
  *
  * For export, additional steps (embedding, PlantUML) are handled
  * by the full `preprocess()` function.
@@ -412,21 +504,40 @@ export async function preprocessForRender(
   markdown: string,
   context: RenderPreprocessContext,
 ): Promise<string> {
-  let content = markdown;
+  const result = await preprocessForRenderMapped(markdown, context);
+  return result.text;
+}
+
+/**
+ * Same as preprocessForRender(), but also returns the line map from the
+ * preprocessed output back to the original markdown
+ */
+export async function preprocessForRenderMapped(
+  markdown: string,
+  context: RenderPreprocessContext,
+): Promise<SourceMappedText> {
+  let content = toSourceMapped(markdown);
 
   // 1. Convert wikilinks to standard markdown images
   if (context.wikilinkResolver) {
-    content = preprocessWikilinks(content, context.wikilinkResolver);
+    content = mapWikilinks(content, context.wikilinkResolver);
   }
 
   // 2. /// directive shorthand -> HTML comments
   if (context.enableDirectives) {
-    content = preprocessDirectives(content);
+    content = mapDirectives(content);
   }
 
-  // 3. Mermaid diagrams -> inline SVG/img
+  // 3. Diagrams -> inline SVG/img
+  const diagrams = new DiagramRegistry(context.diagrams?.getAll());
   if (context.enableMermaid && context.mermaidRenderer) {
-    content = await preprocessMermaid(content, context.mermaidRenderer);
+    diagrams.register({
+      ...MERMAID_DIAGRAM,
+      renderer: context.mermaidRenderer,
+    });
+  }
+  if (diagrams.size > 0) {
+    content = await mapDiagramFences(content, diagrams);
   }
 
   return content;
@@ -442,33 +553,43 @@ export async function preprocess(
   markdown: string,
   context: PreprocessorContext,
 ): Promise<string> {
-  let content = markdown;
+  let content = toSourceMapped(markdown);
 
   // 1. /// directive shorthand -> HTML comments (always safe)
   if (context.config.preprocessor.enableDirectiveShorthand) {
-    content = preprocessDirectives(content);
+    content = mapDirectives(content);
   }
 
-  // 2. Mermaid diagrams -> inline SVG/img (requires unsafe mode)
-  if (
-    context.config.diagrams.mermaid.enabled &&
-    context.mermaidRenderer &&
-    context.config.mode === 'unsafe'
-  ) {
-    content = await preprocessMermaid(content, context.mermaidRenderer);
+  // 2. Diagrams -> inline SVG/img (requires unsafe mode); the built-in
+  // kinds can be switched off in the config
+  const diagrams = new DiagramRegistry(context.diagrams?.getAll());
+  if (context.mermaidRenderer) {
+    diagrams.register({
+      ...MERMAID_DIAGRAM,
+      renderer: context.mermaidRenderer,
+    });
   }
-
-  // 3. PlantUML diagrams -> inline SVG/img (requires unsafe mode)
-  if (
-    context.config.diagrams.plantuml.enabled &&
-    context.plantumlRenderer &&
-    context.config.mode === 'unsafe'
-  ) {
-    content = await preprocessPlantUML(content, context.plantumlRenderer);
+  if (context.plantumlRenderer) {
+    diagrams.register({
+      ...PLANTUML_DIAGRAM,
+      renderer: context.plantumlRenderer,
+    });
+  }
+  if (!context.config.diagrams.mermaid.enabled) {
+    diagrams.unregister(MERMAID_DIAGRAM.id);
+  }
+  if (!context.config.diagrams.plantuml.enabled) {
+    diagrams.unregister(PLANTUML_DIAGRAM.id);
+  }
+  if (!context.config.diagrams.graphviz.enabled) {
+    diagrams.unregister(GRAPHVIZ_DIAGRAM.id);
+  }
+  if (diagrams.size > 0 && context.config.mode === 'unsafe') {
+    content = await mapDiagramFences(content, diagrams);
   }
 
   // Note: Image embedding and iframe embedding are handled separately
   // in the export pipeline (not in this preprocessor)
 
-  return content;
+  return content.text;
 }
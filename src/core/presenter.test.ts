@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNavigationAction,
+  parseTransition,
+  formatSpeakerNotes,
+  formatDuration,
+  DEFAULT_TRANSITION_DURATION,
+} from './presenter';
+
+describe('getNavigationAction', () => {
+  it('maps clicker and arrow keys', () => {
+    expect(getNavigationAction('PageDown')).toBe('next');
+    expect(getNavigationAction('ArrowLeft')).toBe('previous');
+    expect(getNavigationAction('Home')).toBe('first');
+    expect(getNavigationAction('End')).toBe('last');
+  });
+
+  it('ignores other keys', () => {
+    expect(getNavigationAction('x')).toBeNull();
+    expect(getNavigationAction('toString')).toBeNull();
+  });
+});
+
+describe('parseTransition', () => {
+  it('parses name and duration', () => {
+    expect(parseTransition('slide 1s')).toEqual({ name: 'slide', duration: 1000 });
+    expect(parseTransition('fade 250ms')).toEqual({ name: 'fade', duration: 250 });
+  });
+
+  it('uses the default duration', () => {
+    expect(parseTransition('zoom')).toEqual({
+      name: 'zoom',
+      duration: DEFAULT_TRANSITION_DURATION,
+    });
+  });
+
+  it('maps Marp CLI transitions to supported ones', () => {
+    expect(parseTransition('push').name).toBe('slide');
+    expect(parseTransition('cube').name).toBe('fade');
+  });
+
+  it('returns none for missing values', () => {
+    expect(parseTransition(null).name).toBe('none');
+    expect(parseTransition('  ').name).toBe('none');
+  });
+});
+
+describe('formatSpeakerNotes', () => {
+  it('joins non-empty comments', () => {
+    expect(formatSpeakerNotes([' first ', '', 'second\nline'])).toBe(
+      'first\n\nsecond\nline',
+    );
+  });
+
+  it('handles slides without comments', () => {
+    expect(formatSpeakerNotes(undefined)).toBe('');
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and seconds', () => {
+    expect(formatDuration(65000)).toBe('1:05');
+    expect(formatDuration(0)).toBe('0:00');
+  });
+
+  it('includes hours when needed', () => {
+    expect(formatDuration(3723000)).toBe('1:02:03');
+  });
+
+  it('formats overtime as negative', () => {
+    expect(formatDuration(-30000)).toBe('-0:30');
+  });
+});
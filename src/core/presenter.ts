@@ -0,0 +1,138 @@
+/**
+ * Presenter mode helpers
+ *
+ * Platform-independent parts of the slideshow: keyboard navigation,
+ * transition parsing, speaker notes and timer formatting.
+ */
+
+/**
+ * Navigation triggered by a key press during a presentation
+ */
+export type NavigationAction = 'next' | 'previous' | 'first' | 'last';
+
+/**
+ * Keys used by keyboards and presentation clickers
+ * (clickers usually send PageDown/PageUp or arrow keys)
+ */
+const NAVIGATION_KEYS: Record<string, NavigationAction> = {
+  ArrowRight: 'next',
+  ArrowDown: 'next',
+  PageDown: 'next',
+  ' ': 'next',
+  Enter: 'next',
+  n: 'next',
+  ArrowLeft: 'previous',
+  ArrowUp: 'previous',
+  PageUp: 'previous',
+  Backspace: 'previous',
+  p: 'previous',
+  Home: 'first',
+  End: 'last',
+};
+
+/**
+ * Get the navigation action for a KeyboardEvent.key value
+ *
+ * @example
+ * getNavigationAction('PageDown') // => 'next'
+ * getNavigationAction('x') // => null
+ */
+export function getNavigationAction(key: string): NavigationAction | null {
+  return Object.prototype.hasOwnProperty.call(NAVIGATION_KEYS, key)
+    ? NAVIGATION_KEYS[key]
+    : null;
+}
+
+/**
+ * Transitions supported by the slideshow
+ */
+export const SLIDE_TRANSITIONS = ['none', 'fade', 'slide', 'zoom'] as const;
+
+export type SlideTransitionName = (typeof SLIDE_TRANSITIONS)[number];
+
+/**
+ * Parsed value of the `transition` directive
+ */
+export interface SlideTransition {
+  name: SlideTransitionName;
+  /** Duration in milliseconds */
+  duration: number;
+}
+
+/** Duration used when the directive doesn't specify one */
+export const DEFAULT_TRANSITION_DURATION = 400;
+
+// Names from Marp CLI's transition set mapped to the closest supported one
+const TRANSITION_ALIASES: Record<string, SlideTransitionName> = {
+  'fade-out': 'fade',
+  cover: 'slide',
+  push: 'slide',
+  reveal: 'slide',
+  wipe: 'slide',
+  'zoom-out': 'zoom',
+};
+
+/**
+ * Parse a `transition` directive value such as `fade` or `slide 1s`
+ *
+ * Unknown names fall back to `fade` so that a transition is still visible;
+ * an empty value means no transition.
+ *
+ * @example
+ * parseTransition('slide 1s') // => { name: 'slide', duration: 1000 }
+ * parseTransition('push 250ms') // => { name: 'slide', duration: 250 }
+ */
+export function parseTransition(value: string | null | undefined): SlideTransition {
+  const [rawName, rawDuration] = (value ?? '').trim().split(/\s+/);
+  const duration = parseDuration(rawDuration) ?? DEFAULT_TRANSITION_DURATION;
+
+  if (!rawName) return { name: 'none', duration };
+
+  const lower = rawName.toLowerCase();
+  const name = (SLIDE_TRANSITIONS as readonly string[]).includes(lower)
+    ? (lower as SlideTransitionName)
+    : (TRANSITION_ALIASES[lower] ?? 'fade');
+
+  return { name, duration };
+}
+
+/**
+ * Parse a CSS-like duration (`500ms`, `1s`, `0.5s`) into milliseconds
+ */
+function parseDuration(value: string | undefined): number | null {
+  const match = value?.match(/^(\d+(?:\.\d+)?)(ms|s)$/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  return match[2] === 's' ? amount * 1000 : amount;
+}
+
+/**
+ * Join the HTML comments of a slide into its speaker notes
+ */
+export function formatSpeakerNotes(comments: string[] | undefined): string {
+  return (comments ?? [])
+    .map(comment => comment.trim())
+    .filter(comment => comment.length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Format a duration for the presenter timer (`m:ss`, or `h:mm:ss` from one
+ * hour on). Negative durations (overtime) get a leading minus.
+ *
+ * @example
+ * formatDuration(65000) // => '1:05'
+ * formatDuration(-30000) // => '-0:30'
+ */
+export function formatDuration(ms: number): string {
+  const sign = ms < 0 ? '-' : '';
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  return hours > 0
+    ? `${sign}${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${sign}${minutes}:${pad(seconds)}`;
+}
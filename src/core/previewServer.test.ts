@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  injectLiveReload,
+  resolveRequestPath,
+  PreviewServer,
+  LIVE_RELOAD_PATH,
+} from './previewServer';
+
+describe('injectLiveReload', () => {
+  it('adds the client before </body>', () => {
+    const html = injectLiveReload(
+      '<html><body><p>Hi</p></body></html>',
+      '/a b.md',
+    );
+    expect(html).toMatch(/<p>Hi<\/p><script>.*<\/script><\/body><\/html>$/);
+    expect(html).toContain(`${LIVE_RELOAD_PATH}?deck=%2Fa%20b.md`);
+  });
+});
+
+describe('resolveRequestPath', () => {
+  it('resolves below the root only', () => {
+    expect(resolveRequestPath('/srv', '/img/a%20b.png')).toBe(
+      join('/srv/img/a b.png'),
+    );
+    expect(resolveRequestPath('/srv', '/../etc/passwd')).toBeNull();
+    expect(resolveRequestPath('/srv', '/%2e%2e/etc/passwd')).toBeNull();
+    expect(resolveRequestPath('/srv', '/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('PreviewServer', () => {
+  let dir: string;
+  let server: PreviewServer;
+  let url: string;
+  let renders = 0;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marp-serve-test-'));
+    await writeFile(join(dir, 'talk.md'), '# Talk');
+    await writeFile(join(dir, 'chart.svg'), '<svg/>');
+
+    server = new PreviewServer({
+      root: dir,
+      render: async deckPath => {
+        renders++;
+        return {
+          html: `<html><body>render ${renders}</body></html>`,
+          sources: [deckPath, join(dir, 'chart.svg')],
+        };
+      },
+      listDecks: async () => [join(dir, 'talk.md')],
+      getMimeType: path => (path.endsWith('.svg') ? 'image/svg+xml' : null),
+    });
+    url = await server.listen(0);
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('opens the only deck and serves the files next to it', async () => {
+    const index = await fetch(url, { redirect: 'manual' });
+    expect(index.status).toBe(302);
+    expect(index.headers.get('location')).toBe('/talk.md');
+
+    const image = await fetch(new URL('chart.svg', url));
+    expect(image.headers.get('content-type')).toBe('image/svg+xml');
+    expect(await image.text()).toBe('<svg/>');
+
+    expect((await fetch(new URL('missing.png', url))).status).toBe(404);
+  });
+
+  it('renders decks once until a source changes', async () => {
+    const first = await (await fetch(new URL('talk.md', url))).text();
+    expect(first).toContain('render 1');
+    expect(first).toContain(LIVE_RELOAD_PATH);
+    await fetch(new URL('talk.md', url));
+    expect(renders).toBe(1);
+    expect(server.getSources()).toContain(join(dir, 'chart.svg'));
+
+    expect(server.reload([join(dir, 'other.png')])).toEqual([]);
+    expect(server.reload([join(dir, 'chart.svg')])).toEqual([
+      join(dir, 'talk.md'),
+    ]);
+    const second = await (await fetch(new URL('talk.md', url))).text();
+    expect(second).toContain('render 2');
+  });
+
+  it('sends reload events to the browsers showing the deck', async () => {
+    const events = await fetch(
+      new URL(`${LIVE_RELOAD_PATH}?deck=%2Ftalk.md`, url),
+    );
+    const reader = events.body!.getReader();
+    const decoder = new TextDecoder();
+    await reader.read(); // Connected
+
+    server.reload();
+    const { value } = await reader.read();
+    expect(decoder.decode(value)).toContain('event: reload');
+    await reader.cancel();
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Local preview server with live reload
+ *
+ * Serves rendered decks and the files next to them (images, iframes) on
+ * localhost. Decks are rendered when requested and kept until one of
+ * their sources changes; then the browsers showing them reload through
+ * server-sent events. Bespoke HTML keeps the current slide in the URL
+ * hash, so a reload stays on the same slide.
+ */
+
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import { readFile, stat } from 'fs/promises';
+import { extname, isAbsolute, relative, resolve, sep } from 'path';
+import type { MimeTypeLookup } from './embedding';
+
+/** Path of the server-sent events endpoint */
+export const LIVE_RELOAD_PATH = '/__marp-extended/events';
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+
+/**
+ * Deck rendered for the preview
+ */
+export interface RenderedDeck {
+  /** Rendered HTML, null if rendering failed */
+  html: string | null;
+  /** Why rendering failed (shown in the browser) */
+  error?: string;
+  /** Files the deck was rendered from; a change reloads the deck */
+  sources: string[];
+}
+
+export interface PreviewServerOptions {
+  /** Folder served; decks and their files must be below it */
+  root: string;
+  /** Render a deck (absolute path of the markdown file) */
+  render: (deckPath: string) => Promise<RenderedDeck>;
+  /** Decks listed on the index page (absolute paths) */
+  listDecks: () => Promise<string[]>;
+  getMimeType: MimeTypeLookup;
+  /** Called after a deck was rendered, e.g. to watch its sources */
+  onRendered?: (deckPath: string, deck: RenderedDeck) => void;
+}
+
+/**
+ * Escape text for HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Add the live reload client to a page
+ *
+ * @param html - Page HTML
+ * @param deckUrl - URL path of the deck, whose reloads the page listens to
+ */
+export function injectLiveReload(html: string, deckUrl: string): string {
+  const eventsUrl = `${LIVE_RELOAD_PATH}?deck=${encodeURIComponent(deckUrl)}`;
+  const script =
+    `<script>new EventSource(${JSON.stringify(eventsUrl)})` +
+    `.addEventListener('reload', () => location.reload());</script>`;
+
+  const index = html.lastIndexOf('</body>');
+  return index === -1
+    ? html + script
+    : html.slice(0, index) + script + html.slice(index);
+}
+
+/**
+ * Resolve a request path to a file below the root
+ *
+ * @returns The absolute path, or null if it's outside the root or invalid
+ */
+export function resolveRequestPath(
+  root: string,
+  urlPath: string,
+): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(urlPath.split(/[?#]/)[0]);
+  } catch {
+    return null;
+  }
+  if (decoded.includes('\0')) return null;
+
+  const path = resolve(
+    root,
+    `.${decoded.startsWith('/') ? '' : '/'}${decoded}`,
+  );
+  const rel = relative(resolve(root), path);
+  if (rel.startsWith('..') || isAbsolute(rel)) return null;
+  return path;
+}
+
+/**
+ * URL path of a file below the root
+ */
+function toUrlPath(root: string, path: string): string {
+  return (
+    '/' +
+    relative(root, path)
+      .split(sep)
+      .map(part => encodeURIComponent(part))
+      .join('/')
+  );
+}
+
+/**
+ * Page shown when a deck couldn't be rendered
+ */
+function createErrorPage(deckName: string, message: string): string {
+  return (
+    '<!DOCTYPE html><html><head><meta charset="utf-8">' +
+    `<title>${escapeHtml(deckName)}</title></head><body>` +
+    `<h1>Couldn't render ${escapeHtml(deckName)}</h1>` +
+    `<pre>${escapeHtml(message)}</pre>` +
+    '<p>The page reloads when the deck changes.</p></body></html>'
+  );
+}
+
+/**
+ * Page listing the decks of the served folder
+ */
+function createIndexPage(root: string, decks: string[]): string {
+  const items = decks
+    .map(deck => {
+      const name = relative(root, deck);
+      return `<li><a href="${escapeHtml(toUrlPath(root, deck))}">${escapeHtml(name)}</a></li>`;
+    })
+    .join('');
+  return (
+    '<!DOCTYPE html><html><head><meta charset="utf-8">' +
+    '<title>Marp decks</title></head><body><h1>Marp decks</h1>' +
+    (decks.length > 0
+      ? `<ul>${items}</ul>`
+      : '<p>No decks with <code>marp: true</code> found.</p>') +
+    '</body></html>'
+  );
+}
+
+/**
+ * HTTP server for previewing decks
+ */
+export class PreviewServer {
+  private root: string;
+  private server: Server | null = null;
+  private decks = new Map<string, Promise<RenderedDeck>>();
+  private sources = new Map<string, string[]>();
+  private clients = new Map<string, Set<ServerResponse>>();
+
+  constructor(private options: PreviewServerOptions) {
+    this.root = resolve(options.root);
+  }
+
+  /**
+   * Start listening
+   *
+   * @param port - Port (0 picks a free one)
+   * @param host - Interface to listen on (default: localhost only)
+   * @returns The server's URL
+   */
+  listen(port: number, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolveUrl, reject) => {
+      const server = createServer((req, res) => {
+        this.handleRequest(req, res).catch(error => {
+          if (!res.headersSent) res.writeHead(500);
+          res.end(error instanceof Error ? error.message : String(error));
+        });
+      });
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        this.server = server;
+        const address = server.address() as AddressInfo;
+        const hostName =
+          address.family === 'IPv6' ? `[${address.address}]` : address.address;
+        resolveUrl(`http://${hostName}:${address.port}/`);
+      });
+    });
+  }
+
+  /**
+   * Files the rendered decks were rendered from
+   */
+  getSources(): string[] {
+    return [...new Set([...this.sources.values()].flat())];
+  }
+
+  /**
+   * Render again and reload the decks using any of the changed files
+   *
+   * @param changed - Changed files; all decks if not given
+   * @returns The reloaded decks
+   */
+  reload(changed?: string[]): string[] {
+    const changedSet = changed && new Set(changed.map(path => resolve(path)));
+    const reloaded: string[] = [];
+
+    for (const deckPath of new Set([
+      ...this.decks.keys(),
+      ...this.clients.keys(),
+    ])) {
+      const sources = this.sources.get(deckPath) ?? [deckPath];
+      if (changedSet && !sources.some(source => changedSet.has(source))) {
+        continue;
+      }
+      this.decks.delete(deckPath);
+      reloaded.push(deckPath);
+      for (const client of this.clients.get(deckPath) ?? []) {
+        client.write('event: reload\ndata: \n\n');
+      }
+    }
+
+    return reloaded;
+  }
+
+  /**
+   * Stop the server and disconnect the browsers
+   */
+  close(): Promise<void> {
+    for (const clients of this.clients.values()) {
+      for (const client of clients) client.end();
+    }
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise(resolveClose => server.close(() => resolveClose()));
+  }
+
+  private renderDeck(deckPath: string): Promise<RenderedDeck> {
+    let deck = this.decks.get(deckPath);
+    if (!deck) {
+      deck = this.options.render(deckPath).then(
+        rendered => {
+          this.sources.set(
+            deckPath,
+            rendered.sources.map(path => resolve(path)),
+          );
+          this.options.onRendered?.(deckPath, rendered);
+          return rendered;
+        },
+        (error: unknown): RenderedDeck => ({
+          html: null,
+          error: error instanceof Error ? error.message : String(error),
+          sources: [deckPath],
+        }),
+      );
+      this.decks.set(deckPath, deck);
+    }
+    return deck;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse) {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const headOnly = req.method === 'HEAD';
+
+    if (url.pathname === LIVE_RELOAD_PATH) {
+      const deckPath = resolveRequestPath(
+        this.root,
+        url.searchParams.get('deck') ?? '',
+      );
+      if (!deckPath) {
+        res.writeHead(400);
+        res.end();
+        return;
+      }
+      this.addClient(deckPath, res);
+      return;
+    }
+
+    // A single deck opens directly, otherwise the decks are listed
+    if (url.pathname === '/') {
+      const decks = await this.options.listDecks();
+      if (decks.length === 1) {
+        res.writeHead(302, { Location: toUrlPath(this.root, decks[0]) });
+        res.end();
+        return;
+      }
+      this.send(
+        res,
+        200,
+        'text/html; charset=utf-8',
+        createIndexPage(this.root, decks),
+      );
+      return;
+    }
+
+    const path = resolveRequestPath(this.root, url.pathname);
+    const stats = path ? await stat(path).catch(() => null) : null;
+    if (!path || !stats?.isFile()) {
+      this.send(res, 404, 'text/plain; charset=utf-8', 'Not found');
+      return;
+    }
+
+    if (MARKDOWN_EXTENSIONS.has(extname(path).toLowerCase())) {
+      const deck = await this.renderDeck(path);
+      const html =
+        deck.html ??
+        createErrorPage(
+          relative(this.root, path),
+          deck.error ?? 'Unknown error',
+        );
+      this.send(
+        res,
+        deck.html === null ? 500 : 200,
+        'text/html; charset=utf-8',
+        injectLiveReload(html, url.pathname),
+        headOnly,
+      );
+      return;
+    }
+
+    const type = this.options.getMimeType(path) ?? 'application/octet-stream';
+    this.send(res, 200, type, await readFile(path), headOnly);
+  }
+
+  private addClient(deckPath: string, res: ServerResponse) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    let clients = this.clients.get(deckPath);
+    if (!clients) {
+      clients = new Set();
+      this.clients.set(deckPath, clients);
+    }
+    clients.add(res);
+    res.on('close', () => clients.delete(res));
+  }
+
+  private send(
+    res: ServerResponse,
+    status: number,
+    type: string,
+    body: string | Buffer,
+    headOnly = false,
+  ) {
+    res.writeHead(status, {
+      'Content-Type': type,
+      'Content-Length': Buffer.byteLength(body),
+      'Cache-Control': 'no-store',
+    });
+    res.end(headOnly ? undefined : body);
+  }
+}
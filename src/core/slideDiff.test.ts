@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Marp } from '@marp-team/marp-core';
+import { sourceLinePlugin } from './markdownItPlugins';
+import { diffSlideHtml, stripSourceLines } from './slideDiff';
+
+// Slide HTML as the preview sees it: one <svg> per slide
+const renderSlides = (markdown: string): string[] => {
+  const { html } = new Marp({ inlineSVG: true })
+    .use(sourceLinePlugin)
+    .render(markdown);
+  return html.match(/<svg[\s\S]*?<\/svg>/g) ?? [];
+};
+
+describe('stripSourceLines', () => {
+  it('removes the source line attributes only', () => {
+    expect(
+      stripSourceLines(
+        '<h1 id="a" data-source-line="4" data-source-line-end="5">A</h1>',
+      ),
+    ).toBe('<h1 id="a">A</h1>');
+  });
+});
+
+describe('diffSlideHtml', () => {
+  const deck = ['# One', '# Two\n\ntext', '# Three\n\n- a\n- b', '# Four'];
+
+  it('keeps later slides when a line is inserted in the first slide', () => {
+    const before = renderSlides(deck.join('\n\n---\n\n'));
+    const after = renderSlides(
+      ['# One\n\nnew line', ...deck.slice(1)].join('\n\n---\n\n'),
+    );
+
+    expect(diffSlideHtml(before, after)).toEqual({
+      changed: [0],
+      moved: [1, 2, 3],
+    });
+  });
+
+  it('reports changed content and ignores identical slides', () => {
+    const before = renderSlides(deck.join('\n\n---\n\n'));
+    const after = renderSlides(
+      [...deck.slice(0, 2), '# Three\n\n- a\n- c', deck[3]].join('\n\n---\n\n'),
+    );
+
+    expect(diffSlideHtml(before, after)).toEqual({ changed: [2], moved: [] });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Diffing rendered slides for incremental preview updates
+ *
+ * The preview only replaces slides whose HTML changed. Source line
+ * attributes hold absolute line numbers, so a line inserted in one slide
+ * changes them in every later slide; they're left out of the comparison
+ * and patched in place instead.
+ */
+
+import { SOURCE_LINE_ATTR, SOURCE_LINE_END_ATTR } from './markdownItPlugins';
+
+const SOURCE_LINE_ATTRS_REGEX = new RegExp(
+  ` (?:${SOURCE_LINE_ATTR}|${SOURCE_LINE_END_ATTR})="\\d*"`,
+  'g',
+);
+
+/**
+ * Remove the source line attributes from rendered HTML
+ */
+export function stripSourceLines(html: string): string {
+  return html.replace(SOURCE_LINE_ATTRS_REGEX, '');
+}
+
+/**
+ * Slides to update, by index, among those in both renders
+ */
+export interface SlideHtmlDiff {
+  /** Slides whose content changed: replace them */
+  changed: number[];
+  /** Unchanged slides whose source lines moved: patch their attributes */
+  moved: number[];
+}
+
+/**
+ * Compare the slide HTML of two renders
+ *
+ * Slides beyond the shorter render are added or removed by the caller.
+ */
+export function diffSlideHtml(
+  previous: string[],
+  next: string[],
+): SlideHtmlDiff {
+  const diff: SlideHtmlDiff = { changed: [], moved: [] };
+  const count = Math.min(previous.length, next.length);
+
+  for (let i = 0; i < count; i++) {
+    if (previous[i] === next[i]) continue;
+    if (stripSourceLines(previous[i]) === stripSourceLines(next[i])) {
+      diff.moved.push(i);
+    } else {
+      diff.changed.push(i);
+    }
+  }
+  return diff;
+}
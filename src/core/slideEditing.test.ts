@@ -0,0 +1,274 @@
+import { describe, it, expect } from 'vitest';
+import {
+  rearrangeSlides,
+  setSlideHidden,
+  removeHiddenSlides,
+  insertSlide,
+  duplicateSlide,
+  deleteSlide,
+  moveSlide,
+  splitSlide,
+  mergeSlideWithNext,
+  selectSlides,
+  parseSlideRanges,
+  parseSlideSelection,
+  getLineChange,
+  type TextChange,
+} from './slideEditing';
+import { computeSlideRanges } from './slides';
+
+const deck =
+  '---\nmarp: true\n---\n# A\n<!-- note A -->\n\n---\n\n# B\n\n---\n# C\n';
+
+// Apply a change the way an editor would
+function applyChange(text: string, change: TextChange | null): string {
+  if (!change) return text;
+  const lines = text.split('\n');
+  const offset = (pos: TextChange['from']) =>
+    lines.slice(0, pos.line).reduce((sum, line) => sum + line.length + 1, 0) +
+    pos.ch;
+  return (
+    text.slice(0, offset(change.from)) +
+    change.text +
+    text.slice(offset(change.to))
+  );
+}
+
+describe('rearrangeSlides', () => {
+  it('keeps the deck unchanged for the identity order', () => {
+    expect(rearrangeSlides(deck, [0, 1, 2])).toBe(deck);
+  });
+
+  it('moves slides with their notes and keeps the frontmatter', () => {
+    expect(rearrangeSlides(deck, [2, 0, 1])).toBe(
+      '---\nmarp: true\n---\n# C\n\n---\n# A\n<!-- note A -->\n\n---\n\n# B\n',
+    );
+  });
+
+  it('duplicates and deletes slides', () => {
+    expect(rearrangeSlides(deck, [0, 0])).toBe(
+      '---\nmarp: true\n---\n# A\n<!-- note A -->\n\n---\n# A\n<!-- note A -->\n',
+    );
+  });
+
+  it('separates moved paragraphs from the ruler by a blank line', () => {
+    const result = rearrangeSlides('Text A\n\n---\nText B', [1, 0]);
+    expect(result).toBe('Text B\n\n---\nText A');
+    expect(computeSlideRanges(result)).toHaveLength(2);
+  });
+
+  it('does not add separators before slides split by headingDivider', () => {
+    const markdown = '---\nheadingDivider: 1\n---\n# A\na\n# B\nb\n';
+    const result = rearrangeSlides(markdown, [1, 0]);
+    expect(result).toBe('---\nheadingDivider: 1\n---\n# B\nb\n\n# A\na\n');
+    expect(computeSlideRanges(result)).toHaveLength(2);
+  });
+});
+
+describe('setSlideHidden', () => {
+  it('adds a scoped hide directive', () => {
+    const result = setSlideHidden(deck, 1, true);
+    expect(result).toContain('---\n<!-- _hide: true -->\n\n# B');
+    expect(computeSlideRanges(result)[1].hidden).toBe(true);
+  });
+
+  it('removes the hide directive again', () => {
+    const hidden = setSlideHidden(deck, 1, true);
+    expect(setSlideHidden(hidden, 1, false)).toBe(deck);
+  });
+
+  it('overrides inherited hide directives', () => {
+    const markdown = '# A\n\n---\n<!-- hide: true -->\n# B\n\n---\n# C';
+    const result = setSlideHidden(markdown, 2, false);
+    expect(result).toContain('<!-- _hide: false -->\n# C');
+    expect(computeSlideRanges(result)[2].hidden).toBeUndefined();
+  });
+});
+
+describe('removeHiddenSlides', () => {
+  it('removes hidden slides and hide directives', () => {
+    const markdown =
+      '# A\n\n---\n<!-- _hide: true -->\n# B\n\n---\n<!-- _hide: false -->\n# C';
+    expect(removeHiddenSlides(markdown)).toBe('# A\n\n---\n# C');
+  });
+
+  it('keeps the separator of the next slide when the first is hidden', () => {
+    const markdown =
+      '---\nmarp: true\n---\n<!-- _hide: true -->\n# A\n\n---\n# B';
+    expect(removeHiddenSlides(markdown)).toBe('---\nmarp: true\n---\n# B');
+  });
+
+  it('returns decks without hidden slides unchanged', () => {
+    expect(removeHiddenSlides(deck)).toBe(deck);
+  });
+});
+
+describe('selectSlides', () => {
+  it('keeps the frontmatter and the selected slides', () => {
+    expect(selectSlides(deck, [0, 2])).toBe(
+      '---\nmarp: true\n---\n# A\n<!-- note A -->\n\n---\n# C\n',
+    );
+  });
+
+  it('moves directives and styles of left-out slides into kept ones', () => {
+    const markdown = [
+      '<!-- theme: gaia -->',
+      '<!-- _class: lead -->',
+      '<style>',
+      'h1 { color: red; }',
+      '</style>',
+      '# A',
+      '<!-- Speaker: say hello -->',
+      '',
+      '---',
+      '<!-- backgroundColor: black -->',
+      '# B',
+      '',
+      '---',
+      '# C',
+    ].join('\n');
+
+    expect(selectSlides(markdown, [2])).toBe(
+      [
+        '<!--',
+        'theme: gaia',
+        '-->',
+        '<style>',
+        'h1 { color: red; }',
+        '</style>',
+        '<!--',
+        'backgroundColor: black',
+        '-->',
+        '# C',
+      ].join('\n'),
+    );
+  });
+
+  it('shows selected hidden slides', () => {
+    const markdown = '# A\n\n---\n<!-- _hide: true -->\n# B';
+    expect(selectSlides(markdown, [1])).toBe('# B');
+  });
+});
+
+describe('parseSlideSelection', () => {
+  it('parses ranges and single slides to sorted 0-indexed slides', () => {
+    expect(parseSlideSelection('1-3, 7', 10)).toEqual([0, 1, 2, 6]);
+    expect(parseSlideSelection('5,2,2-3', 5)).toEqual([1, 2, 4]);
+  });
+
+  it('rejects invalid selections', () => {
+    expect(parseSlideSelection('', 10)).toBeNull();
+    expect(parseSlideSelection('0', 10)).toBeNull();
+    expect(parseSlideSelection('3-1', 10)).toBeNull();
+    expect(parseSlideSelection('1-', 10)).toBeNull();
+  });
+
+  it('rejects slides past the end of the deck', () => {
+    expect(parseSlideSelection('2-4', 3)).toBeNull();
+    expect(parseSlideSelection('1,4', 3)).toBeNull();
+  });
+
+  it('checks huge ranges without expanding them', () => {
+    expect(parseSlideSelection('1-1000000000', 3)).toBeNull();
+    expect(parseSlideRanges('1-1000000000, 3')).toEqual([
+      { first: 1, last: 1000000000 },
+      { first: 3, last: 3 },
+    ]);
+  });
+});
+
+describe('slide editing commands', () => {
+  const lineOf = (markdown: string, line: number) => markdown.split('\n')[line];
+
+  it('inserts an empty slide after a slide', () => {
+    const result = insertSlide(deck, 0, 'after')!;
+    expect(result.markdown).toBe(
+      '---\nmarp: true\n---\n# A\n<!-- note A -->\n\n---\n\n---\n\n# B\n\n---\n# C\n',
+    );
+    expect(result).toMatchObject({ slideIndex: 1, line: 7 });
+    expect(computeSlideRanges(result.markdown)).toHaveLength(4);
+  });
+
+  it('inserts an empty slide before the first slide', () => {
+    const result = insertSlide(deck, 0, 'before')!;
+    expect(result.markdown.startsWith('---\nmarp: true\n---\n\n---\n# A')).toBe(
+      true,
+    );
+    expect(result).toMatchObject({ slideIndex: 0, line: 3 });
+  });
+
+  it('duplicates a slide and points to the copy', () => {
+    const result = duplicateSlide(deck, 2)!;
+    expect(result.markdown.endsWith('# C\n\n---\n# C\n')).toBe(true);
+    expect(lineOf(result.markdown, result.line)).toBe('# C');
+    expect(result.slideIndex).toBe(3);
+  });
+
+  it('deletes a slide but never the last one', () => {
+    const result = deleteSlide(deck, 1)!;
+    expect(result.markdown).toBe(
+      '---\nmarp: true\n---\n# A\n<!-- note A -->\n\n---\n# C\n',
+    );
+    expect(deleteSlide('# Only', 0)).toBeNull();
+  });
+
+  it('moves slides up and down', () => {
+    const result = moveSlide(deck, 2, -1)!;
+    expect(result.markdown).toBe(rearrangeSlides(deck, [0, 2, 1]));
+    expect(lineOf(result.markdown, result.line)).toBe('# C');
+    expect(moveSlide(deck, 2, 1)).toBeNull();
+  });
+
+  it('splits a slide at a line', () => {
+    const result = splitSlide('# A\ntext\nmore', 2)!;
+    expect(result.markdown).toBe('# A\ntext\n\n---\nmore');
+    expect(result).toMatchObject({ slideIndex: 1, line: 4 });
+  });
+
+  it('does not split inside fences or the frontmatter', () => {
+    expect(splitSlide('# A\n```\ncode\n```', 2)).toBeNull();
+    expect(splitSlide(deck, 1)).toBeNull();
+  });
+
+  it('merges a slide with the next one', () => {
+    const result = mergeSlideWithNext(deck, 0)!;
+    expect(result.markdown).toBe(
+      '---\nmarp: true\n---\n# A\n<!-- note A -->\n\n\n# B\n\n---\n# C\n',
+    );
+    expect(mergeSlideWithNext(deck, 2)).toBeNull();
+  });
+
+  it('does not merge into slides split by headingDivider', () => {
+    expect(
+      mergeSlideWithNext('<!-- headingDivider: 1 -->\n# A\n# B', 0),
+    ).toBeNull();
+  });
+});
+
+describe('getLineChange', () => {
+  const cases: Array<[string, string, string]> = [
+    ['replaces a middle line', 'a\nb\nc', 'a\nx\nc'],
+    ['inserts lines', 'a\nc', 'a\nb\nc'],
+    ['removes the first line', 'a\nb', 'b'],
+    ['removes the last line', 'a\nb', 'a'],
+    ['appends lines', 'a', 'a\nb\nc'],
+    ['replaces everything', 'a', 'b'],
+    ['adds a trailing newline', 'a\nb', 'a\nb\n'],
+  ];
+
+  it.each(cases)('%s', (_, oldText, newText) => {
+    expect(applyChange(oldText, getLineChange(oldText, newText))).toBe(newText);
+  });
+
+  it('limits the change to differing lines', () => {
+    expect(getLineChange('a\nb\nc', 'a\nx\nc')).toEqual({
+      from: { line: 1, ch: 0 },
+      to: { line: 2, ch: 0 },
+      text: 'x\n',
+    });
+  });
+
+  it('returns null for equal texts', () => {
+    expect(getLineChange('a', 'a')).toBeNull();
+  });
+});
@@ -0,0 +1,717 @@
+/**
+ * Slide-level markdown editing
+ *
+ * Rewrites the source markdown of a deck slide by slide (reorder,
+ * duplicate, delete, hide, select) based on the slide ranges from slides.ts.
+ * Each slide is moved as a whole, including its local directives and
+ * speaker notes; the frontmatter stays in place.
+ */
+
+import { scanMarkdown } from './markdownScanner';
+import { computeSlideRanges, type SlideRange } from './slides';
+
+/** Separator inserted where a slide needs one but never had one */
+const DEFAULT_SEPARATOR = '---';
+
+/** Directive comment hiding a single slide */
+const HIDE_COMMENT = '<!-- _hide: true -->';
+
+/** Full-line `hide` directive comment (scoped or not) */
+const HIDE_COMMENT_REGEX = /^\s*<!--\s*_?hide\s*:\s*\w+\s*-->\s*$/;
+
+/** ATX heading, capturing the marker to get the level */
+const HEADING_REGEX = /^ {0,3}(#{1,6})(?:\s|$)/;
+
+/**
+ * A slide's source, as cut out of the deck
+ */
+interface SlideSource {
+  /** Original slide index */
+  index: number;
+  /**
+   * Separator line that opens the slide when it isn't the first one,
+   * or null if the slide opens itself (heading split by headingDivider)
+   */
+  separator: string | null;
+  /** Content lines (after the separator) */
+  lines: string[];
+}
+
+/**
+ * A deck's source, split into slides
+ */
+interface DeckSource {
+  /** Lines before the first slide (frontmatter) */
+  head: string[];
+  slides: SlideSource[];
+  /** Number of slides in the original deck */
+  originalCount: number;
+  trailingNewline: boolean;
+}
+
+/**
+ * Get the heading level of a line, or 0 if it is no ATX heading
+ */
+function getHeadingLevel(line: string | undefined): number {
+  const match = line?.match(HEADING_REGEX);
+  return match ? match[1].length : 0;
+}
+
+/**
+ * Get the first non-blank line of a slide
+ */
+function firstContentLine(lines: string[]): string | undefined {
+  return lines.find(line => line.trim() !== '');
+}
+
+/**
+ * Cut the markdown into head and slides along the slide ranges
+ */
+function splitDeck(markdown: string, ranges: SlideRange[]): DeckSource {
+  const trailingNewline = markdown.endsWith('\n');
+  const lines = markdown.split('\n');
+  if (trailingNewline) lines.pop();
+
+  const slides: SlideSource[] = ranges.map(range => ({
+    index: range.index,
+    separator: range.separatorLine === null ? null : lines[range.separatorLine],
+    lines: lines.slice(range.startLine, range.endLine),
+  }));
+
+  // The first slide has no separator of its own. It gets one when moved,
+  // unless headingDivider would split it at its heading anyway.
+  if (slides.length > 0) {
+    const dividedLevels = slides
+      .filter((slide, i) => i > 0 && slide.separator === null)
+      .map(slide => getHeadingLevel(firstContentLine(slide.lines)));
+    const level = getHeadingLevel(firstContentLine(slides[0].lines));
+    const splitByHeading =
+      level > 0 &&
+      dividedLevels.length > 0 &&
+      level <= Math.max(...dividedLevels);
+    slides[0].separator = splitByHeading ? null : DEFAULT_SEPARATOR;
+  }
+
+  return {
+    head: lines.slice(0, ranges[0]?.startLine ?? lines.length),
+    slides,
+    originalCount: slides.length,
+    trailingNewline,
+  };
+}
+
+/**
+ * Join head and slides back into markdown
+ *
+ * Slides that keep their original predecessor are joined exactly as
+ * before; elsewhere a blank line is ensured before the separator, so a
+ * moved paragraph can't turn `---` into a setext heading underline.
+ */
+function joinDeck(deck: DeckSource): string {
+  return joinDeckWithLines(deck).text;
+}
+
+/**
+ * Same as joinDeck(), but also returns the first content line of each slide
+ */
+function joinDeckWithLines(deck: DeckSource): {
+  text: string;
+  startLines: number[];
+} {
+  const output = [...deck.head];
+  const startLines: number[] = [];
+
+  deck.slides.forEach((slide, position) => {
+    if (position > 0) {
+      const previous = deck.slides[position - 1];
+      const moved = previous.index !== slide.index - 1;
+      const last = output[output.length - 1];
+
+      if (moved && last !== undefined && last.trim() !== '') {
+        output.push('');
+      }
+      if (slide.separator !== null) {
+        output.push(slide.separator);
+      }
+    }
+    startLines.push(output.length);
+    output.push(...slide.lines);
+  });
+
+  // Moving the last slide may leave its trailing blank lines elsewhere
+  const lastSlide = deck.slides[deck.slides.length - 1];
+  if (lastSlide && lastSlide.index !== deck.originalCount - 1) {
+    while (output.length > 0 && output[output.length - 1].trim() === '') {
+      output.pop();
+    }
+  }
+
+  return {
+    text: output.join('\n') + (deck.trailingNewline ? '\n' : ''),
+    startLines,
+  };
+}
+
+/**
+ * Rearrange the slides of a deck
+ *
+ * `order` lists the original slide indices in their new order. Indices may
+ * repeat (duplicating a slide) or be left out (deleting it).
+ *
+ * @example
+ * rearrangeSlides('# A\n\n---\n\n# B\n', [1, 0])
+ * // => '\n# B\n\n---\n# A\n'
+ */
+export function rearrangeSlides(
+  markdown: string,
+  order: number[],
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): string {
+  const deck = splitDeck(markdown, ranges);
+  const slides = order
+    .filter(index => index >= 0 && index < deck.slides.length)
+    .map(index => ({
+      ...deck.slides[index],
+      lines: [...deck.slides[index].lines],
+    }));
+
+  return joinDeck({ ...deck, slides });
+}
+
+/**
+ * Remove full-line `hide` directive comments from slide lines
+ */
+function removeHideComments(lines: string[]): string[] {
+  const blocks = scanMarkdown(lines.join('\n'));
+  const removed = new Set<number>();
+
+  for (const block of blocks) {
+    if (block.kind === 'comment' && HIDE_COMMENT_REGEX.test(block.text)) {
+      removed.add(block.startLine);
+    }
+  }
+
+  return lines.filter((_, i) => !removed.has(i));
+}
+
+/**
+ * Hide or show a slide by adding or removing a `<!-- _hide: true -->`
+ * directive comment at its start
+ *
+ * Showing a slide that inherits `hide: true` from an earlier non-scoped
+ * directive adds `<!-- _hide: false -->` instead.
+ */
+export function setSlideHidden(
+  markdown: string,
+  index: number,
+  hidden: boolean,
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): string {
+  const range = ranges[index];
+  if (!range || Boolean(range.hidden) === hidden) return markdown;
+
+  const deck = splitDeck(markdown, ranges);
+  const slide = deck.slides[index];
+
+  if (hidden) {
+    slide.lines = [HIDE_COMMENT, ...slide.lines];
+  } else {
+    const lines = removeHideComments(slide.lines);
+    slide.lines =
+      lines.length === slide.lines.length
+        ? [HIDE_COMMENT.replace('true', 'false'), ...lines]
+        : lines;
+  }
+
+  return joinDeck(deck);
+}
+
+/**
+ * Remove hidden slides (and leftover `hide` directives) for exporting
+ *
+ * The parser that computed the ranges must know the `hide` directive
+ * (hiddenSlidePlugin); the default parser does.
+ */
+export function removeHiddenSlides(
+  markdown: string,
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): string {
+  if (!ranges.some(range => range.hidden)) return markdown;
+
+  const deck = splitDeck(markdown, ranges);
+  const slides = deck.slides
+    .filter((_, i) => !ranges[i].hidden)
+    .map(slide => ({ ...slide, lines: removeHideComments(slide.lines) }));
+
+  return joinDeck({ ...deck, slides });
+}
+
+/** Marp global directives: apply to the whole deck wherever they are set */
+const GLOBAL_DIRECTIVES = new Set([
+  'theme',
+  'style',
+  'headingDivider',
+  'size',
+  'math',
+  'lang',
+  'title',
+  'description',
+  'author',
+  'image',
+  'keywords',
+  'url',
+  'marp',
+]);
+
+/** Marp local directives: inherited by the following slides unless scoped */
+const LOCAL_DIRECTIVES = new Set([
+  'paginate',
+  'header',
+  'footer',
+  'class',
+  'backgroundColor',
+  'backgroundImage',
+  'backgroundPosition',
+  'backgroundRepeat',
+  'backgroundSize',
+  'color',
+  'transition',
+  'hide',
+]);
+
+/** Top-level `key:` line of a directive comment (`_` = scoped) */
+const DIRECTIVE_KEY_REGEX = /^(_?)([A-Za-z]+)\s*:/;
+
+/** Unscoped <style> element, which styles the whole deck */
+const GLOBAL_STYLE_REGEX = /<style(?![^>]*\bscoped\b)[^>]*>[\s\S]*?<\/style>/gi;
+
+/**
+ * Directives and styles a left-out slide passes on to the rest of the deck
+ */
+interface CarriedLines {
+  /** Global directives and unscoped styles (apply anywhere) */
+  global: string[];
+  /** Local directives (apply from the next slide that is kept) */
+  local: string[];
+}
+
+/**
+ * Split a directive comment into its `key: value` entries
+ *
+ * Returns null if the comment holds anything but known directives
+ * (e.g. speaker notes).
+ */
+function parseDirectiveComment(
+  text: string,
+): { key: string; scoped: boolean; lines: string[] }[] | null {
+  // `<!-- key: value -->` on one line, or top-level keys on their own lines
+  const body = text
+    .replace(/^\s*<!--[ \t]*/, '')
+    .replace(/-->\s*$/, '');
+  const entries: { key: string; scoped: boolean; lines: string[] }[] = [];
+
+  for (const line of body.split('\n')) {
+    const match = DIRECTIVE_KEY_REGEX.exec(line);
+    if (match) {
+      const [, scope, key] = match;
+      if (!GLOBAL_DIRECTIVES.has(key) && !LOCAL_DIRECTIVES.has(key)) {
+        return null;
+      }
+      entries.push({ key, scoped: scope === '_', lines: [line.trim()] });
+    } else if (entries.length > 0) {
+      // Indented continuation of a multi-line value (e.g. style: |)
+      entries[entries.length - 1].lines.push(line);
+    } else if (line.trim() !== '') {
+      return null;
+    }
+  }
+
+  return entries.length > 0 ? entries : null;
+}
+
+/**
+ * Collect what a left-out slide passes on: global directives, inherited
+ * local directives (but not `hide`) and unscoped <style> elements
+ */
+function collectCarriedLines(lines: string[]): CarriedLines {
+  const carried: CarriedLines = { global: [], local: [] };
+  const toComment = (entryLines: string[]) =>
+    ['<!--', ...entryLines, '-->'];
+
+  for (const block of scanMarkdown(lines.join('\n'))) {
+    if (block.kind === 'comment') {
+      const entries = parseDirectiveComment(block.text) ?? [];
+      const global = entries.filter(e => GLOBAL_DIRECTIVES.has(e.key));
+      const local = entries.filter(
+        e => LOCAL_DIRECTIVES.has(e.key) && !e.scoped && e.key !== 'hide',
+      );
+      if (global.length > 0) {
+        carried.global.push(...toComment(global.flatMap(e => e.lines)));
+      }
+      if (local.length > 0) {
+        carried.local.push(...toComment(local.flatMap(e => e.lines)));
+      }
+    } else if (block.kind === 'text') {
+      for (const match of block.text.matchAll(GLOBAL_STYLE_REGEX)) {
+        carried.global.push(...match[0].split('\n'));
+      }
+    }
+  }
+
+  return carried;
+}
+
+/**
+ * Keep only the given slides (0-indexed) of a deck, e.g. to export a range
+ *
+ * The frontmatter stays; global directives, inherited local directives and
+ * unscoped <style> elements of the left-out slides are moved into the kept
+ * ones, so they look the same as in the full deck. Kept slides are shown
+ * even if they are hidden.
+ *
+ * @example
+ * selectSlides('<!-- theme: gaia -->\n# A\n\n---\n\n# B\n', [1])
+ * // => '<!--\ntheme: gaia\n-->\n\n# B\n'
+ */
+export function selectSlides(
+  markdown: string,
+  slides: number[],
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): string {
+  const deck = splitDeck(markdown, ranges);
+  const selected = new Set(slides);
+  const global: string[] = [];
+  let local: string[] = [];
+  const kept: SlideSource[] = [];
+
+  for (const slide of deck.slides) {
+    if (!selected.has(slide.index)) {
+      const carried = collectCarriedLines(slide.lines);
+      global.push(...carried.global);
+      local.push(...carried.local);
+      continue;
+    }
+
+    let lines = removeHideComments(slide.lines);
+    if (local.length > 0) {
+      // A slide started by headingDivider begins at its heading; anything
+      // before it would end up on the previous slide
+      const at =
+        kept.length > 0 && slide.separator === null
+          ? lines.findIndex(line => line.trim() !== '') + 1
+          : 0;
+      lines = [...lines.slice(0, at), ...local, ...lines.slice(at)];
+      local = [];
+    }
+    kept.push({ ...slide, lines });
+  }
+
+  if (kept.length > 0 && global.length > 0) {
+    kept[0].lines = [...global, ...kept[0].lines];
+  }
+
+  return joinDeck({ ...deck, slides: kept });
+}
+
+/**
+ * Slides picked by one part of a slide selection (1-indexed, inclusive)
+ */
+export interface SlideSelectionRange {
+  first: number;
+  last: number;
+}
+
+/**
+ * Parse the ranges of a slide selection like `1-3,7` (1-indexed, as
+ * numbered in the preview) without expanding them
+ *
+ * @returns The ranges in order, or null if the text isn't a valid selection
+ */
+export function parseSlideRanges(text: string): SlideSelectionRange[] | null {
+  const ranges: SlideSelectionRange[] = [];
+
+  for (const part of text.split(',')) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!match) return null;
+
+    const first = Number(match[1]);
+    const last = match[2] !== undefined ? Number(match[2]) : first;
+    if (first < 1 || last < first) return null;
+    ranges.push({ first, last });
+  }
+
+  return ranges;
+}
+
+/**
+ * Parse a slide selection like `1-3,7` for a deck
+ *
+ * @param slideCount - Slides in the deck; ranges are checked against it
+ * before they're expanded
+ * @returns Sorted 0-indexed slides without duplicates, or null if the
+ * text isn't a valid selection or goes past the last slide
+ */
+export function parseSlideSelection(
+  text: string,
+  slideCount: number,
+): number[] | null {
+  const ranges = parseSlideRanges(text);
+  if (!ranges || ranges.some(({ last }) => last > slideCount)) return null;
+
+  const slides = new Set<number>();
+  for (const { first, last } of ranges) {
+    for (let slide = first; slide <= last; slide++) slides.add(slide - 1);
+  }
+
+  return [...slides].sort((a, b) => a - b);
+}
+
+/**
+ * Result of a slide editing command
+ */
+export interface SlideEditResult {
+  markdown: string;
+  /** Index of the affected slide in the new markdown */
+  slideIndex: number;
+  /** First content line of the affected slide in the new markdown */
+  line: number;
+}
+
+/**
+ * Rearrange slides and report where the slide at `position` ended up
+ */
+function editSlides(
+  deck: DeckSource,
+  slides: SlideSource[],
+  position: number,
+): SlideEditResult {
+  const { text, startLines } = joinDeckWithLines({ ...deck, slides });
+  const slideIndex = Math.min(Math.max(position, 0), slides.length - 1);
+  return { markdown: text, slideIndex, line: startLines[slideIndex] ?? 0 };
+}
+
+/**
+ * Copy a slide so it can be placed twice
+ */
+function copySlide(slide: SlideSource): SlideSource {
+  return { ...slide, lines: [...slide.lines] };
+}
+
+/**
+ * Insert an empty slide before or after the slide at index
+ */
+export function insertSlide(
+  markdown: string,
+  index: number,
+  placement: 'before' | 'after',
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): SlideEditResult | null {
+  if (!ranges[index]) return null;
+
+  const deck = splitDeck(markdown, ranges);
+  const position = placement === 'before' ? index : index + 1;
+  const slides = deck.slides.map(copySlide);
+  // Index -1 never follows its predecessor, so it's always separated cleanly
+  slides.splice(position, 0, {
+    index: -1,
+    separator: DEFAULT_SEPARATOR,
+    lines: [''],
+  });
+
+  return editSlides(deck, slides, position);
+}
+
+/**
+ * Duplicate the slide at index (the copy follows the original)
+ */
+export function duplicateSlide(
+  markdown: string,
+  index: number,
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): SlideEditResult | null {
+  if (!ranges[index]) return null;
+
+  const deck = splitDeck(markdown, ranges);
+  const slides = deck.slides.map(copySlide);
+  slides.splice(index + 1, 0, copySlide(deck.slides[index]));
+
+  return editSlides(deck, slides, index + 1);
+}
+
+/**
+ * Delete the slide at index (a deck keeps at least one slide)
+ */
+export function deleteSlide(
+  markdown: string,
+  index: number,
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): SlideEditResult | null {
+  if (!ranges[index] || ranges.length <= 1) return null;
+
+  const deck = splitDeck(markdown, ranges);
+  const slides = deck.slides.filter((_, i) => i !== index).map(copySlide);
+
+  return editSlides(deck, slides, index);
+}
+
+/**
+ * Swap the slide at index with its previous (-1) or next (1) neighbour
+ */
+export function moveSlide(
+  markdown: string,
+  index: number,
+  direction: -1 | 1,
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): SlideEditResult | null {
+  const target = index + direction;
+  if (!ranges[index] || !ranges[target]) return null;
+
+  const deck = splitDeck(markdown, ranges);
+  const slides = deck.slides.map(copySlide);
+  [slides[index], slides[target]] = [slides[target], slides[index]];
+
+  return editSlides(deck, slides, target);
+}
+
+/**
+ * Check if a line of the markdown is inside a fence or multi-line comment
+ * (not counting its opening line)
+ */
+function isInsideBlock(markdown: string, line: number): boolean {
+  return scanMarkdown(markdown).some(
+    block =>
+      (block.kind === 'fence' || block.kind === 'comment') &&
+      line > block.startLine &&
+      line < block.endLine,
+  );
+}
+
+/**
+ * Split the slide containing the line into two, the second one starting
+ * at that line
+ *
+ * Returns null for lines in the frontmatter, inside fences or comments,
+ * and at the very start of a slide (nothing to split off).
+ */
+export function splitSlide(
+  markdown: string,
+  line: number,
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): SlideEditResult | null {
+  const range = ranges.find(r => line >= r.startLine && line < r.endLine);
+  if (!range || line === range.startLine) return null;
+  if (isInsideBlock(markdown, line)) return null;
+
+  const deck = splitDeck(markdown, ranges);
+  const slides = deck.slides.map(copySlide);
+  const slide = slides[range.index];
+  const offset = line - range.startLine;
+
+  const second: SlideSource = {
+    index: -1,
+    separator: DEFAULT_SEPARATOR,
+    lines: slide.lines.slice(offset),
+  };
+  slide.lines = slide.lines.slice(0, offset);
+  slides.splice(range.index + 1, 0, second);
+
+  return editSlides(deck, slides, range.index + 1);
+}
+
+/**
+ * Merge the slide at index with the next one by removing the separator
+ *
+ * Returns null for the last slide and for slides started by headingDivider
+ * (the heading would split them again).
+ */
+export function mergeSlideWithNext(
+  markdown: string,
+  index: number,
+  ranges: SlideRange[] = computeSlideRanges(markdown),
+): SlideEditResult | null {
+  const next = ranges[index + 1];
+  if (!ranges[index] || !next || next.separatorLine === null) return null;
+
+  const deck = splitDeck(markdown, ranges);
+  const slides = deck.slides.map(copySlide);
+  slides[index].lines = [...slides[index].lines, ...slides[index + 1].lines];
+  slides.splice(index + 1, 1);
+
+  return editSlides(deck, slides, index);
+}
+
+/**
+ * Position in a text (0-indexed line and character)
+ */
+export interface TextPosition {
+  line: number;
+  ch: number;
+}
+
+/**
+ * Replacement turning one text into another
+ */
+export interface TextChange {
+  from: TextPosition;
+  to: TextPosition;
+  text: string;
+}
+
+/**
+ * Get a single replacement that turns oldText into newText, limited to the
+ * lines that differ (so editors keep cursor, folds and undo granularity
+ * outside of it). Returns null if the texts are equal.
+ *
+ * @example
+ * getLineChange('a\nb\nc', 'a\nx\nc')
+ * // => { from: { line: 1, ch: 0 }, to: { line: 2, ch: 0 }, text: 'x\n' }
+ */
+export function getLineChange(
+  oldText: string,
+  newText: string,
+): TextChange | null {
+  if (oldText === newText) return null;
+
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const maxCommon = Math.min(oldLines.length, newLines.length);
+
+  let prefix = 0;
+  while (prefix < maxCommon && oldLines[prefix] === newLines[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < maxCommon - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middle = newLines.slice(prefix, newLines.length - suffix);
+  const oldEnd = oldLines.length - suffix;
+
+  if (suffix > 0) {
+    // Replace whole lines up to the start of the common suffix
+    return {
+      from: { line: prefix, ch: 0 },
+      to: { line: oldEnd, ch: 0 },
+      text: middle.map(line => `${line}\n`).join(''),
+    };
+  }
+
+  // No common suffix: replace up to the end of the text
+  const lastLine = oldLines.length - 1;
+  const end = { line: lastLine, ch: oldLines[lastLine].length };
+
+  if (prefix === 0) {
+    return { from: { line: 0, ch: 0 }, to: end, text: middle.join('\n') };
+  }
+
+  // Start at the end of the last common line to include its line break
+  return {
+    from: { line: prefix - 1, ch: oldLines[prefix - 1].length },
+    to: end,
+    text: middle.length > 0 ? `\n${middle.join('\n')}` : '',
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { computeSlideRanges, getSlideIndexForLine } from './slides';
+import { rewriteBlocks } from './markdownScanner';
+import { preprocessForRenderMapped } from './preprocessor';
+
+const starts = (markdown: string) =>
+  computeSlideRanges(markdown).map(range => range.startLine);
+
+describe('computeSlideRanges', () => {
+  it('returns a single slide for markdown without separators', () => {
+    expect(computeSlideRanges('# Title\n\nText')).toEqual([
+      { index: 0, separatorLine: null, startLine: 0, endLine: 3 },
+    ]);
+  });
+
+  it('starts the first slide after frontmatter', () => {
+    const ranges = computeSlideRanges('---\nmarp: true\n---\n# A\n---\n# B');
+    expect(ranges).toEqual([
+      { index: 0, separatorLine: null, startLine: 3, endLine: 4 },
+      { index: 1, separatorLine: 4, startLine: 5, endLine: 6 },
+    ]);
+  });
+
+  it('recognizes *** and ___ separators', () => {
+    expect(starts('# A\n\n***\n# B\n\n___\n# C')).toEqual([0, 3, 6]);
+  });
+
+  it('ignores rulers inside fences of any kind', () => {
+    const markdown = '# A\n````\n```\n---\n```\n````\n~~~\n---\n~~~\n---\n# B';
+    expect(starts(markdown)).toEqual([0, 10]);
+  });
+
+  it('ignores rulers nested in containers and blockquotes', () => {
+    const markdown =
+      '# A\n::: box\n\n---\n\n:::\n> quote\n>\n> ---\n\n---\n# B';
+    expect(starts(markdown)).toEqual([0, 11]);
+  });
+
+  it('honors headingDivider from frontmatter', () => {
+    const markdown =
+      '---\nmarp: true\nheadingDivider: 2\n---\n# A\ntext\n## B\n### C';
+    expect(computeSlideRanges(markdown)).toEqual([
+      { index: 0, separatorLine: null, startLine: 4, endLine: 6 },
+      { index: 1, separatorLine: null, startLine: 6, endLine: 8 },
+    ]);
+  });
+
+  it('honors headingDivider from directive comments', () => {
+    const markdown = '<!-- headingDivider: 1 -->\n# A\n# B';
+    expect(starts(markdown)).toEqual([0, 2]);
+  });
+
+  it('keeps the empty slide Marp creates for a ruler before a divided heading', () => {
+    const markdown = '---\nheadingDivider: 1\n---\n# A\n\n---\n# B';
+    expect(computeSlideRanges(markdown)).toEqual([
+      { index: 0, separatorLine: null, startLine: 3, endLine: 5 },
+      { index: 1, separatorLine: 5, startLine: 6, endLine: 6 },
+      { index: 2, separatorLine: null, startLine: 6, endLine: 7 },
+    ]);
+  });
+
+  it('maps ranges of preprocessed content back to source lines', () => {
+    const mapped = rewriteBlocks('# A\n```x\n1\n2\n```\n\n---\n# B', block =>
+      block.kind === 'fence' ? 'X' : undefined,
+    );
+    expect(computeSlideRanges(mapped)).toEqual([
+      { index: 0, separatorLine: null, startLine: 0, endLine: 6 },
+      { index: 1, separatorLine: 6, startLine: 7, endLine: 8 },
+    ]);
+  });
+
+  it('splits at a ruler after directive shorthand once preprocessed', async () => {
+    // Raw, the ruler underlines the `///` line as a heading
+    const markdown = '# A\n/// lead\n---\n# B';
+    expect(starts(markdown)).toEqual([0]);
+
+    const mapped = await preprocessForRenderMapped(markdown, {
+      enableDirectives: true,
+    });
+    expect(computeSlideRanges(mapped)).toEqual([
+      { index: 0, separatorLine: null, startLine: 0, endLine: 2 },
+      { index: 1, separatorLine: 2, startLine: 3, endLine: 4 },
+    ]);
+  });
+});
+
+describe('getSlideIndexForLine', () => {
+  const ranges = computeSlideRanges('---\nmarp: true\n---\n# A\n---\n# B');
+
+  it('returns the first slide for frontmatter lines', () => {
+    expect(getSlideIndexForLine(ranges, 1)).toBe(0);
+  });
+
+  it('counts separator lines towards the preceding slide', () => {
+    expect(getSlideIndexForLine(ranges, 4)).toBe(0);
+  });
+
+  it('returns the slide containing the line', () => {
+    expect(getSlideIndexForLine(ranges, 5)).toBe(1);
+  });
+});
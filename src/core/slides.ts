@@ -0,0 +1,183 @@
+/**
+ * Slide boundary computation
+ *
+ * Derives per-slide line ranges from Marp's own markdown-it token stream,
+ * i.e. the same parse that produces the rendered <section>s. This honours
+ * everything Marp does when splitting slides: `---`/`***`/`___` rulers,
+ * `headingDivider` (frontmatter or directive comments), fences of any kind
+ * and rulers nested in blockquotes, lists or containers.
+ */
+
+import { Marp } from '@marp-team/marp-core';
+import type MarkdownIt from 'markdown-it';
+import { toSourceMapped, type SourceMappedText } from './markdownScanner';
+import {
+  genericContainerPlugin,
+  hiddenSlidePlugin,
+  isHiddenDirective,
+  markPlugin,
+} from './markdownItPlugins';
+
+/**
+ * Line range of a single slide (0-indexed lines)
+ */
+export interface SlideRange {
+  /** Slide index (0-based, matches the rendered section order) */
+  index: number;
+  /**
+   * Line of the ruler (---, ***, ___) that starts this slide,
+   * or null for the first slide and slides started by headingDivider
+   */
+  separatorLine: number | null;
+  /** First line of the slide's content (after separator or frontmatter) */
+  startLine: number;
+  /** Line after the last line of the slide (exclusive) */
+  endLine: number;
+  /** Set if the slide is hidden with the `hide` directive */
+  hidden?: boolean;
+}
+
+/**
+ * Anything that exposes Marp's markdown-it parser
+ */
+export type SlideParser = Pick<Marp, 'markdown'>;
+
+// Lazily created parser for callers without their own Marp instance
+let defaultParser: SlideParser | null = null;
+
+/**
+ * Get a Marp parser with the marp-extended markdown-it plugins
+ */
+function getDefaultParser(): SlideParser {
+  if (!defaultParser) {
+    defaultParser = new Marp()
+      .use(genericContainerPlugin)
+      .use(markPlugin)
+      .use(hiddenSlidePlugin);
+  }
+  return defaultParser;
+}
+
+/**
+ * Compute slide ranges using Marp's markdown parser
+ *
+ * The parser should be configured like the one used for rendering
+ * (same markdown-it plugins), so that slide indices match the output.
+ * Without a parser, a Marp instance with the container and mark plugins
+ * is used (matching the export engine). Slides are only flagged as hidden
+ * if the parser uses hiddenSlidePlugin (the default parser does).
+ * If the markdown is a SourceMappedText (e.g. preprocessed content), the
+ * returned lines refer to the original source.
+ *
+ * @example
+ * computeSlideRanges('---\nmarp: true\n---\n# A\n---\n# B', marp)
+ * // => [
+ * //   { index: 0, separatorLine: null, startLine: 3, endLine: 4 },
+ * //   { index: 1, separatorLine: 4, startLine: 5, endLine: 6 },
+ * // ]
+ */
+export function computeSlideRanges(
+  markdown: string | SourceMappedText,
+  parser: SlideParser = getDefaultParser(),
+): SlideRange[] {
+  const mapped = toSourceMapped(markdown);
+  const tokens: MarkdownIt.Token[] = parser.markdown.parse(mapped.text, {});
+  const lineCount = mapped.lineMap.length;
+
+  const ranges: SlideRange[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'marpit_slide_open') continue;
+
+    // First token inside the slide that carries a line map
+    let content: MarkdownIt.Token | undefined;
+    for (let j = i + 1; j < tokens.length; j++) {
+      if (tokens[j].type === 'marpit_slide_close') break;
+      if (tokens[j].map) {
+        content = tokens[j];
+        break;
+      }
+    }
+
+    const map = token.map ?? [0, 1];
+    let separatorLine: number | null = null;
+    let startLine: number;
+
+    if (ranges.length === 0) {
+      // First slide: starts after frontmatter, if any
+      startLine =
+        content?.type === 'front_matter' && content.map ? content.map[1] : 0;
+    } else if (content?.map && content.map[0] === map[0]) {
+      // Started by headingDivider: the heading itself opens the slide
+      startLine = map[0];
+    } else {
+      // Started by a ruler
+      separatorLine = map[0];
+      startLine = map[1];
+    }
+
+    ranges.push({
+      index: ranges.length,
+      separatorLine,
+      startLine,
+      endLine: lineCount,
+      ...(isHiddenDirective(token.meta?.marpitDirectives?.hide)
+        ? { hidden: true }
+        : {}),
+    });
+  }
+
+  if (ranges.length === 0) {
+    return [
+      { index: 0, separatorLine: null, startLine: 0, endLine: lineCount },
+    ];
+  }
+
+  // Each slide ends where the next one begins
+  for (let i = 0; i < ranges.length - 1; i++) {
+    const next = ranges[i + 1];
+    ranges[i].endLine = next.separatorLine ?? next.startLine;
+  }
+
+  return ranges.map(range => mapRangeToSource(range, mapped));
+}
+
+/**
+ * Translate a range computed on (preprocessed) output lines to source lines
+ */
+function mapRangeToSource(
+  range: SlideRange,
+  mapped: SourceMappedText,
+): SlideRange {
+  const { lineMap } = mapped;
+  const toSource = (line: number) =>
+    line < lineMap.length
+      ? lineMap[line]
+      : (lineMap[lineMap.length - 1] ?? -1) + 1;
+
+  return {
+    index: range.index,
+    separatorLine:
+      range.separatorLine === null ? null : toSource(range.separatorLine),
+    startLine: toSource(range.startLine),
+    endLine: toSource(range.endLine),
+    ...(range.hidden ? { hidden: true } : {}),
+  };
+}
+
+/**
+ * Get the index of the slide containing the given line (0-indexed)
+ *
+ * Separator lines count towards the preceding slide, so the cursor on a
+ * `---` line keeps the slide it closes highlighted.
+ */
+export function getSlideIndexForLine(
+  ranges: SlideRange[],
+  line: number,
+): number {
+  for (let i = ranges.length - 1; i >= 0; i--) {
+    if (ranges[i].startLine <= line) return i;
+  }
+  return 0;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getDeckSourcePaths,
+  getExportSourcePaths,
+  SourceWatcher,
+} from './watch';
+import { createExportReport } from './exportReport';
+
+describe('getExportSourcePaths', () => {
+  it('lists the deck and its local images and iframes', () => {
+    const report = createExportReport();
+    report.embeddedAssets.push(
+      { type: 'image', path: 'img/my%20chart.png', bytes: 10 },
+      { type: 'iframe', path: '/srv/shared/demo.html', bytes: 20 },
+      { type: 'image', path: 'https://example.com/logo.png', bytes: 30 },
+    );
+    report.missingAssets.push({ type: 'image', path: '../new.png', line: 3 });
+
+    expect(getExportSourcePaths('/decks/talk.md', report)).toEqual([
+      join('/decks/talk.md'),
+      join('/decks/img/my chart.png'),
+      join('/srv/shared/demo.html'),
+      join('/new.png'),
+    ]);
+  });
+});
+
+describe('getDeckSourcePaths', () => {
+  it('finds local images and iframes in the markdown', () => {
+    const markdown = [
+      '![](img/chart.png)',
+      '![logo](https://example.com/logo.png)',
+      '<iframe width="600" src="plots/demo.html"></iframe>',
+    ].join('\n');
+
+    expect(getDeckSourcePaths('/decks/talk.md', markdown)).toEqual([
+      join('/decks/talk.md'),
+      join('/decks/img/chart.png'),
+      join('/decks/plots/demo.html'),
+    ]);
+  });
+});
+
+describe('SourceWatcher', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'marp-watch-test-'));
+    await writeFile(join(dir, 'talk.md'), '# One');
+    await writeFile(join(dir, 'other.md'), '# Other');
+    await mkdir(join(dir, 'themes', 'base'), { recursive: true });
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports changes of watched files only', async () => {
+    const reported: string[][] = [];
+    const watcher = new SourceWatcher(paths => reported.push(paths), {
+      debounceMs: 50,
+    });
+    watcher.watch([join(dir, 'talk.md')]);
+
+    try {
+      await writeFile(join(dir, 'other.md'), '# Changed');
+      await writeFile(join(dir, 'talk.md'), '# Two');
+      await new Promise(r => setTimeout(r, 500));
+    } finally {
+      watcher.close();
+    }
+
+    expect(reported).toEqual([[join(dir, 'talk.md')]]);
+  });
+
+  it('reports changes in subfolders of watched folders', async () => {
+    const reported: string[][] = [];
+    const watcher = new SourceWatcher(paths => reported.push(paths), {
+      debounceMs: 50,
+    });
+    watcher.watch([], [join(dir, 'themes')]);
+
+    try {
+      await writeFile(join(dir, 'themes', 'base', 'colors.css'), 'a {}');
+      await new Promise(r => setTimeout(r, 500));
+    } finally {
+      watcher.close();
+    }
+
+    expect(reported).toEqual([[join(dir, 'themes', 'base', 'colors.css')]]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Source watching for rebuilds
+ *
+ * Watches the files an export read (the deck, its images and iframes)
+ * and folders like the theme directory, subfolders included, and reports
+ * changes in batches.
+ * Folders are watched rather than files, so editors that save by
+ * replacing the file (write to a temp file, then rename) are noticed.
+ */
+
+import { watch, type FSWatcher } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import type { ExportReport } from './exportReport';
+import { IFRAME_SRC_REGEX, IMG_PATH_REGEX } from './embedding';
+
+export interface SourceWatcherOptions {
+  /** Wait this long after the last change before reporting (default: 100) */
+  debounceMs?: number;
+}
+
+const REMOTE_PATH_REGEX = /^(?:[a-z][a-z0-9+.-]*:)/i;
+
+/**
+ * Resolve the deck and its local asset paths
+ *
+ * Paths are resolved against the deck's folder; URLs are skipped.
+ */
+function resolveSourcePaths(inputPath: string, assetPaths: string[]): string[] {
+  const paths = new Set([resolve(inputPath)]);
+  const inputDir = dirname(resolve(inputPath));
+
+  for (const assetPath of assetPaths) {
+    if (REMOTE_PATH_REGEX.test(assetPath) && !isAbsolute(assetPath)) {
+      continue;
+    }
+    let path = assetPath;
+    try {
+      path = decodeURI(path);
+    } catch {
+      // Not URI-encoded
+    }
+    paths.add(resolve(inputDir, path));
+  }
+
+  return [...paths];
+}
+
+/**
+ * Get the local files an export depends on
+ *
+ * The deck and every image or iframe it references, embedded or missing
+ * (so adding a missing image triggers a rebuild).
+ */
+export function getExportSourcePaths(
+  inputPath: string,
+  report: ExportReport,
+): string[] {
+  return resolveSourcePaths(
+    inputPath,
+    [...report.embeddedAssets, ...report.missingAssets].map(
+      asset => asset.path,
+    ),
+  );
+}
+
+/**
+ * Get the local files a deck references, without exporting it
+ *
+ * For renders that don't embed assets (and so don't report them): the
+ * deck and the images and iframes found in its markdown.
+ */
+export function getDeckSourcePaths(
+  inputPath: string,
+  markdown: string,
+): string[] {
+  return resolveSourcePaths(inputPath, [
+    ...[...markdown.matchAll(IMG_PATH_REGEX)].map(match => match[1]),
+    ...[...markdown.matchAll(IFRAME_SRC_REGEX)].map(match => match[2]),
+  ]);
+}
+
+/**
+ * Watches files and folders, calling back with the changed paths
+ */
+export class SourceWatcher {
+  private files = new Set<string>();
+  private dirs = new Set<string>();
+  private watchers = new Map<
+    string,
+    { watcher: FSWatcher; recursive: boolean }
+  >();
+  private changed = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private debounceMs: number;
+
+  constructor(
+    private onChange: (paths: string[]) => void,
+    options: SourceWatcherOptions = {},
+  ) {
+    this.debounceMs = options.debounceMs ?? 100;
+  }
+
+  /**
+   * Set what to watch, replacing the previous files and folders
+   *
+   * @param files - Files, reported when they change, appear or are removed
+   * @param dirs - Folders, reported when anything in them changes,
+   * subfolders included where the platform supports it
+   */
+  watch(files: string[], dirs: string[] = []) {
+    this.files = new Set(files.map(file => resolve(file)));
+    this.dirs = new Set(dirs.map(dir => resolve(dir)));
+
+    const needed = new Set([
+      ...[...this.files].map(file => dirname(file)),
+      ...this.dirs,
+    ]);
+
+    for (const [dir, { watcher, recursive }] of this.watchers) {
+      if (!needed.has(dir) || recursive !== this.dirs.has(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+    for (const dir of needed) {
+      if (this.watchers.has(dir)) continue;
+      try {
+        const recursive = this.dirs.has(dir);
+        const watcher = this.watchDir(dir, recursive);
+        // E.g. the folder was removed; it's watched again on the next call
+        watcher.on('error', () => {
+          watcher.close();
+          this.watchers.delete(dir);
+        });
+        this.watchers.set(dir, { watcher, recursive });
+      } catch {
+        // Folder doesn't exist (e.g. of a missing image)
+      }
+    }
+  }
+
+  /**
+   * Stop watching
+   */
+  close() {
+    for (const { watcher } of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.changed.clear();
+  }
+
+  /**
+   * Watch a folder, falling back to its direct entries where recursive
+   * watching isn't supported
+   */
+  private watchDir(dir: string, recursive: boolean): FSWatcher {
+    const listener = (_event: string, fileName: string | Buffer | null) =>
+      this.handleEvent(dir, fileName?.toString() ?? null);
+    if (recursive) {
+      try {
+        return watch(dir, { recursive: true }, listener);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') throw err;
+      }
+    }
+    return watch(dir, listener);
+  }
+
+  private handleEvent(dir: string, fileName: string | null) {
+    if (fileName === null) {
+      // Platform didn't say which file: report the folder
+      this.changed.add(dir);
+    } else {
+      const path = join(dir, fileName);
+      if (!this.files.has(path) && !this.dirs.has(dir)) return;
+      this.changed.add(path);
+    }
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const paths = [...this.changed];
+      this.changed.clear();
+      this.onChange(paths);
+    }, this.debounceMs);
+  }
+}
@@ -0,0 +1,145 @@
+import { App, Modal, Setting, TFile, TFolder } from 'obsidian';
+import { EXPORT_FORMATS, type ExportFormat, type ExportResult } from '../core';
+import { EXPORT_FORMAT_NAMES } from './exportModal';
+
+/**
+ * Export of one deck in one format, as shown in the summary
+ */
+export interface DeckExportOutcome {
+  file: TFile;
+  format: ExportFormat;
+  /** null if the batch was cancelled before the export started */
+  result: ExportResult | null;
+}
+
+/**
+ * Dialog for exporting every deck in a folder: folder and formats
+ */
+export class BatchExportModal extends Modal {
+  private folder: TFolder;
+  private formats = new Set<ExportFormat>(['pdf']);
+
+  constructor(
+    app: App,
+    folder: TFolder,
+    private onExport: (folder: TFolder, formats: ExportFormat[]) => void,
+  ) {
+    super(app);
+    this.folder = folder;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText('Export all decks in folder');
+
+    const folders = this.app.vault
+      .getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder)
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    new Setting(contentEl)
+      .setName('Folder')
+      .setDesc(
+        'Exports every note with marp: true in this folder and its subfolders.',
+      )
+      .addDropdown(dropdown => {
+        for (const folder of folders) {
+          dropdown.addOption(folder.path, folder.isRoot() ? '/' : folder.path);
+        }
+        dropdown.setValue(this.folder.path).onChange(path => {
+          this.folder = folders.find(f => f.path === path) ?? this.folder;
+        });
+      });
+
+    for (const format of EXPORT_FORMATS) {
+      new Setting(contentEl)
+        .setName(EXPORT_FORMAT_NAMES[format])
+        .addToggle(toggle =>
+          toggle.setValue(this.formats.has(format)).onChange(v => {
+            if (v) this.formats.add(format);
+            else this.formats.delete(format);
+          }),
+        );
+    }
+
+    new Setting(contentEl).addButton(button =>
+      button
+        .setButtonText('Export')
+        .setCta()
+        .onClick(() => {
+          const formats = EXPORT_FORMATS.filter(f => this.formats.has(f));
+          if (formats.length === 0) return;
+          this.close();
+          this.onExport(this.folder, formats);
+        }),
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Summary of a batch export: what was exported and what failed
+ */
+export class BatchExportSummaryModal extends Modal {
+  constructor(
+    app: App,
+    private folder: TFolder,
+    private outcomes: DeckExportOutcome[],
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl, outcomes } = this;
+    contentEl.addClass('marp-ext-export-report');
+    this.titleEl.setText('Batch export');
+
+    const exported = outcomes.filter(o => o.result?.success);
+    const failed = outcomes.filter(
+      o =>
+        o.result && !o.result.success && o.result.error?.kind !== 'cancelled',
+    );
+    const skipped = outcomes.length - exported.length - failed.length;
+
+    const folderName = this.folder.isRoot() ? 'the vault' : this.folder.path;
+    contentEl.createEl('p', {
+      text:
+        `Exported ${exported.length} of ${outcomes.length} from ${folderName}` +
+        (skipped > 0 ? `, ${skipped} skipped (cancelled)` : ''),
+      cls: failed.length === 0 ? 'marp-ext-export-report-ok' : undefined,
+    });
+
+    if (failed.length > 0) {
+      contentEl.createEl('h4', { text: `Failed: ${failed.length}` });
+      const list = contentEl.createEl('ul', {
+        cls: 'marp-ext-export-report-problem',
+      });
+      for (const { file, format, result } of failed) {
+        const item = list.createEl('li', {
+          text: `${file.path} (${format}): ${result?.error?.message ?? 'Unknown error'}`,
+        });
+        if (result?.error?.hint) {
+          item.createDiv({
+            text: result.error.hint,
+            cls: 'marp-ext-export-hint',
+          });
+        }
+      }
+    }
+
+    if (exported.length > 0) {
+      contentEl.createEl('h4', { text: `Exported: ${exported.length}` });
+      const list = contentEl.createEl('ul');
+      for (const { result } of exported) {
+        list.createEl('li', { text: result?.outputPath });
+      }
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -2,6 +2,7 @@ import {
   Editor,
   FileSystemAdapter,
   ItemView,
+  Menu,
   normalizePath,
   setIcon,
   TFile,
@@ -11,15 +12,33 @@ import {
 import { Marp } from '@marp-team/marp-core';
 import { browser, type MarpCoreBrowser } from '@marp-team/marp-core/browser';
 import { join } from 'path';
-import { exportSlide, ExportOptions } from './export';
-import { MarpPluginSettings } from './settings';
 import {
+  exportSlide,
+  ExportOptions,
+  getEnabledDiagrams,
+  getSettingsExportOptions,
+} from './export';
+import { DEFAULT_EXPORT_CHOICES, MarpPluginSettings } from './settings';
+import { applyExportChoices, ExportOptionsModal } from './exportModal';
+import { isImageFormat, type ExportFormat } from '../core/config';
+import {
+  computeSlideRanges,
+  formatSpeakerNotes,
   genericContainerPlugin,
+  getSlideIndexForLine,
   markPlugin,
-  preprocessForRender,
+  preprocessForRenderMapped,
+  sourceLinePlugin,
+  transitionPlugin,
+  hiddenSlidePlugin,
+  SOURCE_LINE_ATTR,
+  SOURCE_LINE_END_ATTR,
+  diffSlideHtml,
   type RenderPreprocessContext,
+  type SlideRange,
 } from '../core';
-import { MermaidCacheManager } from './mermaidCache';
+import type { DiagramRegistry } from '../core/diagrams/registry';
+import type { PresentationDeck } from './presentation';
 import type { ViewUpdate } from '@codemirror/view';
 
 export const MARP_DECK_VIEW_TYPE = 'marp-ext-deck-view';
@@ -40,13 +59,23 @@ interface SearchMatch {
 export class DeckView extends ItemView {
   file: TFile | null;
   settings: MarpPluginSettings;
-  mermaidCache: MermaidCacheManager;
+  diagrams: DiagramRegistry;
   private marp: Marp;
   private marpBrowser: MarpCoreBrowser | undefined;
   private wrapperEl: HTMLElement;
   private toolbarEl: HTMLElement;
   private slidesContainerEl: HTMLElement;
 
+  // Incremental render state
+  private styleEl: HTMLStyleElement | null = null;
+  private slidesParentEl: HTMLElement | null = null; // Parent of the slide wrappers
+  private renderedSlidesHtml: string[] = []; // Per-slide HTML of the last render
+  private renderedFilePath: string | null = null;
+  private renderedNotes: string[][] = []; // HTML comments (speaker notes) per slide
+
+  /** Called after each render, e.g. to update a running presentation */
+  onRendered: ((view: DeckView) => void) | null = null;
+
   // Search state
   private searchContainerEl: HTMLElement | null = null;
   private searchInputEl: HTMLInputElement | null = null;
@@ -57,26 +86,32 @@ export class DeckView extends ItemView {
 
   // Sync preview state
   private lastSyncedSlideIndex: number = -1;
-  private slideBoundaries: number[] = []; // Line numbers where each slide starts
+  private slideRanges: SlideRange[] = []; // Source line range of each slide
   private syncDebounceTimeout: number | null = null;
   private lastEditorLineCount: number = -1; // Track line count to detect content changes
   private static readonly SYNC_DEBOUNCE_MS = 250;
 
+  // Live preview state (render from the editor buffer)
+  private liveRenderTimeout: number | null = null;
+  private renderGeneration = 0; // Discards results of superseded renders
+  private static readonly LIVE_RENDER_DEBOUNCE_MS = 300;
+
   constructor(
     leaf: WorkspaceLeaf,
     settings: MarpPluginSettings,
-    mermaidCache: MermaidCacheManager,
+    diagrams: DiagramRegistry,
+    private saveSettings: () => Promise<void>,
   ) {
     super(leaf);
     this.file = null;
     this.settings = settings;
-    this.mermaidCache = mermaidCache;
+    this.diagrams = diagrams;
     this.marp = this.createMarpInstance();
   }
 
   private createMarpInstance(): Marp {
-    // HTML must be enabled when Mermaid is used (to render SVG elements)
-    const needsHtml = this.settings.enableHTML || this.settings.enableMermaid;
+    // HTML must be enabled when diagrams are rendered (as <img> elements)
+    const needsHtml = this.settings.enableHTML || this.getDiagrams().size > 0;
 
     const marp = new Marp({
       container: { tag: 'div', id: '__marp-vscode' },
@@ -97,9 +132,30 @@ export class DeckView extends ItemView {
       marp.use(genericContainerPlugin).use(markPlugin);
     }
 
+    // Source line attributes for element-level editor <-> preview sync
+    marp.use(sourceLinePlugin);
+
+    // Transition and hide directives for presenter mode and slide sorter
+    marp.use(transitionPlugin).use(hiddenSlidePlugin);
+
     return marp;
   }
 
+  /**
+   * Diagram renderers for the preview (Mermaid only if enabled)
+   */
+  private getDiagrams(): DiagramRegistry {
+    return getEnabledDiagrams(this.diagrams, this.settings.enableMermaid);
+  }
+
+  /**
+   * Render again after diagram renderers were registered or removed
+   */
+  async onDiagramsChanged() {
+    await this.reinitializeMarp();
+    await this.renderPreview();
+  }
+
   private async reinitializeMarp() {
     this.marp = this.createMarpInstance();
     await this.loadThemes();
@@ -151,17 +207,23 @@ export class DeckView extends ItemView {
 
     try {
       const content = await this.app.vault.cachedRead(file);
-      const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/);
-      if (frontmatterMatch) {
-        const frontmatter = frontmatterMatch[1];
-        return /^marp\s*:\s*true\s*$/m.test(frontmatter);
-      }
+      return this.isMarpContent(content);
     } catch (e) {
       console.error('Failed to read file for Marp check:', e);
     }
     return false;
   }
 
+  // Check for marp: true in the frontmatter of markdown content
+  private isMarpContent(content: string): boolean {
+    const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/);
+    if (frontmatterMatch) {
+      const frontmatter = frontmatterMatch[1];
+      return /^marp\s*:\s*true\s*$/m.test(frontmatter);
+    }
+    return false;
+  }
+
   /**
    * Create wikilink resolver for this view's vault context
    * Used by core preprocessForRender() for platform-specific URL resolution
@@ -281,48 +343,59 @@ export class DeckView extends ItemView {
     return html;
   }
 
-  async renderPreview() {
+  /**
+   * Render the preview of the current file.
+   * With content (e.g. the unsaved editor buffer), renders that instead
+   * of the file on disk.
+   */
+  async renderPreview(content?: string) {
+    const generation = ++this.renderGeneration;
+    const file = this.file;
+
     // Show placeholder if no file or not a Marp presentation
-    if (!this.file || !(await this.isMarpPresentation(this.file))) {
+    const isMarp =
+      file !== null &&
+      (content !== undefined
+        ? this.isMarpContent(content)
+        : await this.isMarpPresentation(file));
+    if (generation !== this.renderGeneration) return;
+    if (!file || !isMarp) {
       this.showPlaceholder();
       return;
     }
 
-    const originContent = await this.app.vault.cachedRead(this.file);
+    const originContent = content ?? (await this.app.vault.cachedRead(file));
 
     // Preprocess using core unified pipeline
     const preprocessContext: RenderPreprocessContext = {
       wikilinkResolver: this.createWikilinkResolver(),
       enableDirectives: this.settings.enableMarkdownItPlugins,
-      enableMermaid: this.settings.enableMermaid,
-      mermaidRenderer: this.settings.enableMermaid ? this.mermaidCache : undefined,
+      diagrams: this.getDiagrams(),
     };
 
-    const content = await preprocessForRender(originContent, preprocessContext);
+    const mapped = await preprocessForRenderMapped(originContent, preprocessContext);
 
-    const fileDir = this.file.parent?.path || '';
+    // A newer render started while diagrams were rendering
+    if (generation !== this.renderGeneration) return;
 
-    // Empty and reinitialize slides container only
-    this.slidesContainerEl.empty();
-    this.lastSyncedSlideIndex = -1; // Reset to force re-highlight after render
-    this.marpBrowser = browser(this.slidesContainerEl);
+    const fileDir = file.parent?.path || '';
 
-    let { html, css } = this.marp.render(content);
+    // Pass the line map so source line attributes refer to the original file
+    const rendered = this.marp.render(mapped.text, {
+      sourceLineMap: mapped.lineMap,
+    });
+    let { html, css } = rendered;
+    this.renderedNotes = rendered.comments;
 
-    // Extract slide boundaries from original content (not preprocessed)
-    // to get correct line numbers matching the editor
-    this.slideBoundaries = this.extractSlideBoundariesFromContent(originContent);
+    // Compute slide ranges from the same parse Marp renders, mapped back
+    // to original line numbers so they match the editor
+    this.slideRanges = computeSlideRanges(mapped, this.marp);
     // Track line count so cursor-change handler knows when content has changed
     this.lastEditorLineCount = originContent.split('\n').length;
 
     // Resolve all relative image paths (preview-specific: app:// URLs)
     html = this.resolveHtmlImagePaths(html, fileDir);
 
-    // Add Marp CSS
-    const styleEl = this.slidesContainerEl.createEl('style', {
-      attr: { id: '__marp-ext-deck-style' },
-    });
-
     // Add text selection CSS if enabled
     if (this.settings.enableTextSelection) {
       css += `
@@ -333,7 +406,82 @@ export class DeckView extends ItemView {
       `;
     }
 
-    styleEl.textContent = css;
+    // Rebuild from scratch when switching decks, otherwise only replace
+    // the slides whose HTML changed (keeps scroll position and highlights)
+    if (this.renderedFilePath !== file.path || !this.slidesParentEl) {
+      this.renderFullDeck(html, css);
+      this.renderedFilePath = file.path;
+      this.lastSyncedSlideIndex = -1; // Reset to force scroll after switching
+    } else {
+      this.updateChangedSlides(html, css);
+    }
+
+    // Update Marp browser for custom elements
+    this.marpBrowser?.update();
+
+    // Re-apply search highlights to the updated slides
+    this.refreshSearch();
+
+    // Sync preview to editor cursor position after render completes
+    this.syncPreviewAfterRender();
+
+    this.onRendered?.(this);
+  }
+
+  /**
+   * Compute the slide ranges of markdown as the preview splits it
+   *
+   * Preprocessed like for rendering (diagrams aren't rendered, they don't
+   * split slides), with lines mapped back to the given markdown, so the
+   * indices match the rendered slides.
+   */
+  async computeSourceSlideRanges(markdown: string): Promise<SlideRange[]> {
+    const mapped = await preprocessForRenderMapped(markdown, {
+      wikilinkResolver: this.createWikilinkResolver(),
+      enableDirectives: this.settings.enableMarkdownItPlugins,
+    });
+    return computeSlideRanges(mapped, this.marp);
+  }
+
+  /**
+   * Get the rendered deck for presenter mode, or null if nothing is rendered
+   */
+  getPresentationDeck(): PresentationDeck | null {
+    if (!this.renderedFilePath || this.renderedSlidesHtml.length === 0) {
+      return null;
+    }
+
+    return {
+      filePath: this.renderedFilePath,
+      css: this.styleEl?.textContent ?? '',
+      slides: [...this.renderedSlidesHtml],
+      notes: this.renderedSlidesHtml.map((_, i) =>
+        formatSpeakerNotes(this.renderedNotes[i]),
+      ),
+      hidden: this.renderedSlidesHtml.map(
+        (_, i) => this.slideRanges[i]?.hidden ?? false,
+      ),
+    };
+  }
+
+  /**
+   * Get the index of the highlighted slide (0 if none)
+   */
+  getActiveSlideIndex(): number {
+    return Math.max(this.lastSyncedSlideIndex, 0);
+  }
+
+  /**
+   * Replace the container content with a freshly rendered deck
+   */
+  private renderFullDeck(html: string, css: string) {
+    this.slidesContainerEl.empty();
+
+    // Add Marp CSS
+    this.styleEl = this.slidesContainerEl.createEl('style', {
+      attr: { id: '__marp-ext-deck-style' },
+    });
+    this.styleEl.textContent = css;
 
     // Create content container and insert HTML
     // Note: innerHTML is required here as Marp generates complex HTML/SVG output
@@ -343,14 +491,86 @@ export class DeckView extends ItemView {
     // eslint-disable-next-line no-unsanitized/property -- Marp-generated HTML from user's own markdown
     contentEl.innerHTML = html;
 
-    // Update Marp browser for custom elements
-    this.marpBrowser?.update();
+    const wrappers = this.getSlideWrappers(contentEl);
+    this.slidesParentEl = wrappers[0]?.parentElement ?? contentEl;
+    this.renderedSlidesHtml = wrappers.map(wrapper => wrapper.outerHTML);
+  }
 
-    // Attach click handlers to slides for reverse sync (preview -> editor)
-    this.attachSlideClickHandlers();
+  /**
+   * Diff the rendered slides against the previous render and replace
+   * only the slide wrappers whose HTML changed.
+   * Comparison uses the HTML of the previous render rather than the DOM,
+   * so highlight classes and search marks don't count as changes. Slides
+   * that only moved in the source keep their DOM and get their source
+   * line attributes updated.
+   */
+  private updateChangedSlides(html: string, css: string) {
+    const parentEl = this.slidesParentEl;
+    if (!parentEl) return;
 
-    // Sync preview to editor cursor position after render completes
-    this.syncPreviewAfterRender();
+    if (this.styleEl && this.styleEl.textContent !== css) {
+      this.styleEl.textContent = css;
+    }
+
+    // Parse into an inert template, see renderFullDeck for why innerHTML
+    const template = document.createElement('template');
+    // eslint-disable-next-line no-unsanitized/property -- Marp-generated HTML from user's own markdown
+    template.innerHTML = html;
+
+    const newWrappers = this.getSlideWrappers(template.content);
+    const newHtml = newWrappers.map(wrapper => wrapper.outerHTML);
+    const oldWrappers = this.getSlideWrappers(parentEl);
+    const { changed, moved } = diffSlideHtml(this.renderedSlidesHtml, newHtml);
+
+    for (const i of changed) {
+      parentEl.replaceChild(newWrappers[i], oldWrappers[i]);
+    }
+    for (const i of moved) {
+      this.copySourceLines(newWrappers[i], oldWrappers[i]);
+    }
+    for (let i = oldWrappers.length; i < newWrappers.length; i++) {
+      parentEl.appendChild(newWrappers[i]);
+    }
+
+    // Remove slides beyond the new end of the deck
+    for (let i = newWrappers.length; i < oldWrappers.length; i++) {
+      oldWrappers[i].remove();
+    }
+
+    this.renderedSlidesHtml = newHtml;
+  }
+
+  /**
+   * Copy the source line attributes of a freshly rendered slide onto the
+   * displayed one, which has the same elements
+   */
+  private copySourceLines(from: HTMLElement, to: HTMLElement) {
+    const selector = `[${SOURCE_LINE_ATTR}]`;
+    const sources = from.querySelectorAll(selector);
+    const targets = to.querySelectorAll(selector);
+
+    sources.forEach((source, i) => {
+      for (const attr of [SOURCE_LINE_ATTR, SOURCE_LINE_END_ATTR]) {
+        const value = source.getAttribute(attr);
+        if (value !== null) targets[i]?.setAttribute(attr, value);
+      }
+    });
+  }
+
+  // Get the slide wrapper elements below root, in slide order
+  private getSlideWrappers(root: ParentNode): HTMLElement[] {
+    return Array.from(
+      root.querySelectorAll<HTMLElement>('[data-marp-vscode-slide-wrapper]'),
+    );
+  }
+
+  // Forget the rendered deck so the next render rebuilds it
+  private resetRenderState() {
+    this.styleEl = null;
+    this.slidesParentEl = null;
+    this.renderedSlidesHtml = [];
+    this.renderedFilePath = null;
+    this.renderedNotes = [];
   }
 
   /**
@@ -358,6 +578,7 @@ export class DeckView extends ItemView {
    */
   private showPlaceholder() {
     this.slidesContainerEl.empty();
+    this.resetRenderState();
 
     // Styles are defined in styles.css
     const placeholderEl = this.slidesContainerEl.createDiv({
@@ -418,19 +639,8 @@ export class DeckView extends ItemView {
 
   // Get the DOM element for a slide by index
   private getSlideElement(slideIndex: number): HTMLElement | null {
-    // Find the content div that contains slide wrappers
-    // Look for the div with data-marp-vscode-slide-wrapper children
-    for (let i = 0; i < this.slidesContainerEl.children.length; i++) {
-      const child = this.slidesContainerEl.children[i];
-      // The content div contains the slide wrappers
-      if (child.children.length > 0 && child.children[0]?.hasAttribute?.('data-marp-vscode-slide-wrapper')) {
-        return (child.children[slideIndex] as HTMLElement) || null;
-      }
-    }
-
-    // Fallback: look for slides directly in container
-    const slides = this.slidesContainerEl.querySelectorAll('[data-marp-vscode-slide-wrapper]');
-    return (slides[slideIndex] as HTMLElement) || null;
+    const root = this.slidesParentEl ?? this.slidesContainerEl;
+    return this.getSlideWrappers(root)[slideIndex] ?? null;
   }
 
   // Check if a slide is fully visible within the viewport
@@ -479,7 +689,8 @@ export class DeckView extends ItemView {
   }
 
   // Handle click on a slide - navigate editor to that slide
-  private handleSlideClick(slideIndex: number) {
+  // If sourceLine is given (click on an element), navigate to that exact line
+  private handleSlideClick(slideIndex: number, sourceLine?: number) {
     if (!this.file) return;
     if (!this.settings.enableSyncPreview) return;
 
@@ -487,6 +698,9 @@ export class DeckView extends ItemView {
     this.ensureActiveSlideStyles();
     this.highlightActiveSlide(slideIndex);
     this.lastSyncedSlideIndex = slideIndex;
+    if (sourceLine !== undefined) {
+      this.highlightActiveElement(slideIndex, sourceLine);
+    }
 
     // Scroll minimally to ensure slide is fully visible
     this.scrollToSlide(slideIndex);
@@ -502,8 +716,9 @@ export class DeckView extends ItemView {
         if ('editor' in view) {
           const editor = (view as { editor: Editor }).editor;
 
-          // Get first non-separator line number for this slide
-          const lineNumber = 1 + (this.slideBoundaries[slideIndex] ?? 0);
+          // Clicked element's line, or first non-blank line of this slide
+          const lineNumber =
+            sourceLine ?? this.getFirstContentLine(editor, slideIndex);
 
           // WORKAROUND to scroll to the top of the slide in the editor
           // virtually scroll to the bottom of the editor, so that setting
@@ -528,37 +743,38 @@ export class DeckView extends ItemView {
     }
   }
 
-  // Attach click handlers to all slides
-  private attachSlideClickHandlers() {
-    const slides = this.slidesContainerEl.querySelectorAll(
-      '[data-marp-vscode-slide-wrapper]',
-    );
-    slides.forEach((slide, index) => {
-      // Cursor is set via CSS: .marp-ext-deck-slides [data-marp-vscode-slide-wrapper]
-
-      // Add click handler
-      slide.addEventListener('click', (e) => {
-        // Don't trigger if clicking on a link or interactive element
-        const target = e.target as HTMLElement;
-        if (target.closest('a, button, input, textarea, select')) {
-          return;
-        }
+  // Handle clicks in the slides container (delegated, so slides
+  // replaced by incremental renders need no re-attaching)
+  private handlePreviewClick(e: MouseEvent) {
+    // Cursor is set via CSS: .marp-ext-deck-slides [data-marp-vscode-slide-wrapper]
+    const target = e.target as HTMLElement;
+    const slide = target.closest<HTMLElement>('[data-marp-vscode-slide-wrapper]');
+    if (!slide) return;
 
-        // Don't trigger if user is making a text selection
-        const selection = window.getSelection();
-        if (selection && selection.toString().length > 0) {
-          return;
-        }
+    // Don't trigger if clicking on a link or interactive element
+    if (target.closest('a, button, input, textarea, select')) {
+      return;
+    }
 
-        // If this slide is already active, just ensure it's fully visible
-        if (index === this.lastSyncedSlideIndex) {
-          this.scrollToSlide(index);
-          return;
-        }
+    // Don't trigger if user is making a text selection
+    const selection = window.getSelection();
+    if (selection && selection.toString().length > 0) {
+      return;
+    }
 
-        this.handleSlideClick(index);
-      });
-    });
+    const index = this.getSlideWrappers(this.slidesContainerEl).indexOf(slide);
+    if (index === -1) return;
+
+    // Line of the clicked element (paragraph, list item, image, ...)
+    const sourceLine = this.getSourceLineFromElement(target, slide);
+
+    // If this slide is already active, just ensure it's fully visible
+    if (index === this.lastSyncedSlideIndex && sourceLine === undefined) {
+      this.scrollToSlide(index);
+      return;
+    }
+
+    this.handleSlideClick(index, sourceLine);
   }
 
   // Highlight the active slide with a visual indicator
@@ -578,6 +794,50 @@ export class DeckView extends ItemView {
     }
   }
 
+  // Get the source line of the innermost mapped element around target
+  private getSourceLineFromElement(
+    target: HTMLElement,
+    slide: Element,
+  ): number | undefined {
+    const sourceEl = target.closest(`[${SOURCE_LINE_ATTR}]`);
+    if (!sourceEl || !slide.contains(sourceEl)) return undefined;
+
+    const line = parseInt(sourceEl.getAttribute(SOURCE_LINE_ATTR) ?? '', 10);
+    return isNaN(line) ? undefined : line;
+  }
+
+  // Highlight the innermost element of a slide that contains the given line
+  private highlightActiveElement(slideIndex: number, lineNumber: number) {
+    const previousActive = this.slidesContainerEl.querySelector(
+      '.marp-ext-active-element',
+    );
+
+    const slideEl = this.getSlideElement(slideIndex);
+    let bestEl: Element | null = null;
+    let bestSpan = Infinity;
+
+    const candidates = slideEl
+      ? Array.from(slideEl.querySelectorAll(`[${SOURCE_LINE_ATTR}]`))
+      : [];
+
+    for (const el of candidates) {
+      const start = parseInt(el.getAttribute(SOURCE_LINE_ATTR) ?? '', 10);
+      const end = parseInt(el.getAttribute(SOURCE_LINE_END_ATTR) ?? '', 10);
+      if (isNaN(start) || isNaN(end)) continue;
+      if (lineNumber < start || lineNumber >= end) continue;
+
+      // Descendants come after ancestors, so ties resolve to the innermost
+      if (end - start <= bestSpan) {
+        bestEl = el;
+        bestSpan = end - start;
+      }
+    }
+
+    if (previousActive === bestEl) return;
+    previousActive?.classList.remove('marp-ext-active-element');
+    bestEl?.classList.add('marp-ext-active-element');
+  }
+
   // Active slide styles are now in styles.css
   // This method is kept for compatibility but no longer creates style elements
   private ensureActiveSlideStyles() {
@@ -587,101 +847,38 @@ export class DeckView extends ItemView {
   // ===== Sync Preview functionality =====
 
   /**
-   * Extract slide boundaries from the original markdown content.
-   * Parses --- slide separators while correctly handling:
-   * - Frontmatter (skipped)
-   * - Code blocks (--- inside them is not a separator)
-   *
-   * Uses original content to get correct line numbers matching the editor.
+   * Get the slide index for a given line number (0-indexed).
    */
-  private extractSlideBoundariesFromContent(content: string): number[] {
-    const lines = content.split('\n');
-    const boundaries: number[] = [];
-    let inCodeBlock = false;
-    let inFrontmatter = false;
-    let frontmatterEnded = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmed = line.trim();
-
-      // Check for code block toggle (``` or ~~~)
-      if (trimmed.startsWith('```') || trimmed.startsWith('~~~')) {
-        inCodeBlock = !inCodeBlock;
-        continue;
-      }
-
-      // Skip content inside code blocks
-      if (inCodeBlock) continue;
-
-      // Handle frontmatter (only at the very start)
-      if (i === 0 && trimmed === '---') {
-        inFrontmatter = true;
-        continue;
-      }
-
-      if (inFrontmatter) {
-        if (trimmed === '---') {
-          inFrontmatter = false;
-          frontmatterEnded = true;
-          // First slide starts after frontmatter
-          boundaries.push(i + 1);
-        }
-        continue;
-      }
-
-      // Check for slide separator (--- on its own line, possibly with trailing dashes)
-      if (/^-{3,}$/.test(trimmed)) {
-        // This is a slide separator - next line starts a new slide
-        boundaries.push(i + 1);
-      }
-    }
-
-    // If no frontmatter, first slide starts at line 0
-    if (!frontmatterEnded && boundaries.length === 0) {
-      boundaries.unshift(0);
-    }
-
-    // Ensure we have at least one boundary
-    if (boundaries.length === 0) {
-      return [0];
-    }
-
-    return boundaries;
+  private getSlideIndexForLine(lineNumber: number): number {
+    return getSlideIndexForLine(this.slideRanges, lineNumber);
   }
 
   /**
-   * Get the slide index for a given line number (0-indexed).
+   * Get the first non-blank line of a slide, falling back to its start line.
    */
-  private getSlideIndexForLine(lineNumber: number): number {
-    // Find the last boundary that is <= lineNumber
-    for (let i = this.slideBoundaries.length - 1; i >= 0; i--) {
-      if (this.slideBoundaries[i] <= lineNumber) {
-        return i;
-      }
+  private getFirstContentLine(editor: Editor, slideIndex: number): number {
+    const range = this.slideRanges[slideIndex];
+    if (!range) return 0;
+
+    const end = Math.min(range.endLine, editor.lineCount());
+    for (let line = range.startLine; line < end; line++) {
+      if (editor.getLine(line).trim() !== '') return line;
     }
-    return 0;
+    return range.startLine;
   }
 
   /**
    * Sync the preview to show the slide at the editor's cursor position.
    * Only scrolls if the target slide is different and not at the top.
-   * Always highlights the active slide for visual reference.
+   * Always highlights the active slide for visual reference (re-rendered
+   * slides lose their highlight classes).
    */
   private syncPreviewToEditor(editor: Editor) {
     if (!this.settings.enableSyncPreview) return;
     if (!this.file) return;
 
     const cursor = editor.getCursor();
-    const slideIndex = this.getSlideIndexForLine(cursor.line);
-
-    // Only do anything if we're on a different slide
-    if (slideIndex !== this.lastSyncedSlideIndex) {
-      this.ensureActiveSlideStyles();
-      this.highlightActiveSlide(slideIndex);
-      this.lastSyncedSlideIndex = slideIndex;
-      this.scrollToSlide(slideIndex);
-    }
+    this.syncPreviewToLine(cursor.line);
   }
 
   /**
@@ -713,13 +910,22 @@ export class DeckView extends ItemView {
           if ('editor' in view) {
             const editor = (view as { editor: Editor }).editor;
 
-            // Only re-parse slide boundaries if document length changed
-            // (indicates paste/edit rather than just cursor movement)
+            // Only re-parse slide ranges if document length changed
+            // (indicates paste/edit rather than just cursor movement),
+            // split like the rendered slides
             const currentLineCount = editor.lineCount();
             if (currentLineCount !== this.lastEditorLineCount) {
-              const currentContent = editor.getValue();
-              this.slideBoundaries = this.extractSlideBoundariesFromContent(currentContent);
               this.lastEditorLineCount = currentLineCount;
+              const generation = this.renderGeneration;
+              void this.computeSourceSlideRanges(editor.getValue()).then(
+                ranges => {
+                  // A render meanwhile has newer ranges, and syncs itself
+                  if (generation !== this.renderGeneration) return;
+                  this.slideRanges = ranges;
+                  this.syncPreviewToLine(editor.getCursor().line);
+                },
+              );
+              break;
             }
 
             const cursor = editor.getCursor();
@@ -732,7 +938,41 @@ export class DeckView extends ItemView {
   }
 
   /**
-   * Sync the preview to show the slide containing the given line number.
+   * Public handler for editor document changes.
+   * Called from the CodeMirror extension registered in main.ts.
+   * With live preview enabled, re-renders from the editor buffer (debounced)
+   * so the preview tracks keystrokes without waiting for the file to be saved.
+   */
+  onEditorDocChange(update: ViewUpdate) {
+    if (!this.settings.livePreview) return;
+    if (!this.file) return;
+
+    if (this.liveRenderTimeout !== null) {
+      window.clearTimeout(this.liveRenderTimeout);
+    }
+
+    const editorView = update.view;
+    this.liveRenderTimeout = window.setTimeout(async () => {
+      this.liveRenderTimeout = null;
+      // Read the document when firing to include all debounced changes
+      await this.renderPreview(editorView.state.doc.toString());
+    }, DeckView.LIVE_RENDER_DEBOUNCE_MS);
+  }
+
+  // Check if an editor is open for the current file
+  private hasOpenEditor(): boolean {
+    return this.app.workspace
+      .getLeavesOfType('markdown')
+      .some(
+        leaf =>
+          'file' in leaf.view &&
+          (leaf.view as { file: TFile | null }).file?.path === this.file?.path,
+      );
+  }
+
+  /**
+   * Sync the preview to show the slide containing the given line number,
+   * and highlight the element rendered from that line.
    */
   private syncPreviewToLine(lineNumber: number) {
     if (!this.settings.enableSyncPreview) return;
@@ -742,6 +982,7 @@ export class DeckView extends ItemView {
 
     this.ensureActiveSlideStyles();
     this.highlightActiveSlide(slideIndex);
+    this.highlightActiveElement(slideIndex, lineNumber);
 
     if (slideIndex !== this.lastSyncedSlideIndex) {
       this.lastSyncedSlideIndex = slideIndex;
@@ -784,7 +1025,7 @@ export class DeckView extends ItemView {
   private createToolbarButton(
     icon: string,
     title: string,
-    callback: () => void,
+    callback: (evt: MouseEvent) => void,
   ): HTMLElement {
     const button = this.toolbarEl.createEl('button', {
       cls: 'marp-ext-toolbar-button clickable-icon',
@@ -796,12 +1037,81 @@ export class DeckView extends ItemView {
   }
 
   private getExportOptions(): ExportOptions {
-    return {
-      enableMarkdownItPlugins: this.settings.enableMarkdownItPlugins,
-      enableMermaid: this.settings.enableMermaid,
-      enableHTML: this.settings.enableHTML,
-      mermaidCache: this.mermaidCache,
+    return getSettingsExportOptions(this.settings, this.diagrams);
+  }
+
+  /**
+   * Export the deck, or only some of its slides
+   */
+  private exportDeck(format: ExportFormat, slides?: string) {
+    if (!this.file) return;
+    void exportSlide(this.app, this.file, format, this.settings.themeDir, {
+      ...this.getExportOptions(),
+      slides,
+    });
+  }
+
+  /**
+   * Context menu of a slide in the preview: export just that slide
+   */
+  private handlePreviewContextMenu(e: MouseEvent) {
+    const target = e.target as HTMLElement;
+    const slide = target.closest<HTMLElement>('[data-marp-vscode-slide-wrapper]');
+    if (!slide || !this.file) return;
+
+    const index = this.getSlideWrappers(this.slidesContainerEl).indexOf(slide);
+    if (index === -1) return;
+
+    e.preventDefault();
+    const menu = new Menu();
+    const formats: [ExportFormat, string][] = [
+      ['pdf', 'PDF'],
+      ['pptx', 'PPTX'],
+      ['html', 'HTML'],
+      ['png', 'PNG'],
+      ['jpeg', 'JPEG'],
+    ];
+    for (const [format, name] of formats) {
+      menu.addItem(item =>
+        item
+          .setTitle(`Export slide ${index + 1} as ${name}`)
+          .setIcon(isImageFormat(format) ? 'image' : 'download')
+          .onClick(() => this.exportDeck(format, String(index + 1))),
+      );
+    }
+    menu.showAtMouseEvent(e);
+  }
+
+  /**
+   * Export dialog, prefilled with the last choices for this deck
+   */
+  private openExportDialog() {
+    const file = this.file;
+    if (!file) return;
+
+    const { settings } = this;
+    const defaults = {
+      folder: settings.exportNextToNote
+        ? 'Next to the note'
+        : settings.exportPath || 'Downloads',
+      fileName: settings.exportFileName,
+    };
+    const choices = {
+      ...DEFAULT_EXPORT_CHOICES,
+      ...settings.exportChoices[file.path],
     };
+
+    new ExportOptionsModal(this.app, choices, defaults, async chosen => {
+      settings.exportChoices[file.path] = chosen;
+      await this.saveSettings();
+      void exportSlide(
+        this.app,
+        file,
+        chosen.format,
+        settings.themeDir,
+        applyExportChoices(this.getExportOptions(), chosen),
+      );
+    }).open();
   }
 
   private createToolbarButtons() {
@@ -815,20 +1125,9 @@ export class DeckView extends ItemView {
       this.openSearch();
     });
 
-    // Export buttons
-    this.createToolbarButton('download', 'Export as PDF', () => {
-      if (this.file)
-        void exportSlide(this.app, this.file, 'pdf', this.settings.themeDir, this.getExportOptions());
-    });
-
-    this.createToolbarButton('image', 'Export as PPTX', () => {
-      if (this.file)
-        void exportSlide(this.app, this.file, 'pptx', this.settings.themeDir, this.getExportOptions());
-    });
-
-    this.createToolbarButton('code-glyph', 'Export as HTML', () => {
-      if (this.file)
-        void exportSlide(this.app, this.file, 'html', this.settings.themeDir, this.getExportOptions());
+    // Export button
+    this.createToolbarButton('download', 'Export…', () => {
+      this.openExportDialog();
     });
   }
 
@@ -841,19 +1140,8 @@ export class DeckView extends ItemView {
       this.openSearch();
     });
 
-    this.addAction('download', 'Export as PDF', () => {
-      if (this.file)
-        void exportSlide(this.app, this.file, 'pdf', this.settings.themeDir, this.getExportOptions());
-    });
-
-    this.addAction('image', 'Export as PPTX', () => {
-      if (this.file)
-        void exportSlide(this.app, this.file, 'pptx', this.settings.themeDir, this.getExportOptions());
-    });
-
-    this.addAction('code-glyph', 'Export as HTML', () => {
-      if (this.file)
-        void exportSlide(this.app, this.file, 'html', this.settings.themeDir, this.getExportOptions());
+    this.addAction('download', 'Export…', () => {
+      this.openExportDialog();
     });
   }
 
@@ -955,6 +1243,29 @@ export class DeckView extends ItemView {
     });
   }
 
+  /**
+   * Re-run the current search after slides were re-rendered, keeping the
+   * current match position without scrolling
+   */
+  private refreshSearch() {
+    const query = this.searchInputEl?.value;
+    if (!this.isSearchOpen() || !query) return;
+
+    const previousIndex = this.currentMatchIndex;
+    this.clearHighlights();
+    this.searchMatches = this.findTextMatches(
+      this.slidesContainerEl,
+      query.toLowerCase(),
+    );
+    this.currentMatchIndex =
+      this.searchMatches.length > 0
+        ? Math.min(Math.max(previousIndex, 0), this.searchMatches.length - 1)
+        : -1;
+
+    this.highlightMatches();
+    this.updateSearchResults();
+  }
+
   private performSearch(query: string) {
     this.clearHighlights();
     this.searchMatches = [];
@@ -1164,6 +1475,16 @@ export class DeckView extends ItemView {
     // Initialize marp browser
     this.marpBrowser = browser(this.slidesContainerEl);
 
+    // Reverse sync (preview -> editor) on slide click
+    this.registerDomEvent(this.slidesContainerEl, 'click', e => {
+      this.handlePreviewClick(e);
+    });
+
+    // Export a single slide from its context menu
+    this.registerDomEvent(this.slidesContainerEl, 'contextmenu', e => {
+      this.handlePreviewContextMenu(e);
+    });
+
     // Create toolbar (right side) - only visible in sidebar
     // Styles are defined in styles.css
     this.toolbarEl = this.wrapperEl.createDiv({ cls: 'marp-ext-deck-toolbar' });
@@ -1193,6 +1514,8 @@ export class DeckView extends ItemView {
           this.file &&
           file.path === this.file.path
         ) {
+          // With live preview, the editor buffer is at least as recent as disk
+          if (this.settings.livePreview && this.hasOpenEditor()) return;
           await this.renderPreview();
         }
       }),
@@ -1228,6 +1551,10 @@ export class DeckView extends ItemView {
       window.clearTimeout(this.syncDebounceTimeout);
       this.syncDebounceTimeout = null;
     }
+    if (this.liveRenderTimeout !== null) {
+      window.clearTimeout(this.liveRenderTimeout);
+      this.liveRenderTimeout = null;
+    }
     this.marpBrowser?.cleanup();
     return Promise.resolve();
   }
@@ -10,12 +10,20 @@ import { App, Notice, TFile, FileSystemAdapter } from 'obsidian';
 import { join } from 'path';
 import fixPath from 'fix-path';
 import mimes from 'mime';
+import { getExportExtension, type ExportFormat } from '../core/config';
 import {
   exportPresentation,
   type ExportConfig,
   type ExportContext,
+  type ExportResult,
 } from '../core/export';
-import { MermaidCacheManager } from './mermaidCache';
+import type { ExportError } from '../core/exportErrors';
+import { formatExportFileName, resolveExportDir } from '../core/exportPath';
+import type { ExportProfile } from '../core/exportProfiles';
+import { resolveMarpCli } from '../core/marpCli';
+import { DiagramRegistry, MERMAID_DIAGRAM } from '../core/diagrams/registry';
+import { ExportReportModal } from './exportReportModal';
+import type { MarpPluginSettings } from './settings';
 import { VaultPathResolver } from './vaultPathResolver';
 
 export interface ExportOptions {
@@ -23,21 +31,212 @@ export interface ExportOptions {
   enableMarkdownItPlugins?: boolean;
   /** Enable mermaid diagram rendering */
   enableMermaid?: boolean;
-  /** Mermaid cache manager instance */
-  mermaidCache?: MermaidCacheManager;
+  /** Diagram renderers by fence language (Mermaid only if enableMermaid) */
+  diagrams?: DiagramRegistry;
   /** Enable HTML output */
   enableHTML?: boolean;
+  /** Export directory: absolute or vault-relative (empty = Downloads) */
+  exportPath?: string;
+  /** Write the export into the note's folder (overrides exportPath) */
+  exportNextToNote?: boolean;
+  /** Folder below the export directory (not used next to the note) */
+  exportSubfolder?: string;
+  /** Output filename template, e.g. {basename}-{date}.{ext} */
+  fileNameTemplate?: string;
+  /** Chrome/Chromium executable for PDF/PPTX (empty = auto-detect) */
+  chromePath?: string;
+  /** marp binary or marp-cli.js (empty = installed in the vault; marp = PATH) */
+  marpCliPath?: string;
+  /** Time limit in milliseconds (0 = none) */
+  timeout?: number;
+  /** Export only these slides, e.g. 1-3,7 (1-indexed) */
+  slides?: string;
+  /** Scale factor for png/jpeg images */
+  imageScale?: number;
+  /** Embed local images and iframes as data URLs (default: true) */
+  embedImages?: boolean;
+  /** PDF: add speaker notes as annotations */
+  pdfNotes?: boolean;
+  /** PDF: add an outline (bookmarks) */
+  pdfOutlines?: boolean;
+  /** PPTX: editable text instead of slide images */
+  pptxEditable?: boolean;
+  /** Open the exported file with the system's default app */
+  openAfterExport?: boolean;
+  /** Show the report modal after a successful export (default: true) */
+  showReport?: boolean;
+  /** No notices or report modal, for callers showing their own (batch export) */
+  silent?: boolean;
+  /** Cancels the export */
+  signal?: AbortSignal;
 }
 
 /**
- * Get the default export directory (user's Downloads folder)
+ * Diagram renderers in use: all registered ones, Mermaid only if enabled
  */
-function getExportDir(): string {
+export function getEnabledDiagrams(
+  diagrams: DiagramRegistry,
+  enableMermaid: boolean,
+): DiagramRegistry {
+  return enableMermaid ? diagrams : diagrams.without(MERMAID_DIAGRAM.id);
+}
+
+/**
+ * Export options from the plugin settings
+ */
+export function getSettingsExportOptions(
+  settings: MarpPluginSettings,
+  diagrams: DiagramRegistry,
+): ExportOptions {
+  return {
+    enableMarkdownItPlugins: settings.enableMarkdownItPlugins,
+    enableMermaid: settings.enableMermaid,
+    enableHTML: settings.enableHTML,
+    diagrams,
+    exportPath: settings.exportPath,
+    exportNextToNote: settings.exportNextToNote,
+    fileNameTemplate: settings.exportFileName,
+    chromePath: settings.chromePath,
+    marpCliPath: settings.marpCliPath,
+    timeout: settings.exportTimeout * 1000,
+    imageScale: settings.exportImageScale,
+  };
+}
+
+/**
+ * Apply an export profile on top of the options from the settings
+ */
+export function applyExportProfile(
+  options: ExportOptions,
+  profile: ExportProfile,
+): ExportOptions {
+  const folder = profile.folder?.trim();
+  const slides = profile.slides?.trim();
+
+  return {
+    ...options,
+    ...(folder ? { exportPath: folder, exportNextToNote: false } : {}),
+    fileNameTemplate: profile.fileName?.trim() || options.fileNameTemplate,
+    slides: slides || undefined,
+    imageScale: profile.imageScale ?? options.imageScale,
+    embedImages: profile.embedImages,
+    pdfNotes: profile.pdfNotes,
+    pdfOutlines: profile.pdfOutlines,
+    pptxEditable: profile.pptxEditable,
+  };
+}
+
+/**
+ * Notice that stays up during an export, with a Cancel button
+ */
+export class ExportProgressNotice {
+  private notice: Notice;
+  private textEl: HTMLElement;
+
+  constructor(message: string, onCancel: () => void) {
+    const fragment = createFragment(frag => {
+      this.textEl = frag.createDiv({ text: message });
+      const button = frag.createEl('button', {
+        text: 'Cancel',
+        cls: 'marp-ext-export-cancel',
+      });
+      button.addEventListener('click', e => {
+        e.stopPropagation();
+        button.disabled = true;
+        onCancel();
+      });
+    });
+    this.notice = new Notice(fragment, 0);
+  }
+
+  setText(message: string) {
+    this.textEl.setText(message);
+  }
+
+  hide() {
+    this.notice.hide();
+  }
+}
+
+/**
+ * Explain how to install marp-cli for the vault when none was found there
+ *
+ * The plugin doesn't ship marp-cli, so exports need a copy installed in
+ * the vault (or a parent folder) unless a path is set.
+ */
+function withMarpCliInstallHint(
+  error: ExportError,
+  basePath: string,
+  marpCliPath: string,
+): ExportError {
+  if (error.kind !== 'marp-cli-not-found' || marpCliPath) return error;
+  return {
+    ...error,
+    hint: `Export needs marp-cli installed in the vault. In a terminal, run: cd "${basePath}" && npm install --save-dev @marp-team/marp-cli. Or set the Marp CLI path in the settings (marp for the one on the PATH).`,
+  };
+}
+
+/**
+ * Show a failed export with the fix for its kind of error
+ */
+function showExportError(error: ExportError) {
+  const fragment = createFragment(frag => {
+    frag.createDiv({ text: `Export failed: ${error.message}` });
+    if (error.hint) {
+      frag.createDiv({ text: error.hint, cls: 'marp-ext-export-hint' });
+    }
+  });
+  new Notice(fragment, 15000);
+}
+
+/**
+ * Open an exported file or folder with the system's default app
+ */
+async function openExport(path: string) {
+  // electron is provided by Obsidian at runtime
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { shell } = require('electron') as {
+    shell: { openPath(path: string): Promise<string> };
+  };
+  const error = await shell.openPath(path);
+  if (error) {
+    new Notice(`Could not open ${path}: ${error}`, 8000);
+  }
+}
+
+/**
+ * Get the user's home directory
+ */
+function getHomeDir(): string {
   const homeDir = process.env[process.platform == 'win32' ? 'USERPROFILE' : 'HOME'];
   if (!homeDir) {
     throw new Error('Could not determine home directory');
   }
-  return join(homeDir, 'Downloads');
+  return homeDir;
+}
+
+/**
+ * Get the export directory for a file
+ *
+ * Next to the note, the configured export path (absolute or relative to
+ * the vault), or the user's Downloads folder when none is set. Apart from
+ * next to the note, the export subfolder is appended.
+ */
+function getExportDir(
+  basePath: string,
+  file: TFile,
+  options: ExportOptions,
+): string {
+  if (options.exportNextToNote) {
+    return join(basePath, file.parent?.path ?? '');
+  }
+  const homeDir = getHomeDir();
+  const exportDir = resolveExportDir(options.exportPath ?? '', {
+    rootPath: basePath,
+    defaultDir: join(homeDir, 'Downloads'),
+    homeDir,
+  });
+  return join(exportDir, options.exportSubfolder ?? '');
 }
 
 /**
@@ -46,37 +245,45 @@ function getExportDir(): string {
  * Uses the unified core export pipeline with Obsidian-specific:
  * - VaultPathResolver for file access
  * - MermaidCacheManager for diagram rendering
- * - Notice API for user feedback
+ * - Notice API for user feedback, and a report modal after the export
  *
  * @param app - Obsidian app instance
  * @param file - File to export
- * @param format - Export format (html, pdf, pptx)
+ * @param format - Export format (html, pdf, pptx, png, jpeg, notes)
  * @param themeDir - Theme directory (relative to vault)
- * @param options - Export options
+ * @param options - Export options (including destination and browser path)
+ * @returns The export result, or null without a file
  */
 export async function exportSlide(
   app: App,
   file: TFile,
-  format: 'html' | 'pdf' | 'pptx',
+  format: ExportFormat,
   themeDir: string,
   options: ExportOptions = {},
-): Promise<void> {
+): Promise<ExportResult | null> {
   const {
     enableMarkdownItPlugins = false,
     enableMermaid = false,
     enableHTML = false,
-    mermaidCache,
   } = options;
+  const diagrams = getEnabledDiagrams(
+    options.diagrams ?? new DiagramRegistry(),
+    enableMermaid,
+  );
 
-  if (!file) return;
+  if (!file) return null;
 
   // Fix PATH for macOS GUI apps
   fixPath();
 
-  const exportDir = getExportDir();
   const basePath = (app.vault.adapter as FileSystemAdapter).getBasePath();
   const fileDir = file.parent?.path || '';
-  const outputPath = join(exportDir, `${file.basename}.${format}`);
+  const exportDir = getExportDir(basePath, file, options);
+  const fileName = formatExportFileName(options.fileNameTemplate ?? '', {
+    basename: file.basename,
+    ext: getExportExtension(format),
+  });
+  const outputPath = join(exportDir, fileName);
 
   // Read file content via vault adapter
   const fileContent = await app.vault.cachedRead(file);
@@ -98,43 +305,90 @@ export async function exportSlide(
     themeDir: resolvedThemeDir,
     enableDirectives: enableMarkdownItPlugins,
     enableMarkdownItPlugins,
-    enableHtml: enableHTML || enableMermaid,
+    enableHtml: enableHTML || diagrams.size > 0,
     allowLocalFiles: true,
     enableMermaid,
     enablePlantUML: false, // Not yet supported in Obsidian
-    embedImages: true,
-    embedIframes: true,
+    embedImages: options.embedImages ?? true,
+    embedIframes: options.embedImages ?? true,
     bespokeTransition: true,
+    browserPath: options.chromePath?.trim() || undefined,
+    timeout: options.timeout,
+    slides: options.slides,
+    imageScale: options.imageScale,
+    pdfNotes: options.pdfNotes,
+    pdfOutlines: options.pdfOutlines,
+    pptxEditable: options.pptxEditable,
   };
 
   // Create path resolver
   const pathResolver = new VaultPathResolver(app);
 
+  // Progress notice, stays up until the export finishes or is cancelled
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+  if (options.signal?.aborted) abort();
+  const notice = options.silent
+    ? null
+    : new ExportProgressNotice(
+        `Exporting "${fileName}" to "${exportDir}"`,
+        abort,
+      );
+
   // Create export context
+  const marpCliPath = options.marpCliPath?.trim() ?? '';
   const exportContext: ExportContext = {
     pathResolver,
     fileDir,
     getMimeType: (path) => mimes.getType(path),
-    mermaidRenderer: enableMermaid && mermaidCache ? mermaidCache : undefined,
+    diagrams,
     wikilinkResolver: (name) => name, // Return filename as-is for embedding
-    tempDir: exportDir, // Use export dir for temp files
-    onProgress: (message) => {
-      console.debug(`[Marp Export] ${message}`);
+    marpCli: resolveMarpCli(marpCliPath || undefined, [basePath]),
+    // Temp files go to the OS temp dir, so exports into the vault
+    // don't leave intermediate notes behind
+    signal: controller.signal,
+    onProgress: (progress) => {
+      notice?.setText(`Exporting "${fileName}": ${progress.message}`);
+      console.debug(`[Marp Export] ${progress.message}`);
     },
     onError: (error) => {
-      new Notice(`Export failed: ${error.message}`, 10000);
-      console.error('[Marp Export]', error);
+      if (!options.silent) {
+        showExportError(withMarpCliInstallHint(error, basePath, marpCliPath));
+      }
+      console.error('[Marp Export]', error.kind, error.message, error.cause);
     },
   };
 
-  // Show initial notice
-  new Notice(`Exporting "${file.basename}.${format}" to "${exportDir}"`, 20000);
+  // Execute export (creates the export directory)
+  let result: ExportResult;
+  try {
+    result = await exportPresentation(fileContent, exportConfig, exportContext);
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+    notice?.hide();
+  }
+  if (result.error) {
+    result = {
+      ...result,
+      error: withMarpCliInstallHint(result.error, basePath, marpCliPath),
+    };
+  }
 
-  // Execute export
-  const result = await exportPresentation(fileContent, exportConfig, exportContext);
+  // The caller reports the result
+  if (options.silent) return result;
 
   if (result.success) {
-    new Notice('Exported successfully', 5000);
+    if (options.showReport ?? true) {
+      new ExportReportModal(app, result.outputPath, result.report).open();
+    }
+    if (options.openAfterExport) {
+      await openExport(result.outputPath);
+    }
+  } else if (result.error?.kind === 'cancelled') {
+    new Notice('Export cancelled', 5000);
   }
-  // Error is already handled by onError callback
+  // Errors are already handled by onError callback
+
+  return result;
 }
@@ -0,0 +1,215 @@
+import { Notice, TFile, TFolder } from 'obsidian';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  EXPORT_FORMATS,
+  getDeckExportProfiles,
+  mapWithConcurrency,
+  type ExportFormat,
+} from '../core';
+import {
+  BatchExportModal,
+  BatchExportSummaryModal,
+  type DeckExportOutcome,
+} from './batchExportModal';
+import {
+  applyExportProfile,
+  exportSlide,
+  ExportProgressNotice,
+  getSettingsExportOptions,
+} from './export';
+import { EXPORT_FORMAT_NAMES } from './exportModal';
+import type MarpPlugin from './main';
+
+/**
+ * Register the export commands
+ *
+ * One command per format, and one that runs the export profiles listed
+ * in the deck's frontmatter. They work on the active Marp file (marp: true),
+ * so they can be bound to hotkeys and don't need the preview. Every deck in
+ * a folder can be exported from a command or the folder's context menu.
+ */
+export function registerExportCommands(plugin: MarpPlugin) {
+  const { app } = plugin;
+
+  const getActiveMarpFile = (): TFile | null => {
+    const file = app.workspace.getActiveFile();
+    if (!file) return null;
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+    return frontmatter?.marp === true ? file : null;
+  };
+
+  for (const format of EXPORT_FORMATS) {
+    plugin.addCommand({
+      id: `export-${format}`,
+      name: `Export as ${EXPORT_FORMAT_NAMES[format]}`,
+      checkCallback: checking => {
+        const file = getActiveMarpFile();
+        if (!file) return false;
+        if (!checking) void exportAs(file, format);
+        return true;
+      },
+    });
+  }
+
+  plugin.addCommand({
+    id: 'export-deck-profiles',
+    name: 'Export using deck profiles',
+    checkCallback: checking => {
+      const file = getActiveMarpFile();
+      if (!file) return false;
+      if (!checking) void exportProfiles(file);
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: 'export-folder',
+    name: 'Export all decks in folder',
+    callback: () => {
+      const folder =
+        app.workspace.getActiveFile()?.parent ?? app.vault.getRoot();
+      openBatchExport(folder);
+    },
+  });
+
+  plugin.registerEvent(
+    app.workspace.on('file-menu', (menu, file) => {
+      if (!(file instanceof TFolder)) return;
+      menu.addItem(item =>
+        item
+          .setTitle('Export Marp decks')
+          .setIcon('download')
+          .onClick(() => openBatchExport(file)),
+      );
+    }),
+  );
+
+  function openBatchExport(folder: TFolder) {
+    new BatchExportModal(app, folder, (chosen, formats) => {
+      void exportFolder(chosen, formats);
+    }).open();
+  }
+
+  async function exportAs(file: TFile, format: ExportFormat) {
+    const { settings } = plugin;
+    await exportSlide(
+      app,
+      file,
+      format,
+      settings.themeDir,
+      getSettingsExportOptions(settings, plugin.diagrams),
+    );
+  }
+
+  async function exportProfiles(file: TFile) {
+    const { settings } = plugin;
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+    const { profiles, errors } = getDeckExportProfiles(
+      frontmatter,
+      settings.exportProfiles,
+    );
+
+    if (errors.length > 0) {
+      new Notice(errors.join('\n'), 10000);
+    }
+    if (profiles.length === 0) {
+      if (errors.length === 0) {
+        new Notice(
+          `${file.basename} lists no export profiles. Add them to the frontmatter, e.g. marp-extended: { export: [handout] }`,
+          10000,
+        );
+      }
+      return;
+    }
+
+    // One after another: each export starts its own browser
+    const exported: string[] = [];
+    const failed: string[] = [];
+    for (const profile of profiles) {
+      const options = applyExportProfile(
+        getSettingsExportOptions(settings, plugin.diagrams),
+        profile,
+      );
+      const result = await exportSlide(
+        app,
+        file,
+        profile.format,
+        settings.themeDir,
+        { ...options, showReport: false },
+      );
+      if (result?.error?.kind === 'cancelled') break;
+      (result?.success ? exported : failed).push(profile.name);
+    }
+
+    const summary = [
+      `Exported ${exported.length} of ${profiles.length} profiles`,
+    ];
+    if (exported.length > 0) summary.push(`Done: ${exported.join(', ')}`);
+    if (failed.length > 0) summary.push(`Failed: ${failed.join(', ')}`);
+    new Notice(summary.join('\n'), 10000);
+  }
+
+  /**
+   * Export every deck (marp: true) in a folder and its subfolders
+   *
+   * A few exports run at once. Unless exports go next to the note, each
+   * deck's folder below the chosen one is kept in the export folder
+   * (Downloads included), so decks with the same name don't overwrite
+   * each other.
+   */
+  async function exportFolder(folder: TFolder, formats: ExportFormat[]) {
+    const { settings } = plugin;
+    const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+    const decks = app.vault
+      .getMarkdownFiles()
+      .filter(
+        file =>
+          file.path.startsWith(prefix) &&
+          app.metadataCache.getFileCache(file)?.frontmatter?.marp === true,
+      )
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    if (decks.length === 0) {
+      new Notice(`No Marp decks (marp: true) in ${folder.path}`);
+      return;
+    }
+
+    const jobs = decks.flatMap(file =>
+      formats.map(format => ({ file, format })),
+    );
+    const controller = new AbortController();
+    const notice = new ExportProgressNotice(
+      `Exporting ${decks.length} decks (0/${jobs.length})`,
+      () => controller.abort(),
+    );
+
+    let finished = 0;
+    const base = getSettingsExportOptions(settings, plugin.diagrams);
+    const results = await mapWithConcurrency(
+      jobs,
+      DEFAULT_BATCH_CONCURRENCY,
+      async ({ file, format }) => {
+        // Vault paths are compared as strings: the vault root is '/'
+        const subfolder = file.path.slice(prefix.length, -file.name.length);
+        const result = await exportSlide(app, file, format, settings.themeDir, {
+          ...base,
+          exportSubfolder: subfolder,
+          silent: true,
+          signal: controller.signal,
+        });
+        notice.setText(
+          `Exporting ${decks.length} decks (${++finished}/${jobs.length})`,
+        );
+        return result;
+      },
+      controller.signal,
+    );
+    notice.hide();
+
+    const outcomes: DeckExportOutcome[] = jobs.map((job, i) => ({
+      ...job,
+      result: results[i] ?? null,
+    }));
+    new BatchExportSummaryModal(app, folder, outcomes).open();
+  }
+}
@@ -0,0 +1,190 @@
+import { App, Modal, Setting } from 'obsidian';
+import { EXPORT_FORMATS, parseSlideRanges, type ExportFormat } from '../core';
+import type { ExportOptions } from './export';
+import type { ExportChoices } from './settings';
+
+/** Names of the export formats in menus and commands */
+export const EXPORT_FORMAT_NAMES: Record<ExportFormat, string> = {
+  pdf: 'PDF',
+  pptx: 'PowerPoint (PPTX)',
+  html: 'HTML',
+  png: 'PNG images',
+  jpeg: 'JPEG images',
+  notes: 'Speaker notes (TXT)',
+};
+
+/** On/off choices, shown as toggles */
+type ExportToggle = {
+  [K in keyof ExportChoices]: ExportChoices[K] extends boolean ? K : never;
+}[keyof ExportChoices];
+
+/**
+ * Placeholders showing what an empty folder or filename falls back to
+ */
+export interface ExportDefaults {
+  folder: string;
+  fileName: string;
+}
+
+/**
+ * Apply export dialog choices on top of the options from the settings
+ */
+export function applyExportChoices(
+  options: ExportOptions,
+  choices: ExportChoices,
+): ExportOptions {
+  const folder = choices.folder.trim();
+  const fileName = choices.fileName.trim();
+  const slides = choices.slides.trim();
+
+  return {
+    ...options,
+    ...(folder ? { exportPath: folder, exportNextToNote: false } : {}),
+    fileNameTemplate: fileName || options.fileNameTemplate,
+    slides: slides || undefined,
+    embedImages: choices.embedImages,
+    pdfNotes: choices.includeNotes,
+    pdfOutlines: choices.pdfOutline,
+    pptxEditable: choices.pptxEditable,
+    openAfterExport: choices.openAfterExport,
+  };
+}
+
+/**
+ * Export dialog: format, destination, slide range and format options
+ *
+ * Only the options that apply to the chosen format are shown.
+ */
+export class ExportOptionsModal extends Modal {
+  private choices: ExportChoices;
+
+  constructor(
+    app: App,
+    choices: ExportChoices,
+    private defaults: ExportDefaults,
+    private onExport: (choices: ExportChoices) => void,
+  ) {
+    super(app);
+    this.choices = { ...choices };
+  }
+
+  onOpen() {
+    this.titleEl.setText('Export presentation');
+    this.contentEl.addClass('marp-ext-export-modal');
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl, choices } = this;
+    contentEl.empty();
+
+    new Setting(contentEl).setName('Format').addDropdown(dropdown => {
+      for (const format of EXPORT_FORMATS) {
+        dropdown.addOption(format, EXPORT_FORMAT_NAMES[format]);
+      }
+      dropdown.setValue(choices.format).onChange(value => {
+        choices.format = value as ExportFormat;
+        this.render();
+      });
+    });
+
+    new Setting(contentEl)
+      .setName('Folder')
+      .setDesc('Absolute or relative to the vault. Empty uses the export settings.')
+      .addText(text =>
+        text
+          .setPlaceholder(this.defaults.folder)
+          .setValue(choices.folder)
+          .onChange(v => (choices.folder = v)),
+      );
+
+    new Setting(contentEl)
+      .setName('Filename')
+      .setDesc('Placeholders: {basename}, {date}, {time}, {ext}.')
+      .addText(text =>
+        text
+          .setPlaceholder(this.defaults.fileName)
+          .setValue(choices.fileName)
+          .onChange(v => (choices.fileName = v)),
+      );
+
+    let exportButton: HTMLButtonElement | null = null;
+    const slidesSetting = new Setting(contentEl)
+      .setName('Slides')
+      .setDesc('e.g. 1-3,7. Empty exports all slides.');
+    const slidesErrorEl = slidesSetting.descEl.createDiv({
+      cls: 'marp-ext-export-modal-error',
+    });
+    const validateSlides = () => {
+      const text = choices.slides.trim();
+      const valid = !text || parseSlideRanges(text) !== null;
+      slidesErrorEl.setText(valid ? '' : `Invalid slides: ${text}`);
+      if (exportButton) exportButton.disabled = !valid;
+    };
+    slidesSetting.addText(text =>
+      text.setValue(choices.slides).onChange(v => {
+        choices.slides = v;
+        validateSlides();
+      }),
+    );
+
+    if (choices.format !== 'notes') {
+      this.addToggle(
+        'Embed images',
+        'Include local images and iframes in the file.',
+        'embedImages',
+      );
+    }
+    if (choices.format === 'pdf') {
+      this.addToggle(
+        'Include notes',
+        'Add speaker notes as PDF annotations.',
+        'includeNotes',
+      );
+      this.addToggle(
+        'PDF outline',
+        'Add bookmarks for slides and headings.',
+        'pdfOutline',
+      );
+    }
+    if (choices.format === 'pptx') {
+      this.addToggle(
+        'Editable PPTX',
+        'Export text as editable shapes (experimental).',
+        'pptxEditable',
+      );
+    }
+    this.addToggle(
+      'Open after export',
+      'Open the exported file (or image folder) with the default app.',
+      'openAfterExport',
+    );
+
+    new Setting(contentEl).addButton(button => {
+      exportButton = button.buttonEl;
+      button
+        .setButtonText('Export')
+        .setCta()
+        .onClick(() => {
+          this.close();
+          this.onExport({ ...choices });
+        });
+    });
+    validateSlides();
+  }
+
+  private addToggle(name: string, desc: string, key: ExportToggle) {
+    new Setting(this.contentEl)
+      .setName(name)
+      .setDesc(desc)
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.choices[key])
+          .onChange(v => (this.choices[key] = v)),
+      );
+  }
+}
@@ -0,0 +1,84 @@
+import { App, Modal } from 'obsidian';
+import {
+  formatByteSize,
+  hasExportProblems,
+  type ExportReport,
+} from '../core/exportReport';
+
+/**
+ * Modal shown after an export: missing assets, diagram errors,
+ * embedded assets and the output size.
+ */
+export class ExportReportModal extends Modal {
+  constructor(
+    app: App,
+    private outputPath: string,
+    private report: ExportReport,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl, report } = this;
+    contentEl.addClass('marp-ext-export-report');
+    this.titleEl.setText('Export report');
+
+    const size =
+      report.outputBytes !== null
+        ? ` (${formatByteSize(report.outputBytes)})`
+        : '';
+    contentEl.createEl('p', { text: `Exported to ${this.outputPath}${size}` });
+
+    if (!hasExportProblems(report)) {
+      contentEl.createEl('p', {
+        text: 'No missing assets or diagram errors.',
+        cls: 'marp-ext-export-report-ok',
+      });
+    }
+
+    this.renderSection(
+      'Missing assets',
+      report.missingAssets.map(
+        asset => `${asset.type} ${asset.path}${this.formatLine(asset.line)}`,
+      ),
+      'marp-ext-export-report-problem',
+    );
+    this.renderSection(
+      'Diagram errors',
+      report.diagramErrors.map(
+        failure =>
+          `${failure.diagram}${this.formatLine(failure.line)}: ${failure.message}`,
+      ),
+      'marp-ext-export-report-problem',
+    );
+
+    const embeddedBytes = report.embeddedAssets.reduce(
+      (sum, asset) => sum + asset.bytes,
+      0,
+    );
+    this.renderSection(
+      `Embedded assets (${formatByteSize(embeddedBytes)})`,
+      report.embeddedAssets.map(
+        asset => `${asset.type} ${asset.path} ${formatByteSize(asset.bytes)}`,
+      ),
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private formatLine(line: number | null): string {
+    return line === null ? '' : ` (line ${line})`;
+  }
+
+  private renderSection(title: string, items: string[], cls?: string) {
+    if (items.length === 0) return;
+
+    this.contentEl.createEl('h4', { text: `${title}: ${items.length}` });
+    const list = this.contentEl.createEl('ul', { cls });
+    for (const item of items) {
+      list.createEl('li', { text: item });
+    }
+  }
+}
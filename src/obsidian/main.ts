@@ -1,20 +1,46 @@
-import { FileSystemAdapter, Notice, Plugin, TFile, WorkspaceLeaf, editorInfoField } from 'obsidian';
+import { FileSystemAdapter, Notice, Platform, Plugin, TFile, WorkspaceLeaf, editorInfoField } from 'obsidian';
 import { MARP_DEFAULT_SETTINGS, MarpPluginSettings } from './settings';
 import { MARP_DECK_VIEW_TYPE, DeckView } from './deckView';
 import { MarpSettingTab } from './settingTab';
+import { PresentationSession } from './presentation';
+import {
+  MARP_PRESENTER_CONSOLE_VIEW_TYPE,
+  MARP_SLIDESHOW_VIEW_TYPE,
+  PresenterConsoleView,
+  SlideshowView,
+} from './presenterView';
+import { MARP_SLIDE_SORTER_VIEW_TYPE, SlideSorterView } from './slideSorterView';
+import { registerSlideCommands } from './slideCommands';
+import { registerExportCommands } from './exportCommands';
 import { readdir, readFile } from 'fs/promises';
 import { marp } from './marp';
 import { existsSync } from 'fs';
-import { join, normalize } from 'path';
+import { isAbsolute, join, normalize } from 'path';
 import {
   MermaidCacheManager,
   destroyMermaidCacheManager,
 } from './mermaidCache';
 import { EditorView, ViewUpdate } from '@codemirror/view';
+import fixPath from 'fix-path';
+import {
+  DiagramRegistry,
+  MERMAID_DIAGRAM,
+  GRAPHVIZ_DIAGRAM,
+  type DiagramRendererEntry,
+} from '../core/diagrams/registry';
+import { CachingDiagramRenderer } from '../core/diagrams/cache';
+import {
+  DiagramDiskCache,
+  getDefaultDiagramCacheDir,
+} from '../core/diagrams/diskCache';
+import { GraphvizRenderer } from '../core/diagrams/graphviz';
 
 export default class MarpPlugin extends Plugin {
   settings: MarpPluginSettings;
   mermaidCache: MermaidCacheManager;
+  /** Diagram renderers for the preview and exports, by fence language */
+  diagrams = new DiagramRegistry();
+  presentation: PresentationSession | null = null;
 
   async onload() {
     await this.loadSettings();
@@ -23,6 +49,8 @@ export default class MarpPlugin extends Plugin {
     this.mermaidCache = new MermaidCacheManager({
       theme: this.settings.mermaidTheme,
     });
+    this.diagrams.register({ ...MERMAID_DIAGRAM, renderer: this.mermaidCache });
+    this.registerGraphviz();
 
     // Ribbon icon for preview
     this.addRibbonIcon('presentation', 'Marp: Open Preview', async _ => {
@@ -48,18 +76,85 @@ export default class MarpPlugin extends Plugin {
       },
     });
 
-    // Register view
+    // Commands for editing and navigating slides
+    registerSlideCommands(this);
+
+    // Commands for exporting the active file
+    registerExportCommands(this);
+
+    // Command for the slide sorter
+    this.addCommand({
+      id: 'open-slide-sorter',
+      name: 'Open slide sorter',
+      callback: async () => {
+        await this.activateSlideSorter();
+      },
+    });
+
+    // Command for presenter mode
+    this.addCommand({
+      id: 'start-presentation',
+      name: 'Start presentation',
+      callback: async () => {
+        await this.startPresentation();
+      },
+    });
+
+    this.addCommand({
+      id: 'stop-presentation',
+      name: 'Stop presentation',
+      checkCallback: (checking: boolean) => {
+        if (!this.presentation) return false;
+        if (!checking) this.stopPresentation();
+        return true;
+      },
+    });
+
+    // Register views
+    this.registerView(MARP_DECK_VIEW_TYPE, leaf => {
+      const view = new DeckView(leaf, this.settings, this.diagrams, () =>
+        this.saveSettings(),
+      );
+      view.onRendered = deckView => this.onDeckRendered(deckView);
+      return view;
+    });
     this.registerView(
-      MARP_DECK_VIEW_TYPE,
-      leaf => new DeckView(leaf, this.settings, this.mermaidCache),
+      MARP_SLIDESHOW_VIEW_TYPE,
+      leaf => new SlideshowView(leaf, this),
+    );
+    this.registerView(
+      MARP_PRESENTER_CONSOLE_VIEW_TYPE,
+      leaf => new PresenterConsoleView(leaf, this),
+    );
+    this.registerView(
+      MARP_SLIDE_SORTER_VIEW_TYPE,
+      leaf => new SlideSorterView(leaf),
     );
     this.addSettingTab(new MarpSettingTab(this.app, this));
 
-    // Register CodeMirror extension for cursor/selection change tracking
+    // Keep remembered export dialog choices with their deck
+    this.registerEvent(
+      this.app.vault.on('rename', async (file, oldPath) => {
+        const choices = this.settings.exportChoices[oldPath];
+        if (!choices) return;
+        delete this.settings.exportChoices[oldPath];
+        this.settings.exportChoices[file.path] = choices;
+        await this.saveSettings();
+      }),
+    );
+    this.registerEvent(
+      this.app.vault.on('delete', async file => {
+        if (!this.settings.exportChoices[file.path]) return;
+        delete this.settings.exportChoices[file.path];
+        await this.saveSettings();
+      }),
+    );
+
+    // Register CodeMirror extension for cursor/selection and document change tracking
     this.registerEditorExtension(
       EditorView.updateListener.of((update: ViewUpdate) => {
-        // Only react to selection changes (cursor movement)
-        if (!update.selectionSet) return;
+        // Only react to selection changes (cursor movement) and edits
+        if (!update.selectionSet && !update.docChanged) return;
 
         // Get the EditorInfo from the editor state
         const editorInfo = update.state.field(editorInfoField);
@@ -68,12 +163,13 @@ export default class MarpPlugin extends Plugin {
         const file = editorInfo.file;
         if (!file) return;
 
-        // Notify all DeckViews about the cursor change
+        // Notify all DeckViews about the change
         const deckViews = this.app.workspace.getLeavesOfType(MARP_DECK_VIEW_TYPE);
         for (const leaf of deckViews) {
           const view = leaf.view as DeckView;
           if (view.file?.path === file.path) {
-            view.onEditorSelectionChange(update);
+            if (update.docChanged) view.onEditorDocChange(update);
+            if (update.selectionSet) view.onEditorSelectionChange(update);
           }
         }
       }),
@@ -106,6 +202,8 @@ export default class MarpPlugin extends Plugin {
   }
 
   onunload() {
+    this.stopPresentation();
+
     // Don't detach leaves on unload - let Obsidian preserve them in workspace state
     // so the preview persists across restarts (including pinned position in sidebar)
 
@@ -114,6 +212,76 @@ export default class MarpPlugin extends Plugin {
     destroyMermaidCacheManager();
   }
 
+  /**
+   * Render fences of another language as diagrams in the preview and
+   * exports, e.g. from another plugin:
+   * `app.plugins.plugins['marp-extended'].registerDiagramRenderer(...)`
+   */
+  registerDiagramRenderer(entry: DiagramRendererEntry) {
+    this.diagrams.register(entry);
+    this.onDiagramsChanged();
+  }
+
+  /**
+   * Called when Graphviz settings change.
+   * Replaces the Graphviz renderer and renders the previews again.
+   */
+  onGraphvizSettingsChange() {
+    this.registerGraphviz();
+    this.onDiagramsChanged();
+  }
+
+  /**
+   * Called when the diagram cache settings change.
+   * Puts the Graphviz renderer behind the new cache.
+   */
+  onDiagramCacheSettingsChange() {
+    this.onGraphvizSettingsChange();
+  }
+
+  /**
+   * Folder of the diagram disk cache
+   *
+   * The user cache folder by default, shared with the CLI; a relative
+   * folder is in the vault.
+   */
+  getDiagramCacheDir(): string {
+    const dir = this.settings.diagramCacheDir.trim();
+    if (!dir) return getDefaultDiagramCacheDir();
+    if (isAbsolute(dir)) return dir;
+    const basePath = (this.app.vault.adapter as FileSystemAdapter).getBasePath();
+    return join(basePath, dir);
+  }
+
+  private registerGraphviz() {
+    this.diagrams.get(GRAPHVIZ_DIAGRAM.id)?.renderer.destroy?.();
+    this.diagrams.unregister(GRAPHVIZ_DIAGRAM.id);
+    if (!this.settings.enableGraphviz) return;
+
+    // Find dot on the PATH for macOS GUI apps
+    fixPath();
+    const renderer = new GraphvizRenderer({
+      dotPath: this.settings.graphvizPath || undefined,
+    });
+    // Kept on disk too, so exports only run dot for changed diagrams
+    this.diagrams.register({
+      ...GRAPHVIZ_DIAGRAM,
+      renderer: new CachingDiagramRenderer(renderer, {
+        id: GRAPHVIZ_DIAGRAM.id,
+        disk: this.settings.diagramCache
+          ? new DiagramDiskCache(this.getDiagramCacheDir())
+          : undefined,
+      }),
+    });
+  }
+
+  private onDiagramsChanged() {
+    const leaves = this.app.workspace.getLeavesOfType(MARP_DECK_VIEW_TYPE);
+    for (const leaf of leaves) {
+      void (leaf.view as DeckView).onDiagramsChanged();
+    }
+  }
+
   /**
    * Called when Mermaid theme setting changes.
    * Updates cache manager and clears cached SVGs.
@@ -165,6 +333,113 @@ export default class MarpPlugin extends Plugin {
     });
   }
 
+  /**
+   * Start presenting the deck shown in the preview (opening the preview
+   * for the active file if needed). The slideshow and the presenter console
+   * open in pop-out windows on desktop.
+   */
+  async startPresentation() {
+    let deckView = this.findDeckViewForPresentation();
+    const activeFile = this.app.workspace.getActiveFile();
+    if (!deckView && activeFile) {
+      await this.activateView(activeFile);
+      deckView = this.findDeckViewForPresentation();
+    }
+
+    const deck = deckView?.getPresentationDeck();
+    if (!deckView || !deck) {
+      new Notice('Open a Marp presentation in the preview to start presenting.');
+      return;
+    }
+
+    this.stopPresentation();
+    this.presentation = new PresentationSession(
+      deck,
+      deckView.getActiveSlideIndex(),
+    );
+
+    // Open the console first, so the slideshow window ends up in front
+    if (this.settings.openPresenterConsole) {
+      await this.openPresentationLeaf(MARP_PRESENTER_CONSOLE_VIEW_TYPE);
+    }
+    await this.openPresentationLeaf(MARP_SLIDESHOW_VIEW_TYPE);
+  }
+
+  stopPresentation() {
+    if (!this.presentation) return;
+    this.presentation = null;
+
+    this.app.workspace.detachLeavesOfType(MARP_SLIDESHOW_VIEW_TYPE);
+    this.app.workspace.detachLeavesOfType(MARP_PRESENTER_CONSOLE_VIEW_TYPE);
+  }
+
+  onSlideshowClosed() {
+    if (!this.presentation) return;
+    this.presentation = null;
+
+    // The slideshow's leaf is closing already; close the console with it
+    this.app.workspace.detachLeavesOfType(MARP_PRESENTER_CONSOLE_VIEW_TYPE);
+  }
+
+  // Prefer the preview showing the active file, else any preview with a deck
+  private findDeckViewForPresentation(): DeckView | null {
+    const activePath = this.app.workspace.getActiveFile()?.path;
+    const views = this.app.workspace
+      .getLeavesOfType(MARP_DECK_VIEW_TYPE)
+      .map(leaf => leaf.view as DeckView)
+      .filter(view => view.file);
+
+    return (
+      views.find(view => view.file?.path === activePath) ?? views[0] ?? null
+    );
+  }
+
+  private async openPresentationLeaf(type: string) {
+    const leaf = Platform.isDesktopApp
+      ? this.app.workspace.openPopoutLeaf()
+      : this.app.workspace.getLeaf('tab');
+    await leaf.setViewState({ type, active: true });
+  }
+
+  /**
+   * Open the slide sorter for the deck in the preview (opening the preview
+   * for the active file if needed)
+   */
+  async activateSlideSorter() {
+    let deckView = this.findDeckViewForPresentation();
+    const activeFile = this.app.workspace.getActiveFile();
+    if (!deckView && activeFile) {
+      await this.activateView(activeFile);
+      deckView = this.findDeckViewForPresentation();
+    }
+
+    if (!deckView?.file) {
+      new Notice('Open a Marp presentation in the preview to sort its slides.');
+      return;
+    }
+
+    const leaf = this.app.workspace.getLeaf('tab');
+    await leaf.setViewState({
+      type: MARP_SLIDE_SORTER_VIEW_TYPE,
+      active: true,
+      state: { filePath: deckView.file.path },
+    });
+  }
+
+  // Keep a running presentation and slide sorters in sync with the preview
+  private onDeckRendered(view: DeckView) {
+    for (const leaf of this.app.workspace.getLeavesOfType(MARP_SLIDE_SORTER_VIEW_TYPE)) {
+      (leaf.view as SlideSorterView).onDeckRendered(view);
+    }
+
+    if (!this.presentation) return;
+
+    const deck = view.getPresentationDeck();
+    if (deck && deck.filePath === this.presentation.deck.filePath) {
+      this.presentation.update(deck);
+    }
+  }
+
   async loadSettings() {
     this.settings = { ...MARP_DEFAULT_SETTINGS, ...(await this.loadData()) };
   }
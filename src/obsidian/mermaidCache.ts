@@ -1,5 +1,8 @@
 import mermaid from 'mermaid';
 import type { DiagramRenderer } from '../core/diagrams/types';
+import { createDiagramErrorSvg } from '../core/diagrams/errorSvg';
+import { preprocessMermaid } from '../core/preprocessor';
+import { scanMarkdown } from '../core/markdownScanner';
 
 export type MermaidTheme =
   | 'default'
@@ -12,19 +15,6 @@ export interface MermaidConfig {
   theme: MermaidTheme;
 }
 
-// Regex to match mermaid code blocks with optional sizing (w:VALUE or h:VALUE)
-// VALUE can be a number (defaults to px) or include units (%, pt, em, etc.)
-// Examples: ```mermaid, ```mermaid w:400, ```mermaid h:50%, ```mermaid w:10em
-const MERMAID_REGEX = /```mermaid(?:\s+(w|h):(\S+))?\n([\s\S]*?)```/g;
-
-interface MermaidBlockMatch {
-  fullMatch: string;
-  index: number;
-  sizeType: 'w' | 'h' | null;
-  sizeValue: string | null;
-  code: string;
-}
-
 /**
  * Manages Mermaid diagram rendering with caching.
  * SVGs are cached by content hash to avoid re-rendering unchanged diagrams.
@@ -130,7 +120,7 @@ export class MermaidCacheManager implements DiagramRenderer {
       console.error('Mermaid render error:', errorMessage);
 
       // Return error placeholder
-      const errorSvg = this.createErrorSvg(errorMessage);
+      const errorSvg = createDiagramErrorSvg('Mermaid Error', errorMessage);
       // Don't cache errors - allow retry on next render
       return errorSvg;
     }
@@ -150,102 +140,19 @@ export class MermaidCacheManager implements DiagramRenderer {
       .trim();
   }
 
-  /**
-   * Convert SVG to a base64 data URI for use in <img> tags.
-   * This isolates the SVG from parent document CSS completely.
-   */
-  private svgToDataUri(svg: string): string {
-    // Encode the SVG as base64
-    // Use decodeURIComponent with a replace pattern instead of deprecated unescape
-    const encoded = encodeURIComponent(svg).replace(
-      /%([0-9A-F]{2})/g,
-      (_, p1) => String.fromCharCode(parseInt(p1, 16)),
-    );
-    const base64 = btoa(encoded);
-    return `data:image/svg+xml;base64,${base64}`;
-  }
-
-  /**
-   * Create an error SVG placeholder.
-   */
-  private createErrorSvg(message: string): string {
-    const escapedMessage = message
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;');
-
-    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 100">
-      <rect width="400" height="100" fill="#fee" stroke="#c00" stroke-width="2" rx="4"/>
-      <text x="10" y="25" fill="#c00" font-family="monospace" font-size="14" font-weight="bold">Mermaid Error</text>
-      <text x="10" y="50" fill="#600" font-family="monospace" font-size="11">${escapedMessage.substring(0, 60)}</text>
-      ${escapedMessage.length > 60 ? `<text x="10" y="70" fill="#600" font-family="monospace" font-size="11">${escapedMessage.substring(60, 120)}</text>` : ''}
-    </svg>`;
-  }
-
   /**
    * Check if markdown contains any Mermaid code blocks.
+   * Fences inside other code blocks are not counted.
    */
   hasMermaidBlocks(markdown: string): boolean {
-    return MERMAID_REGEX.test(markdown);
-  }
-
-  /**
-   * Parse mermaid code block matches into structured data.
-   * Regex groups: [0]=full match, [1]=w|h, [2]=size value, [3]=code
-   */
-  private parseMatches(
-    matches: RegExpMatchArray[],
-  ): MermaidBlockMatch[] {
-    return matches.map((match) => ({
-      fullMatch: match[0],
-      index: match.index!,
-      sizeType: (match[1] as 'w' | 'h') || null,
-      sizeValue: match[2] || null,
-      code: match[3],
-    }));
-  }
-
-  /**
-   * Normalize size value: add 'px' if no unit is specified.
-   */
-  private normalizeSizeValue(value: string): string {
-    // If value is purely numeric, add 'px'
-    if (/^\d+$/.test(value)) {
-      return `${value}px`;
-    }
-    // Otherwise pass through as-is (e.g., 50%, 10em, 2rem, 100pt)
-    return value;
-  }
-
-  /**
-   * Generate inline style for the img tag based on size parameters.
-   * w:VALUE -> width: VALUE; height: auto
-   * h:VALUE -> height: VALUE; width: auto
-   * no size -> (no style, let it scale naturally)
-   *
-   * VALUE defaults to px if no unit specified, otherwise passed through.
-   */
-  private generateImgStyle(
-    sizeType: 'w' | 'h' | null,
-    sizeValue: string | null,
-  ): string {
-    if (!sizeType || !sizeValue) {
-      return '';
-    }
-
-    const normalizedValue = this.normalizeSizeValue(sizeValue);
-
-    if (sizeType === 'w') {
-      return ` style="width: ${normalizedValue}; height: auto;"`;
-    } else {
-      return ` style="height: ${normalizedValue}; width: auto;"`;
-    }
+    return scanMarkdown(markdown).some(
+      block => block.fence?.language === 'mermaid',
+    );
   }
 
   /**
    * Preprocess markdown by converting all Mermaid code blocks to inline SVGs.
-   * This is the main entry point for both preview and export.
+   * Delegates to the core preprocessor, using this instance as renderer.
    *
    * Supports optional sizing in code block header:
    * - ```mermaid w:400   -> width: 400px (number defaults to px)
@@ -254,40 +161,7 @@ export class MermaidCacheManager implements DiagramRenderer {
    * - ```mermaid h:10em  -> height: 10em
    */
   async preprocessMarkdown(markdown: string): Promise<string> {
-    // Reset regex state
-    MERMAID_REGEX.lastIndex = 0;
-
-    const rawMatches = [...markdown.matchAll(MERMAID_REGEX)];
-
-    if (rawMatches.length === 0) {
-      return markdown;
-    }
-
-    const matches = this.parseMatches(rawMatches);
-
-    // Render all diagrams in parallel for performance
-    const renderPromises = matches.map((m) => this.render(m.code));
-    const svgs = await Promise.all(renderPromises);
-
-    // Build result by replacing each match (reverse order to preserve indices)
-    let result = markdown;
-    for (let i = matches.length - 1; i >= 0; i--) {
-      const match = matches[i];
-      const svg = svgs[i];
-
-      // Convert SVG to base64 data URI and use <img> tag
-      // This completely isolates the SVG from parent document CSS
-      const dataUri = this.svgToDataUri(svg);
-      const style = this.generateImgStyle(match.sizeType, match.sizeValue);
-      const replacement = `<img src="${dataUri}" alt="Mermaid diagram"${style}>`;
-
-      result =
-        result.substring(0, match.index) +
-        replacement +
-        result.substring(match.index + match.fullMatch.length);
-    }
-
-    return result;
+    return preprocessMermaid(markdown, this);
   }
 
   /**
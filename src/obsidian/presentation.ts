@@ -0,0 +1,131 @@
+import { TRANSITION_ATTR } from '../core';
+
+/**
+ * Rendered deck as shown in presenter mode (taken from DeckView)
+ */
+export interface PresentationDeck {
+  filePath: string;
+  /** Marp CSS of the deck */
+  css: string;
+  /** HTML of each slide wrapper, as rendered in the preview */
+  slides: string[];
+  /** Speaker notes of each slide */
+  notes: string[];
+  /** Whether each slide is hidden (skipped when presenting) */
+  hidden: boolean[];
+}
+
+/**
+ * State of a running presentation, shared by the slideshow and the
+ * presenter console (which may live in different windows)
+ */
+export class PresentationSession {
+  deck: PresentationDeck;
+  index: number;
+  startedAt: number;
+  private listeners = new Set<() => void>();
+
+  constructor(deck: PresentationDeck, index = 0) {
+    this.deck = deck;
+    this.index = this.findVisible(this.clamp(index), 1) ?? this.clamp(index);
+    this.startedAt = Date.now();
+  }
+
+  get slideCount(): number {
+    return this.deck.slides.length;
+  }
+
+  goTo(index: number) {
+    const target = this.clamp(index);
+    if (target === this.index) return;
+    this.index = target;
+    this.emit();
+  }
+
+  next() {
+    const next = this.getNextIndex();
+    if (next !== null) this.goTo(next);
+  }
+
+  previous() {
+    const previous = this.findVisible(this.index - 1, -1);
+    if (previous !== null) this.goTo(previous);
+  }
+
+  first() {
+    this.goTo(this.findVisible(0, 1) ?? 0);
+  }
+
+  last() {
+    this.goTo(this.findVisible(this.slideCount - 1, -1) ?? this.slideCount - 1);
+  }
+
+  /**
+   * Get the index of the next visible slide, or null at the end
+   */
+  getNextIndex(): number | null {
+    return this.findVisible(this.index + 1, 1);
+  }
+
+  // Find the first slide from index on (in step direction) that isn't hidden
+  private findVisible(index: number, step: 1 | -1): number | null {
+    for (let i = index; i >= 0 && i < this.slideCount; i += step) {
+      if (!this.deck.hidden[i]) return i;
+    }
+    return null;
+  }
+
+  // Replace the deck after the source was re-rendered
+  update(deck: PresentationDeck) {
+    this.deck = deck;
+    this.index = this.clamp(this.index);
+    this.emit();
+  }
+
+  resetTimer() {
+    this.startedAt = Date.now();
+    this.emit();
+  }
+
+  /**
+   * Listen for slide, deck or timer changes. Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit() {
+    for (const listener of this.listeners) listener();
+  }
+
+  private clamp(index: number): number {
+    return Math.min(Math.max(index, 0), Math.max(this.slideCount - 1, 0));
+  }
+}
+
+/**
+ * Render a single slide of the deck into el
+ *
+ * The slide is wrapped in the same container as in the preview, so the
+ * scoped Marp CSS applies. Returns the slide wrapper element.
+ */
+export function renderPresentationSlide(
+  el: HTMLElement,
+  deck: PresentationDeck,
+  index: number,
+): HTMLElement | null {
+  const containerEl = el.createDiv({ attr: { id: '__marp-vscode' } });
+  // Note: innerHTML is required here as Marp generates complex HTML/SVG output.
+  // The content is the preview's render of the user's own markdown.
+  // eslint-disable-next-line no-unsanitized/property -- Marp-generated HTML from user's own markdown
+  containerEl.innerHTML = deck.slides[index] ?? '';
+  return containerEl.firstElementChild as HTMLElement | null;
+}
+
+/**
+ * Get the transition directive value of a rendered slide
+ */
+export function getSlideTransition(slideEl: HTMLElement | null): string | null {
+  return slideEl?.querySelector('section')?.getAttribute(TRANSITION_ATTR) ?? null;
+}
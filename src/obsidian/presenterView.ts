@@ -0,0 +1,405 @@
+import { ItemView, WorkspaceLeaf, setIcon } from 'obsidian';
+import { browser, type MarpCoreBrowser } from '@marp-team/marp-core/browser';
+import {
+  formatDuration,
+  getNavigationAction,
+  parseTransition,
+  type NavigationAction,
+} from '../core';
+import { MarpPluginSettings } from './settings';
+import {
+  PresentationSession,
+  getSlideTransition,
+  renderPresentationSlide,
+} from './presentation';
+
+export const MARP_SLIDESHOW_VIEW_TYPE = 'marp-ext-slideshow';
+export const MARP_PRESENTER_CONSOLE_VIEW_TYPE = 'marp-ext-presenter-console';
+
+/**
+ * What the presentation views need from the plugin
+ */
+export interface PresentationHost {
+  readonly presentation: PresentationSession | null;
+  readonly settings: MarpPluginSettings;
+  /** End the presentation, closing its views */
+  stopPresentation(): void;
+  /** The slideshow's leaf closed: end the presentation around it */
+  onSlideshowClosed(): void;
+}
+
+// Apply a navigation action to the session
+function navigate(session: PresentationSession, action: NavigationAction) {
+  switch (action) {
+    case 'next':
+      session.next();
+      break;
+    case 'previous':
+      session.previous();
+      break;
+    case 'first':
+      session.first();
+      break;
+    case 'last':
+      session.last();
+      break;
+  }
+}
+
+// Show a message instead of slides (e.g. restored view without a session)
+function showNoPresentation(el: HTMLElement) {
+  el.empty();
+  const placeholderEl = el.createDiv({ cls: 'marp-ext-placeholder' });
+  placeholderEl.createEl('div', {
+    text: 'No presentation running',
+    cls: 'marp-ext-placeholder-title',
+  });
+  placeholderEl.createEl('div', {
+    text: 'Use "Start presentation" on a Marp deck',
+    cls: 'marp-ext-placeholder-subtitle',
+  });
+}
+
+/**
+ * Fullscreen slideshow of the running presentation
+ *
+ * Shows one slide at a time with the transition given by the `transition`
+ * directive. Usually opened in a pop-out window that goes fullscreen.
+ */
+export class SlideshowView extends ItemView {
+  private host: PresentationHost;
+  private marpBrowser: MarpCoreBrowser | undefined;
+  private styleEl: HTMLStyleElement;
+  private stageEl: HTMLElement;
+  private currentSlideEl: HTMLElement | null = null;
+  private shownIndex = -1;
+  private shownHtml = '';
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, host: PresentationHost) {
+    super(leaf);
+    this.host = host;
+  }
+
+  getViewType(): string {
+    return MARP_SLIDESHOW_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Marp Slideshow';
+  }
+
+  getIcon(): string {
+    return 'presentation';
+  }
+
+  async onOpen() {
+    const session = this.host.presentation;
+    if (!session) {
+      showNoPresentation(this.contentEl);
+      return;
+    }
+
+    this.contentEl.empty();
+    this.contentEl.addClass('marp-ext-slideshow');
+    this.contentEl.tabIndex = 0;
+
+    this.styleEl = this.contentEl.createEl('style');
+    this.stageEl = this.contentEl.createDiv({ cls: 'marp-ext-slideshow-stage' });
+    this.marpBrowser = browser(this.contentEl);
+
+    this.registerDomEvent(this.contentEl, 'keydown', e => this.handleKey(e));
+    // Click advances, like in Marp CLI's bespoke template
+    this.registerDomEvent(this.stageEl, 'click', e => {
+      if ((e.target as HTMLElement).closest('a, button, iframe, video')) return;
+      session.next();
+    });
+
+    this.unsubscribe = session.onChange(() => this.update(session));
+    this.update(session);
+
+    this.contentEl.focus();
+    this.enterFullscreen();
+  }
+
+  async onClose() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.marpBrowser?.cleanup();
+
+    // Closing the slideshow ends the presentation; this leaf is already
+    // being detached, so only the rest is cleaned up
+    this.host.onSlideshowClosed();
+  }
+
+  private handleKey(e: KeyboardEvent) {
+    const session = this.host.presentation;
+    if (!session) return;
+
+    if (e.key === 'f') {
+      e.preventDefault();
+      this.toggleFullscreen();
+      return;
+    }
+
+    // Escape leaves fullscreen natively; a second one ends the presentation
+    if (e.key === 'Escape' && !this.contentEl.doc.fullscreenElement) {
+      e.preventDefault();
+      this.host.stopPresentation();
+      return;
+    }
+
+    const action = getNavigationAction(e.key);
+    if (action) {
+      e.preventDefault();
+      navigate(session, action);
+    }
+  }
+
+  private enterFullscreen() {
+    // May be refused by the platform; 'f' toggles fullscreen manually
+    this.contentEl.requestFullscreen().catch(() => {
+      console.debug('Fullscreen not available for slideshow');
+    });
+  }
+
+  private toggleFullscreen() {
+    if (this.contentEl.doc.fullscreenElement) {
+      void this.contentEl.doc.exitFullscreen();
+    } else {
+      this.enterFullscreen();
+    }
+  }
+
+  // Sync the view with the session (slide change or re-rendered deck)
+  private update(session: PresentationSession) {
+    const { deck, index } = session;
+
+    if (this.styleEl.textContent !== deck.css) {
+      this.styleEl.textContent = deck.css;
+    }
+
+    if (index !== this.shownIndex) {
+      this.showSlide(session, index, this.shownIndex >= 0);
+    } else if (deck.slides[index] !== this.shownHtml) {
+      // Same slide, new content: replace without transition
+      this.showSlide(session, index, false);
+    }
+  }
+
+  private showSlide(
+    session: PresentationSession,
+    index: number,
+    animate: boolean,
+  ) {
+    const forward = index > this.shownIndex;
+    const previousEl = this.currentSlideEl;
+
+    const slideEl = this.stageEl.createDiv({ cls: 'marp-ext-slideshow-slide' });
+    const wrapperEl = renderPresentationSlide(slideEl, session.deck, index);
+    this.marpBrowser?.update();
+
+    // Going forward uses the transition of the new slide, going back
+    // reverses the transition of the slide being left
+    const transition = parseTransition(
+      getSlideTransition(forward ? wrapperEl : previousEl),
+    );
+
+    this.currentSlideEl = slideEl;
+    this.shownIndex = index;
+    this.shownHtml = session.deck.slides[index] ?? '';
+
+    if (!previousEl) return;
+
+    if (!animate || transition.name === 'none') {
+      previousEl.remove();
+      return;
+    }
+
+    const classes = [
+      `marp-ext-transition-${transition.name}`,
+      forward ? 'marp-ext-transition-forward' : 'marp-ext-transition-backward',
+    ];
+    const duration = `${transition.duration}ms`;
+
+    // Animations are defined in styles.css
+    this.stageEl.setCssProps({ '--marp-ext-transition-duration': duration });
+    slideEl.addClass(...classes, 'marp-ext-transition-in');
+    previousEl.addClass(...classes, 'marp-ext-transition-out');
+
+    window.setTimeout(() => {
+      previousEl.remove();
+      slideEl.removeClass(...classes, 'marp-ext-transition-in');
+    }, transition.duration);
+  }
+}
+
+/**
+ * Presenter console: current and next slide, speaker notes and timer
+ *
+ * Meant to run in a pop-out window on the presenter's screen while the
+ * slideshow is shown on the projector.
+ */
+export class PresenterConsoleView extends ItemView {
+  private host: PresentationHost;
+  private marpBrowser: MarpCoreBrowser | undefined;
+  private styleEl: HTMLStyleElement;
+  private counterEl: HTMLElement;
+  private elapsedEl: HTMLElement;
+  private remainingEl: HTMLElement;
+  private currentEl: HTMLElement;
+  private nextEl: HTMLElement;
+  private notesEl: HTMLElement;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, host: PresentationHost) {
+    super(leaf);
+    this.host = host;
+  }
+
+  getViewType(): string {
+    return MARP_PRESENTER_CONSOLE_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Marp Presenter Console';
+  }
+
+  getIcon(): string {
+    return 'monitor-speaker';
+  }
+
+  async onOpen() {
+    const session = this.host.presentation;
+    if (!session) {
+      showNoPresentation(this.contentEl);
+      return;
+    }
+
+    this.contentEl.empty();
+    this.contentEl.addClass('marp-ext-presenter-console');
+    this.contentEl.tabIndex = 0;
+
+    this.styleEl = this.contentEl.createEl('style');
+
+    // Header: navigation, slide counter and timer
+    const headerEl = this.contentEl.createDiv({ cls: 'marp-ext-presenter-header' });
+    this.createButton(headerEl, 'chevron-left', 'Previous slide', () =>
+      session.previous(),
+    );
+    this.counterEl = headerEl.createDiv({ cls: 'marp-ext-presenter-counter' });
+    this.createButton(headerEl, 'chevron-right', 'Next slide', () =>
+      session.next(),
+    );
+
+    const timerEl = headerEl.createDiv({ cls: 'marp-ext-presenter-timer' });
+    this.elapsedEl = timerEl.createSpan({ cls: 'marp-ext-presenter-elapsed' });
+    this.remainingEl = timerEl.createSpan({ cls: 'marp-ext-presenter-remaining' });
+    this.createButton(headerEl, 'timer-reset', 'Reset timer', () =>
+      session.resetTimer(),
+    );
+    this.createButton(headerEl, 'square', 'Stop presentation', () =>
+      this.host.stopPresentation(),
+    );
+
+    // Body: current slide | next slide + notes
+    const bodyEl = this.contentEl.createDiv({ cls: 'marp-ext-presenter-body' });
+    this.currentEl = bodyEl.createDiv({ cls: 'marp-ext-presenter-current' });
+    const sideEl = bodyEl.createDiv({ cls: 'marp-ext-presenter-side' });
+    this.nextEl = sideEl.createDiv({ cls: 'marp-ext-presenter-next' });
+    this.notesEl = sideEl.createDiv({ cls: 'marp-ext-presenter-notes' });
+
+    this.marpBrowser = browser(this.contentEl);
+
+    this.registerDomEvent(this.contentEl, 'keydown', e => {
+      const action = getNavigationAction(e.key);
+      if (!action) return;
+      // Keep keyboard use of the header buttons
+      if ((e.target as HTMLElement).closest('button')) return;
+      e.preventDefault();
+      navigate(session, action);
+    });
+    this.registerDomEvent(this.currentEl, 'click', () => session.next());
+    this.registerDomEvent(this.nextEl, 'click', () => session.next());
+
+    this.unsubscribe = session.onChange(() => this.update(session));
+    this.registerInterval(
+      window.setInterval(() => this.updateTimer(session), 1000),
+    );
+    this.update(session);
+
+    this.contentEl.focus();
+  }
+
+  async onClose() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.marpBrowser?.cleanup();
+  }
+
+  private createButton(
+    parentEl: HTMLElement,
+    icon: string,
+    title: string,
+    callback: () => void,
+  ) {
+    const button = parentEl.createEl('button', {
+      cls: 'clickable-icon',
+      attr: { 'aria-label': title },
+    });
+    setIcon(button, icon);
+    button.addEventListener('click', callback);
+  }
+
+  private update(session: PresentationSession) {
+    const { deck, index } = session;
+
+    if (this.styleEl.textContent !== deck.css) {
+      this.styleEl.textContent = deck.css;
+    }
+
+    this.counterEl.setText(`${index + 1} / ${session.slideCount}`);
+
+    this.currentEl.empty();
+    renderPresentationSlide(this.currentEl, deck, index);
+
+    this.nextEl.empty();
+    const nextIndex = session.getNextIndex();
+    if (nextIndex !== null) {
+      renderPresentationSlide(this.nextEl, deck, nextIndex);
+    } else {
+      this.nextEl.createDiv({
+        text: 'End of presentation',
+        cls: 'marp-ext-presenter-end',
+      });
+    }
+
+    this.notesEl.empty();
+    const notes = deck.notes[index];
+    if (notes) {
+      this.notesEl.setText(notes);
+    } else {
+      this.notesEl.createDiv({
+        text: 'No speaker notes',
+        cls: 'marp-ext-presenter-no-notes',
+      });
+    }
+
+    this.marpBrowser?.update();
+    this.updateTimer(session);
+  }
+
+  private updateTimer(session: PresentationSession) {
+    const elapsed = Date.now() - session.startedAt;
+    this.elapsedEl.setText(formatDuration(elapsed));
+
+    const minutes = this.host.settings.presentationDuration;
+    if (minutes > 0) {
+      const remaining = minutes * 60 * 1000 - elapsed;
+      this.remainingEl.setText(formatDuration(remaining));
+      this.remainingEl.toggleClass('is-overtime', remaining < 0);
+    } else {
+      this.remainingEl.setText('');
+    }
+  }
+}
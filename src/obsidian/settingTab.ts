@@ -1,6 +1,11 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import MarpPlugin from './main';
 import { MathTypesetting, MermaidTheme, PreviewLocation } from './settings';
+import {
+  DEFAULT_EXPORT_FILENAME_TEMPLATE,
+  DiagramDiskCache,
+  parseExportProfiles,
+} from '../core';
 
 export class MarpSettingTab extends PluginSettingTab {
   plugin: MarpPlugin;
@@ -30,6 +35,18 @@ export class MarpSettingTab extends PluginSettingTab {
         }),
       );
 
+    new Setting(containerEl)
+      .setName('Live preview')
+      .setDesc(
+        'Render the preview from the editor while typing, without waiting for the file to be saved.',
+      )
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.livePreview).onChange(async v => {
+          this.plugin.settings.livePreview = v;
+          await this.plugin.saveSettings();
+        }),
+      );
+
     new Setting(containerEl)
       .setName('Preview location')
       .setDesc('Where to open the Marp preview.')
@@ -165,6 +182,112 @@ export class MarpSettingTab extends PluginSettingTab {
           }),
       );
 
+    // Graphviz section
+    new Setting(containerEl).setName('Graphviz diagrams').setHeading();
+
+    new Setting(containerEl)
+      .setName('Enable Graphviz')
+      .setDesc(
+        'Convert dot and graphviz code blocks to diagrams in preview and export. Requires Graphviz to be installed. Pick a layout engine per block with engine:neato.',
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enableGraphviz)
+          .onChange(async v => {
+            this.plugin.settings.enableGraphviz = v;
+            this.plugin.onGraphvizSettingsChange();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Graphviz path')
+      .setDesc(
+        'Path to the dot executable. Leave empty to use dot on the PATH.',
+      )
+      .addText(text =>
+        text
+          .setPlaceholder('dot')
+          .setValue(this.plugin.settings.graphvizPath)
+          .onChange(async v => {
+            this.plugin.settings.graphvizPath = v;
+            this.plugin.onGraphvizSettingsChange();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Diagram cache')
+      .setDesc(
+        'Keep rendered Graphviz diagrams on disk, so previews and exports only run dot for diagrams that changed, also after restarting Obsidian.',
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.diagramCache)
+          .onChange(async v => {
+            this.plugin.settings.diagramCache = v;
+            this.plugin.onDiagramCacheSettingsChange();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Diagram cache folder')
+      .setDesc(
+        'Absolute or relative to the vault. Leave empty to use the user cache folder, shared with the marp-extended CLI.',
+      )
+      .addText(text =>
+        text
+          .setPlaceholder('User cache folder')
+          .setValue(this.plugin.settings.diagramCacheDir)
+          .onChange(async v => {
+            this.plugin.settings.diagramCacheDir = v;
+            this.plugin.onDiagramCacheSettingsChange();
+            await this.plugin.saveSettings();
+          }),
+      )
+      .addButton(button =>
+        button.setButtonText('Clear').onClick(async () => {
+          const dir = this.plugin.getDiagramCacheDir();
+          const removed = await new DiagramDiskCache(dir).clear();
+          new Notice(`Removed ${removed} cached diagrams from ${dir}`);
+        }),
+      );
+
+    // Presentation section
+    new Setting(containerEl).setName('Presentation').setHeading();
+
+    new Setting(containerEl)
+      .setName('Open presenter console')
+      .setDesc(
+        'Show current and next slide, speaker notes and a timer in a separate window when starting a presentation.',
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.openPresenterConsole)
+          .onChange(async v => {
+            this.plugin.settings.openPresenterConsole = v;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Presentation duration')
+      .setDesc(
+        'Planned length in minutes, used for the remaining time in the presenter console. Use 0 to only show the elapsed time.',
+      )
+      .addText(text =>
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.presentationDuration))
+          .onChange(async v => {
+            const minutes = parseInt(v, 10);
+            this.plugin.settings.presentationDuration =
+              isNaN(minutes) || minutes < 0 ? 0 : minutes;
+            await this.plugin.saveSettings();
+          }),
+      );
+
     // Themes section
     new Setting(containerEl).setName('Themes').setHeading();
 
@@ -187,16 +310,46 @@ export class MarpSettingTab extends PluginSettingTab {
     new Setting(containerEl).setName('Export').setHeading();
 
     new Setting(containerEl)
-      .setName('Export path')
+      .setName('Export next to note')
+      .setDesc('Write exported files into the folder of the presentation.')
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.exportNextToNote)
+          .onChange(async v => {
+            this.plugin.settings.exportNextToNote = v;
+            await this.plugin.saveSettings();
+            this.display();
+          }),
+      );
+
+    if (!this.plugin.settings.exportNextToNote) {
+      new Setting(containerEl)
+        .setName('Export path')
+        .setDesc(
+          'Directory for exported files: an absolute path, or a path relative to the vault. Leave empty to use the Downloads folder.',
+        )
+        .addText(text =>
+          text
+            .setPlaceholder('Leave empty for Downloads folder')
+            .setValue(this.plugin.settings.exportPath)
+            .onChange(async v => {
+              this.plugin.settings.exportPath = v;
+              await this.plugin.saveSettings();
+            }),
+        );
+    }
+
+    new Setting(containerEl)
+      .setName('Export filename')
       .setDesc(
-        'Custom directory for exported files. Leave empty to use the Downloads folder.',
+        'Template for exported filenames. Placeholders: {basename}, {ext}, {date} (YYYY-MM-DD) and {time} (HHmmss).',
       )
       .addText(text =>
         text
-          .setPlaceholder('Leave empty for Downloads folder')
-          .setValue(this.plugin.settings.exportPath)
+          .setPlaceholder(DEFAULT_EXPORT_FILENAME_TEMPLATE)
+          .setValue(this.plugin.settings.exportFileName)
           .onChange(async v => {
-            this.plugin.settings.exportPath = v;
+            this.plugin.settings.exportFileName = v;
             await this.plugin.saveSettings();
           }),
       );
@@ -215,5 +368,83 @@ export class MarpSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           }),
       );
+
+    new Setting(containerEl)
+      .setName('Marp CLI path')
+      .setDesc(
+        'Path to the marp executable or to marp-cli.js of an @marp-team/marp-cli installation. Leave empty to use a copy installed in the vault (run npm install --save-dev @marp-team/marp-cli in the vault folder); enter marp to use the one on the PATH.',
+      )
+      .addText(text =>
+        text
+          .setPlaceholder('Auto-detect')
+          .setValue(this.plugin.settings.marpCliPath)
+          .onChange(async v => {
+            this.plugin.settings.marpCliPath = v;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Export timeout')
+      .setDesc(
+        'Stop an export that takes longer than this many seconds (e.g. a hanging browser). Set to 0 for no limit.',
+      )
+      .addText(text =>
+        text
+          .setPlaceholder('300')
+          .setValue(String(this.plugin.settings.exportTimeout))
+          .onChange(async v => {
+            const seconds = parseInt(v, 10);
+            this.plugin.settings.exportTimeout =
+              isNaN(seconds) || seconds < 0 ? 0 : seconds;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Image export scale')
+      .setDesc(
+        'Scale factor for PNG/JPEG slide images, e.g. 2 for high-DPI screens.',
+      )
+      .addText(text =>
+        text
+          .setPlaceholder('1')
+          .setValue(String(this.plugin.settings.exportImageScale))
+          .onChange(async v => {
+            const scale = parseFloat(v);
+            this.plugin.settings.exportImageScale =
+              isNaN(scale) || scale <= 0 ? 1 : scale;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    const profilesSetting = new Setting(containerEl)
+      .setName('Export profiles')
+      .setDesc(
+        'JSON list of named exports for decks to pick in their frontmatter (marp-extended: { export: [handout] }), e.g. [{ "name": "handout", "format": "pdf", "folder": "Handouts", "pdfNotes": true }]. Options: format, folder, fileName, slides, embedImages, pdfNotes, pdfOutlines, pptxEditable, imageScale.',
+      );
+    const profilesErrorEl = profilesSetting.descEl.createDiv({
+      cls: 'marp-ext-settings-error',
+    });
+    profilesSetting.addTextArea(text => {
+      text.inputEl.rows = 6;
+      text
+        .setPlaceholder('[]')
+        .setValue(JSON.stringify(this.plugin.settings.exportProfiles, null, 2))
+        .onChange(async v => {
+          let errors: string[];
+          try {
+            const result = parseExportProfiles(JSON.parse(v.trim() || '[]'));
+            errors = result.errors;
+            if (errors.length === 0) {
+              this.plugin.settings.exportProfiles = result.profiles;
+              await this.plugin.saveSettings();
+            }
+          } catch (e) {
+            errors = [`Invalid JSON: ${e instanceof Error ? e.message : e}`];
+          }
+          profilesErrorEl.setText(errors.join('\n'));
+        });
+    });
   }
 }
@@ -1,17 +1,55 @@
+import {
+  DEFAULT_EXPORT_FILENAME_TEMPLATE,
+  type ExportFormat,
+  type ExportProfile,
+} from '../core';
+
 export type MathTypesetting = 'mathjax' | 'katex' | false;
 
 export type MermaidTheme = 'default' | 'dark' | 'forest' | 'neutral' | 'base';
 
 export type PreviewLocation = 'sidebar' | 'split' | 'tab';
 
+/**
+ * Choices made in the export dialog, remembered per deck
+ */
+export interface ExportChoices {
+  format: ExportFormat;
+  folder: string; // Empty = export settings
+  fileName: string; // Template, empty = export settings
+  slides: string; // e.g. 1-3,7; empty = all slides
+  embedImages: boolean;
+  includeNotes: boolean; // PDF: notes as annotations
+  pdfOutline: boolean;
+  pptxEditable: boolean;
+  openAfterExport: boolean;
+}
+
+export const DEFAULT_EXPORT_CHOICES: ExportChoices = {
+  format: 'pdf',
+  folder: '',
+  fileName: '',
+  slides: '',
+  embedImages: true,
+  includeNotes: false,
+  pdfOutline: false,
+  pptxEditable: false,
+  openAfterExport: false,
+};
+
 export interface MarpPluginSettings {
   // Preview settings
   autoReload: boolean;
+  livePreview: boolean;
   previewLocation: PreviewLocation;
   enableSyncPreview: boolean;
   enableTextSelection: boolean;
   followActiveFile: boolean;
 
+  // Presentation settings
+  openPresenterConsole: boolean;
+  presentationDuration: number; // Minutes, 0 = no remaining time
+
   // Theme settings
   themeDir: string;
 
@@ -24,19 +62,37 @@ export interface MarpPluginSettings {
   enableMermaid: boolean;
   mermaidTheme: MermaidTheme;
 
+  // Graphviz settings
+  enableGraphviz: boolean;
+  graphvizPath: string; // Empty = dot on the PATH
+  diagramCache: boolean; // Keep rendered Graphviz diagrams on disk
+  diagramCacheDir: string; // Absolute or vault-relative, empty = user cache folder
+
   // Export settings
   exportPath: string;
+  exportNextToNote: boolean;
+  exportFileName: string; // Template, e.g. {basename}-{date}.{ext}
   chromePath: string;
+  marpCliPath: string; // Empty = local installation in the vault; 'marp' = PATH
+  exportTimeout: number; // Seconds, 0 = no limit
+  exportImageScale: number; // Scale factor for PNG/JPEG export
+  exportChoices: Record<string, ExportChoices>; // Export dialog, by deck path
+  exportProfiles: ExportProfile[]; // Named profiles for decks to pick
 }
 
 export const MARP_DEFAULT_SETTINGS: MarpPluginSettings = {
   // Preview settings
   autoReload: true,
+  livePreview: false,
   previewLocation: 'sidebar',
   enableSyncPreview: true,
   enableTextSelection: true,
   followActiveFile: true,
 
+  // Presentation settings
+  openPresenterConsole: true,
+  presentationDuration: 0,
+
   // Theme settings
   themeDir: 'MarpTheme',
 
@@ -49,7 +105,20 @@ export const MARP_DEFAULT_SETTINGS: MarpPluginSettings = {
   enableMermaid: true,
   mermaidTheme: 'default',
 
+  // Graphviz settings
+  enableGraphviz: false,
+  graphvizPath: '',
+  diagramCache: true,
+  diagramCacheDir: '',
+
   // Export settings
   exportPath: '',
+  exportNextToNote: false,
+  exportFileName: DEFAULT_EXPORT_FILENAME_TEMPLATE,
   chromePath: '',
+  marpCliPath: '',
+  exportTimeout: 300,
+  exportImageScale: 1,
+  exportChoices: {},
+  exportProfiles: [],
 };
@@ -0,0 +1,217 @@
+import { Editor, Notice, TFile } from 'obsidian';
+import {
+  computeSlideRanges,
+  deleteSlide,
+  duplicateSlide,
+  getLineChange,
+  getSlideIndexForLine,
+  insertSlide,
+  mergeSlideWithNext,
+  moveSlide,
+  preprocessForRenderMapped,
+  splitSlide,
+  type SlideEditResult,
+  type SlideRange,
+} from '../core';
+import { DeckView, MARP_DECK_VIEW_TYPE } from './deckView';
+import type MarpPlugin from './main';
+
+/**
+ * Editing command on the slide under the cursor
+ */
+interface SlideCommand {
+  id: string;
+  name: string;
+  edit: (
+    markdown: string,
+    cursorLine: number,
+    slideIndex: number,
+    ranges: SlideRange[],
+  ) => SlideEditResult | null;
+  /** Keep the cursor at the same line within the affected slide */
+  keepCursorOffset: boolean;
+  /** Shown when the command can't be applied at the cursor */
+  failure: string;
+}
+
+const SLIDE_COMMANDS: SlideCommand[] = [
+  {
+    id: 'insert-slide-before',
+    name: 'Insert slide before',
+    edit: (markdown, _line, index, ranges) =>
+      insertSlide(markdown, index, 'before', ranges),
+    keepCursorOffset: false,
+    failure: 'Could not insert a slide here.',
+  },
+  {
+    id: 'insert-slide-after',
+    name: 'Insert slide after',
+    edit: (markdown, _line, index, ranges) =>
+      insertSlide(markdown, index, 'after', ranges),
+    keepCursorOffset: false,
+    failure: 'Could not insert a slide here.',
+  },
+  {
+    id: 'duplicate-slide',
+    name: 'Duplicate slide',
+    edit: (markdown, _line, index, ranges) =>
+      duplicateSlide(markdown, index, ranges),
+    keepCursorOffset: true,
+    failure: 'Could not duplicate the slide.',
+  },
+  {
+    id: 'delete-slide',
+    name: 'Delete slide',
+    edit: (markdown, _line, index, ranges) =>
+      deleteSlide(markdown, index, ranges),
+    keepCursorOffset: false,
+    failure: 'A presentation needs at least one slide.',
+  },
+  {
+    id: 'move-slide-up',
+    name: 'Move slide up',
+    edit: (markdown, _line, index, ranges) =>
+      moveSlide(markdown, index, -1, ranges),
+    keepCursorOffset: true,
+    failure: 'This is already the first slide.',
+  },
+  {
+    id: 'move-slide-down',
+    name: 'Move slide down',
+    edit: (markdown, _line, index, ranges) =>
+      moveSlide(markdown, index, 1, ranges),
+    keepCursorOffset: true,
+    failure: 'This is already the last slide.',
+  },
+  {
+    id: 'split-slide',
+    name: 'Split slide at cursor',
+    edit: (markdown, line, _index, ranges) =>
+      splitSlide(markdown, line, ranges),
+    keepCursorOffset: false,
+    failure:
+      'Cannot split here (start of a slide, frontmatter, code block or comment).',
+  },
+  {
+    id: 'merge-slide-with-next',
+    name: 'Merge slide with next',
+    edit: (markdown, _line, index, ranges) =>
+      mergeSlideWithNext(markdown, index, ranges),
+    keepCursorOffset: true,
+    failure:
+      'Cannot merge: last slide, or the next slide starts at a divided heading.',
+  },
+];
+
+/**
+ * Register the slide editing and navigation commands
+ *
+ * Commands are only available in Marp presentations (marp: true) and
+ * operate on the slide under the cursor. Edits are applied as a single
+ * editor transaction, and previews of the file re-render right away so
+ * the active slide stays in sync.
+ */
+export function registerSlideCommands(plugin: MarpPlugin) {
+  const { app } = plugin;
+
+  // Slides as the preview splits them: in the raw text, a ruler right
+  // after a `///` directive line underlines it as a heading instead of
+  // starting a slide, so the ranges come from the preprocessed markdown,
+  // mapped back to the editor's lines
+  const getSlideRanges = async (markdown: string): Promise<SlideRange[]> =>
+    computeSlideRanges(
+      await preprocessForRenderMapped(markdown, {
+        enableDirectives: plugin.settings.enableMarkdownItPlugins,
+      }),
+    );
+
+  const isMarpFile = (file: TFile | null): boolean =>
+    file !== null &&
+    app.metadataCache.getFileCache(file)?.frontmatter?.marp === true;
+
+  for (const command of SLIDE_COMMANDS) {
+    plugin.addCommand({
+      id: command.id,
+      name: command.name,
+      editorCheckCallback: (checking, editor, ctx) => {
+        const file = ctx.file;
+        if (!file || !isMarpFile(file)) return false;
+        if (!checking) void runSlideCommand(command, editor, file);
+        return true;
+      },
+    });
+  }
+
+  for (const [id, name, direction] of [
+    ['next-slide', 'Go to next slide', 1],
+    ['previous-slide', 'Go to previous slide', -1],
+  ] as const) {
+    plugin.addCommand({
+      id,
+      name,
+      editorCheckCallback: (checking, editor, ctx) => {
+        if (!isMarpFile(ctx.file)) return false;
+        if (!checking) void jumpToSlide(editor, direction);
+        return true;
+      },
+    });
+  }
+
+  async function runSlideCommand(
+    command: SlideCommand,
+    editor: Editor,
+    file: TFile,
+  ) {
+    const markdown = editor.getValue();
+    const cursorLine = editor.getCursor().line;
+    const ranges = await getSlideRanges(markdown);
+    // Typing went on meanwhile; the edit would be based on old text
+    if (editor.getValue() !== markdown) return;
+    const index = getSlideIndexForLine(ranges, cursorLine);
+
+    const result = command.edit(markdown, cursorLine, index, ranges);
+    const change = result && getLineChange(markdown, result.markdown);
+    if (!result || !change) {
+      new Notice(command.failure);
+      return;
+    }
+
+    const offset = command.keepCursorOffset
+      ? Math.max(cursorLine - ranges[index].startLine, 0)
+      : 0;
+    const lastLine = result.markdown.split('\n').length - 1;
+    const cursor = { line: Math.min(result.line + offset, lastLine), ch: 0 };
+
+    editor.transaction({ changes: [change], selection: { from: cursor } });
+    editor.scrollIntoView({ from: cursor, to: cursor }, true);
+
+    // Re-render previews from the editor content, so they follow at once
+    for (const leaf of app.workspace.getLeavesOfType(MARP_DECK_VIEW_TYPE)) {
+      const view = leaf.view as DeckView;
+      if (view.file?.path === file.path) {
+        void view.renderPreview(result.markdown);
+      }
+    }
+  }
+
+  async function jumpToSlide(editor: Editor, direction: 1 | -1) {
+    const ranges = await getSlideRanges(editor.getValue());
+    const index = getSlideIndexForLine(ranges, editor.getCursor().line);
+    const range = ranges[index + direction];
+    if (!range) return;
+
+    // First non-blank line of the slide, falling back to its start
+    let line = range.startLine;
+    const end = Math.min(range.endLine, editor.lineCount());
+    for (let i = range.startLine; i < end; i++) {
+      if (editor.getLine(i).trim() !== '') {
+        line = i;
+        break;
+      }
+    }
+
+    const cursor = { line, ch: 0 };
+    editor.setCursor(cursor);
+    editor.scrollIntoView({ from: cursor, to: cursor }, true);
+  }
+}
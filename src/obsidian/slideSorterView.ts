@@ -0,0 +1,317 @@
+import {
+  Editor,
+  ItemView,
+  Notice,
+  TFile,
+  ViewStateResult,
+  WorkspaceLeaf,
+  setIcon,
+} from 'obsidian';
+import { browser, type MarpCoreBrowser } from '@marp-team/marp-core/browser';
+import {
+  getLineChange,
+  rearrangeSlides,
+  setSlideHidden,
+  type SlideRange,
+} from '../core';
+import { DeckView, MARP_DECK_VIEW_TYPE } from './deckView';
+import { renderPresentationSlide, type PresentationDeck } from './presentation';
+
+export const MARP_SLIDE_SORTER_VIEW_TYPE = 'marp-ext-slide-sorter';
+
+interface SlideSorterViewState {
+  filePath?: string;
+}
+
+/**
+ * Rewrites the deck markdown given the current slide ranges
+ */
+type SlideEdit = (markdown: string, ranges: SlideRange[]) => string;
+
+/**
+ * Grid of slide thumbnails for rearranging a deck
+ *
+ * Thumbnails come from the DeckView showing the same file. Dragging,
+ * duplicating, hiding and deleting slides rewrites the markdown through a
+ * single editor transaction, so each action is one undo step.
+ */
+export class SlideSorterView extends ItemView {
+  file: TFile | null = null;
+  private marpBrowser: MarpCoreBrowser | undefined;
+  private styleEl: HTMLStyleElement;
+  private gridEl: HTMLElement;
+  private dragIndex: number | null = null;
+
+  constructor(leaf: WorkspaceLeaf) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return MARP_SLIDE_SORTER_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return this.file ? `Slides: ${this.file.basename}` : 'Marp Slide Sorter';
+  }
+
+  getIcon(): string {
+    return 'layout-grid';
+  }
+
+  async onOpen() {
+    this.contentEl.empty();
+    this.contentEl.addClass('marp-ext-sorter');
+
+    this.styleEl = this.contentEl.createEl('style');
+    this.gridEl = this.contentEl.createDiv({ cls: 'marp-ext-sorter-grid' });
+    this.marpBrowser = browser(this.contentEl);
+
+    this.refresh();
+  }
+
+  async onClose() {
+    this.marpBrowser?.cleanup();
+  }
+
+  async setState(state: SlideSorterViewState, result: ViewStateResult) {
+    if (state.filePath) {
+      const file = this.app.vault.getAbstractFileByPath(state.filePath);
+      this.file = file instanceof TFile ? file : null;
+    }
+    this.refresh();
+    return super.setState(state, result);
+  }
+
+  getState(): Record<string, unknown> {
+    return {
+      filePath: this.file?.path ?? null,
+    };
+  }
+
+  /**
+   * Called after a DeckView rendered, to pick up the new slides
+   */
+  onDeckRendered(view: DeckView) {
+    if (view.file?.path === this.file?.path) this.refresh();
+  }
+
+  // Find the preview of our file
+  private getDeckView(): DeckView | null {
+    for (const leaf of this.app.workspace.getLeavesOfType(MARP_DECK_VIEW_TYPE)) {
+      const view = leaf.view as DeckView;
+      if (this.file && view.file?.path === this.file.path) return view;
+    }
+    return null;
+  }
+
+  // Find the editor of our file
+  private getEditor(): Editor | null {
+    for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+      const view = leaf.view;
+      if (
+        'file' in view &&
+        (view as { file: TFile | null }).file?.path === this.file?.path &&
+        'editor' in view
+      ) {
+        return (view as { editor: Editor }).editor;
+      }
+    }
+    return null;
+  }
+
+  private refresh() {
+    if (!this.gridEl) return;
+
+    const deck = this.getDeckView()?.getPresentationDeck();
+    this.gridEl.empty();
+
+    if (!deck) {
+      const placeholderEl = this.gridEl.createDiv({ cls: 'marp-ext-placeholder' });
+      placeholderEl.createEl('div', {
+        text: 'No slides to show',
+        cls: 'marp-ext-placeholder-title',
+      });
+      placeholderEl.createEl('div', {
+        text: 'Open the Marp preview for this presentation',
+        cls: 'marp-ext-placeholder-subtitle',
+      });
+      return;
+    }
+
+    if (this.styleEl.textContent !== deck.css) {
+      this.styleEl.textContent = deck.css;
+    }
+
+    deck.slides.forEach((_, index) => this.createCard(deck, index));
+    this.marpBrowser?.update();
+  }
+
+  private createCard(deck: PresentationDeck, index: number) {
+    const cardEl = this.gridEl.createDiv({
+      cls: 'marp-ext-sorter-card',
+      attr: { draggable: 'true' },
+    });
+    cardEl.toggleClass('is-hidden', deck.hidden[index]);
+
+    const thumbEl = cardEl.createDiv({ cls: 'marp-ext-sorter-thumb' });
+    renderPresentationSlide(thumbEl, deck, index);
+
+    const footerEl = cardEl.createDiv({ cls: 'marp-ext-sorter-footer' });
+    footerEl.createSpan({
+      text: String(index + 1),
+      cls: 'marp-ext-sorter-number',
+    });
+
+    const count = deck.slides.length;
+    const withoutIndex = (order: number[]) => order.filter(i => i !== index);
+    const identity = () => Array.from({ length: count }, (_, i) => i);
+
+    this.createButton(footerEl, 'copy', 'Duplicate slide', () => {
+      const order = identity();
+      order.splice(index + 1, 0, index);
+      void this.applyEdit((markdown, ranges) =>
+        rearrangeSlides(markdown, order, ranges),
+      );
+    });
+    this.createButton(
+      footerEl,
+      deck.hidden[index] ? 'eye' : 'eye-off',
+      deck.hidden[index] ? 'Show slide' : 'Hide slide',
+      () => {
+        void this.applyEdit((markdown, ranges) =>
+          setSlideHidden(markdown, index, !deck.hidden[index], ranges),
+        );
+      },
+    );
+    this.createButton(footerEl, 'trash', 'Delete slide', () => {
+      if (count <= 1) {
+        new Notice('A presentation needs at least one slide.');
+        return;
+      }
+      void this.applyEdit((markdown, ranges) =>
+        rearrangeSlides(markdown, withoutIndex(identity()), ranges),
+      );
+    });
+
+    // Drag and drop: drop before or after the target card, Alt copies
+    cardEl.addEventListener('dragstart', e => {
+      this.dragIndex = index;
+      e.dataTransfer?.setData('text/plain', String(index));
+      cardEl.addClass('is-dragging');
+    });
+    cardEl.addEventListener('dragend', () => {
+      this.dragIndex = null;
+      cardEl.removeClass('is-dragging');
+      this.clearDropIndicators();
+    });
+    cardEl.addEventListener('dragover', e => {
+      if (this.dragIndex === null) return;
+      e.preventDefault();
+      const after = this.isAfter(cardEl, e);
+      this.clearDropIndicators();
+      cardEl.addClass(after ? 'drop-after' : 'drop-before');
+    });
+    cardEl.addEventListener('drop', e => {
+      if (this.dragIndex === null) return;
+      e.preventDefault();
+
+      const from = this.dragIndex;
+      const target = this.isAfter(cardEl, e) ? index + 1 : index;
+      this.clearDropIndicators();
+
+      const order = identity();
+      if (e.altKey) {
+        order.splice(target, 0, from);
+      } else {
+        if (target === from || target === from + 1) return;
+        order.splice(target, 0, from);
+        order.splice(target < from ? from + 1 : from, 1);
+      }
+
+      void this.applyEdit((markdown, ranges) =>
+        rearrangeSlides(markdown, order, ranges),
+      );
+    });
+  }
+
+  private createButton(
+    parentEl: HTMLElement,
+    icon: string,
+    title: string,
+    callback: () => void,
+  ) {
+    const button = parentEl.createEl('button', {
+      cls: 'clickable-icon',
+      attr: { 'aria-label': title },
+    });
+    setIcon(button, icon);
+    button.addEventListener('click', e => {
+      e.stopPropagation();
+      callback();
+    });
+  }
+
+  // Whether the pointer is on the right half of a card
+  private isAfter(cardEl: HTMLElement, e: DragEvent): boolean {
+    const rect = cardEl.getBoundingClientRect();
+    return e.clientX > rect.left + rect.width / 2;
+  }
+
+  private clearDropIndicators() {
+    for (const el of Array.from(this.gridEl.querySelectorAll('.drop-before, .drop-after'))) {
+      el.removeClass('drop-before', 'drop-after');
+    }
+  }
+
+  /**
+   * Rewrite the deck markdown
+   *
+   * With an open editor, the change goes through one editor transaction
+   * (one undo step); otherwise the file is rewritten directly. The preview
+   * is re-rendered from the new markdown right away.
+   */
+  private async applyEdit(edit: SlideEdit) {
+    const deckView = this.getDeckView();
+    if (!this.file || !deckView) return;
+
+    const expectedCount = deckView.getPresentationDeck()?.slides.length;
+    const editor = this.getEditor();
+    const current = editor
+      ? editor.getValue()
+      : await this.app.vault.read(this.file);
+    const outOfDate = () =>
+      new Notice('The preview is out of date. Try again after it has refreshed.');
+
+    // Indices refer to the rendered slides: split like the preview, and
+    // refuse if they don't match
+    const ranges = await deckView.computeSourceSlideRanges(current);
+    if (ranges.length !== expectedCount) {
+      outOfDate();
+      return;
+    }
+
+    const markdown = edit(current, ranges);
+    if (editor) {
+      // Typing went on while the ranges were computed
+      if (editor.getValue() !== current) {
+        outOfDate();
+        return;
+      }
+      const change = getLineChange(current, markdown);
+      if (!change) return;
+      editor.transaction({ changes: [change] });
+    } else {
+      let changed = false;
+      await this.app.vault.process(this.file, data => {
+        changed = data !== current;
+        return changed ? data : markdown;
+      });
+      if (changed) {
+        outOfDate();
+        return;
+      }
+    }
+
+    await deckView.renderPreview(markdown);
+  }
+}